@@ -0,0 +1,196 @@
+#!/usr/bin/env node
+
+// Issue and manage API keys in the file store the server reads (API_KEYS_FILE).
+//
+//   npm run api-keys -- create <name> --tier <tier>
+//   npm run api-keys -- list
+//   npm run api-keys -- revoke <id>
+//   npm run api-keys -- usage <id>
+//
+// Only a hash of each key is stored, so a key is shown once, when it's created.
+// Changes hold the same lock file as the server (src/utils/file-lock.ts), so a
+// key created or revoked here is never overwritten by a running server.
+
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const file = process.env.API_KEYS_FILE || '.data/api-keys.json';
+const usageFile = process.env.API_KEYS_USAGE_FILE || '.data/api-key-usage.json';
+
+// Tiers a key can be given: the built-in ones in src/lib/config.ts plus API_TIERS
+const BUILT_IN_TIERS = ['standard', 'internal', 'admin'];
+
+function tierNames() {
+  try {
+    return [...new Set([...BUILT_IN_TIERS, ...Object.keys(JSON.parse(process.env.API_TIERS || '{}'))])]
+      .filter(tier => tier !== 'anonymous');
+  } catch {
+    fail('API_TIERS is not valid JSON');
+  }
+}
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+async function readJson(target) {
+  try {
+    return JSON.parse(await fs.readFile(target, 'utf-8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return {};
+    throw error;
+  }
+}
+
+async function readKeys() {
+  return (await readJson(file)).keys || [];
+}
+
+async function readUsage() {
+  const { usage = {}, lastUsedAt = {} } = await readJson(usageFile);
+  return { usage, lastUsedAt };
+}
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+// Same lock file and timings as withFileLock in src/utils/file-lock.ts
+async function withFileLock(run) {
+  const lock = `${file}.lock`;
+  const deadline = Date.now() + 5000;
+  await fs.mkdir(path.dirname(file), { recursive: true });
+
+  while (true) {
+    try {
+      await (await fs.open(lock, 'wx')).close();
+      break;
+    } catch (error) {
+      if (error.code !== 'EEXIST') throw error;
+
+      const stat = await fs.stat(lock).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > 10000) {
+        await fs.rm(lock, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) fail(`Timed out waiting for ${lock}`);
+      await sleep(10 + Math.random() * 40);
+    }
+  }
+
+  try {
+    return await run();
+  } finally {
+    await fs.rm(lock, { force: true });
+  }
+}
+
+// Read, change and write the key records under the lock, with the same
+// layout and write-then-rename as src/utils/api-keys/file-store.ts
+function updateKeys(change) {
+  return withFileLock(async () => {
+    const data = { keys: await readKeys() };
+    const value = change(data.keys);
+
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(data, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    await fs.rename(temp, file);
+    return value;
+  });
+}
+
+// Throws rather than exiting, so a lock held by the caller is released
+function findKey(keys, id) {
+  if (!id) throw new Error('Missing key id');
+  const key = keys.find(candidate => candidate.id === id);
+  if (!key) throw new Error(`No API key with id ${id}`);
+  return key;
+}
+
+async function create(args) {
+  const tierIndex = args.indexOf('--tier');
+  const tier = tierIndex >= 0 ? args[tierIndex + 1] : undefined;
+  const name = args.filter((_, index) => index !== tierIndex && index !== tierIndex + 1).join(' ').trim();
+
+  if (!name) fail('Usage: create <name> --tier <tier>');
+  const tiers = tierNames();
+  if (!tier || !tiers.includes(tier)) fail(`--tier must be one of: ${tiers.join(', ')}`);
+
+  const key = `eva_${randomBytes(32).toString('base64url')}`;
+  const record = {
+    id: `key_${randomBytes(6).toString('hex')}`,
+    name,
+    tier,
+    hash: createHash('sha256').update(key).digest('hex'),
+    prefix: key.slice(0, 12),
+    createdAt: new Date().toISOString(),
+  };
+
+  await updateKeys(keys => keys.push(record));
+
+  console.log(`Created ${record.id} (${name}, tier ${tier}). Store this key now; it can't be shown again:\n`);
+  console.log(key);
+}
+
+async function list() {
+  const [keys, { lastUsedAt }] = await Promise.all([readKeys(), readUsage()]);
+  if (keys.length === 0) {
+    console.log(`No API keys in ${file}`);
+    return;
+  }
+
+  console.table(keys.map(key => ({
+    id: key.id,
+    name: key.name,
+    tier: key.tier,
+    prefix: `${key.prefix}…`,
+    created: key.createdAt,
+    lastUsed: lastUsedAt[key.id] || key.lastUsedAt || '',
+    revoked: key.revokedAt || '',
+  })));
+}
+
+async function revoke(id) {
+  const { key, alreadyRevoked } = await updateKeys(keys => {
+    const key = findKey(keys, id);
+    const alreadyRevoked = Boolean(key.revokedAt);
+    key.revokedAt ??= new Date().toISOString();
+    return { key, alreadyRevoked };
+  });
+
+  console.log(alreadyRevoked ? `${id} was already revoked at ${key.revokedAt}` : `Revoked ${id} (${key.name})`);
+}
+
+async function usage(id) {
+  const [keys, { usage: allUsage }] = await Promise.all([readKeys(), readUsage()]);
+  const key = findKey(keys, id);
+  const days = allUsage[id] || {};
+
+  console.log(`${key.id} (${key.name}, tier ${key.tier})`);
+  if (Object.keys(days).length === 0) {
+    console.log('No recorded usage');
+    return;
+  }
+
+  console.table(Object.entries(days).sort(([a], [b]) => a.localeCompare(b)).flatMap(([day, routes]) =>
+    Object.entries(routes).map(([route, requests]) => ({ day, route, requests }))
+  ));
+}
+
+const [command, ...args] = process.argv.slice(2);
+
+const commands = {
+  create: () => create(args),
+  list: () => list(),
+  revoke: () => revoke(args[0]),
+  usage: () => usage(args[0]),
+};
+
+if (!commands[command]) {
+  fail('Usage: npm run api-keys -- <create <name> --tier <tier> | list | revoke <id> | usage <id>>');
+}
+
+commands[command]().catch(error => fail(error instanceof Error ? error.message : String(error)));
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PerformanceMonitor } from '@/utils/performance-monitor';
+import { withApiAccess } from '@/lib/api-access';
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
     const body = await request.json();
     const { error, context, timestamp = new Date().toISOString() } = body;
@@ -35,3 +36,5 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const POST = withApiAccess('/api/analytics/errors', handlePost);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { PerformanceMetric } from '@/types/analytics';
+import { withApiAccess } from '@/lib/api-access';
 
 // In-memory store for metrics (would be a database in production)
 const metrics: PerformanceMetric[] = [];
@@ -15,7 +16,7 @@ const metricSchema = z.object({
   metadata: z.record(z.unknown()).optional(),
 });
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
     const body = await request.json();
     const metric = metricSchema.parse(body);
@@ -35,7 +36,7 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET() {
+async function handleGet() {
   // Calculate average durations by operation
   const operations = new Map<string, { total: number; count: number; avgDuration: number }>();
   
@@ -94,3 +95,6 @@ export async function GET() {
     lastUpdated: new Date().toISOString(),
   });
 }
+
+export const POST = withApiAccess('/api/analytics/metrics', handlePost);
+export const GET = withApiAccess('/api/analytics/metrics', handleGet);
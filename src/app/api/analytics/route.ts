@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
+import { withApiAccess } from '@/lib/api-access';
 
 // In a production environment, we would store this in a database
 const analytics = {
@@ -12,7 +13,7 @@ const analytics = {
   responseTimes: [] as number[],
 };
 
-export async function GET() {
+async function handleGet() {
   return NextResponse.json({
     searches: analytics.searches,
     avgResponseTime: analytics.avgResponseTime,
@@ -30,7 +31,7 @@ const metricSchema = z.object({
   metadata: z.record(z.any()).optional(),
 });
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
     const body = await request.json();
     const metric = metricSchema.parse(body);
@@ -73,3 +74,6 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Invalid metrics data' }, { status: 400 });
   }
 }
+
+export const GET = withApiAccess('/api/analytics', handleGet);
+export const POST = withApiAccess('/api/analytics', handlePost);
@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import config from '@/lib/config';
+import { CitedSource } from '@/types/search';
+import { createFakeLLMProvider } from '@/utils/llm/fake';
+import { setModelChain } from '@/utils/llm/fallback';
+import { createMemoryQuotaStore, setQuotaStore } from '@/utils/quota';
+import { FixtureServer, sendJson, startFixtureServer } from '@/test/fixture-server';
+import { POST } from './route';
+
+const TOPICS = ['Downloading', 'Dependencies', 'Configuring', 'Compiling', 'Testing', 'Packaging', 'Upgrading', 'Troubleshooting'];
+
+const RESULTS = TOPICS.map((topic, i) => ({
+  url: `https://${topic.toLowerCase()}.example${i}.com/`,
+  title: `${topic} when you install from source`,
+  content: `${topic} is step ${i + 1} of installing the tool from source.`,
+  engine: 'duckduckgo',
+}));
+
+const chat = (message: string) =>
+  POST(new NextRequest('http://localhost/api/chat', { method: 'POST', body: JSON.stringify({ message }) }));
+
+describe('POST /api/chat', () => {
+  let server: FixtureServer;
+  let prompt = '';
+
+  beforeAll(async () => {
+    server = await startFixtureServer((request, response) => sendJson(response, { results: RESULTS }));
+    config.searxngUrl = `${server.url}/`;
+    config.searchProviders = ['searxng'];
+  });
+
+  afterAll(() => server.close());
+
+  beforeEach(() => {
+    setQuotaStore(createMemoryQuotaStore());
+    setModelChain([{
+      provider: createFakeLLMProvider({
+        response: sent => {
+          prompt = sent;
+          return 'Start with the first step [1]. Then build it [4]. Finally check the last step [8].';
+        },
+      }),
+      timeout: 1000,
+    }]);
+  });
+
+  afterEach(() => setModelChain(null));
+
+  it('returns every source the answer can cite, numbered as in the prompt', async () => {
+    const response = await chat('how to install the tool from source');
+    const { sources } = await response.json() as { sources: CitedSource[] };
+
+    expect(response.status).toBe(200);
+    expect(prompt).toMatch(/^\[8\] \w+ when you install from source$/m);
+    expect(sources.map(source => source.citationNumber)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(sources[7]).toMatchObject({ citationNumber: 8, inPrompt: true, cited: true });
+    expect(sources.filter(source => source.cited).map(source => source.citationNumber)).toEqual([1, 4, 8]);
+  });
+});
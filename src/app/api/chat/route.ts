@@ -1,33 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { searchBrave, searchSerpAPI } from '@/utils/search-apis';
-import { mergeSearchResults } from '@/utils/result-merger';
+import { executeSearch } from '@/utils/search-apis';
+import { ProviderRegistry } from '@/utils/providers';
+import { mergeSearchResults, assessResultQuality } from '@/utils/result-merger';
 import { PromptEngine } from '@/utils/prompt-engine';
-import { runtimeEnvSchema } from '@/lib/validations';
-import config from '@/lib/config';
 import { PerformanceMonitor } from '@/utils/performance-monitor';
 import { SearchResult } from '@/types/search';
+import { getModelChain, generateWithFallback } from '@/utils/llm/fallback';
+import { verifyCitations } from '@/utils/citation-verifier';
+import { selectPassages } from '@/utils/passage-selector';
+import { createSourceSet } from '@/utils/source-set';
+import { assessAnswerConfidence } from '@/utils/answer-confidence';
+import { wordLimitTokens } from '@/utils/search-pipeline';
 import { z } from 'zod';
+import { withApiAccess } from '@/lib/api-access';
+import { ApiAccess } from '@/types/api-keys';
 
 // Validate runtime environment (only when API is called)
 function validateRuntimeEnv() {
-  try {
-    return runtimeEnvSchema.parse({
-      GEMINI_API_KEY: process.env.GEMINI_API_KEY,
-      BRAVE_RAPIDAPI_KEY: process.env.BRAVE_RAPIDAPI_KEY,
-      BRAVE_RAPIDAPI_HOST: process.env.BRAVE_RAPIDAPI_HOST,
-      SERPAPI_KEY: process.env.SERPAPI_KEY,
-    });
-  } catch (error) {
-    console.error('Runtime environment validation failed:', error);
+  // At least one model in the fallback chain must be usable
+  if (!getModelChain().some(link => link.provider.isConfigured())) {
+    console.error('Runtime environment validation failed: no LLM in the fallback chain is configured');
     throw new Error('Missing required API keys. Please check your environment configuration.');
   }
 }
 
-// Initialize the Google AI client
-const genAI = new GoogleGenerativeAI(config.geminiApiKey);
-const geminiModelName = 'gemini-2.5-pro'; // Updated model name
-
 // Validate chat request
 const chatRequestSchema = z.object({
   message: z.string().min(1, 'Message cannot be empty'),
@@ -40,7 +36,7 @@ const chatRequestSchema = z.object({
   ).optional(),
 });
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest, access: ApiAccess) {
   const perfTimer = PerformanceMonitor.startTimer('chat_api_total');
   
   try {
@@ -60,6 +56,7 @@ export async function POST(request: NextRequest) {
     }
     
     const { message, history = [] } = chatRequestSchema.parse(body);
+    const maxWords = access.tier.maxAnswerWords;
     
     // Extract previous queries for context
     const previousQueries = history
@@ -72,39 +69,27 @@ export async function POST(request: NextRequest) {
     // For certain intents, we might want to search for additional context
     let searchResults: SearchResult[] = [];
     
-    if (detectedIntent !== 'general') {
-      // Execute searches in parallel
-      const searchPromises = [
-        searchBrave(message),
-        searchSerpAPI(message),
-      ];
-      
-      const responses = await Promise.allSettled(searchPromises);
-      const apiResponses = responses.map(result => 
-        result.status === 'fulfilled' ? result.value : {
-          results: [],
-          totalResults: 0,
-          processingTime: 0,
-          source: 'unknown',
-          success: false,
-          error: result.reason?.message || 'Search failed',
-        }
-      );
+    if (detectedIntent !== 'general' && ProviderRegistry.getEnabled().length > 0) {
+      // Execute searches in parallel across the enabled providers
+      const apiResponses = await executeSearch(message, { intent: detectedIntent });
       searchResults = mergeSearchResults(apiResponses);
     }
     
+    // Number the sources once, so the prompt, the citation check and the
+    // returned sources agree on what [n] means
+    const sourceSet = createSourceSet(searchResults, selectPassages(searchResults, message));
+    
     // Generate prompt based on the conversation context
     const prompt = PromptEngine.generateSearchPrompt({
       query: message,
-      results: searchResults,
+      results: sourceSet.promptResults,
       intent: detectedIntent,
       previousQueries,
+      maxWords,
     });
     
     // Generate response from AI
-    const model = genAI.getGenerativeModel({ model: geminiModelName });
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
+    const { text: answer } = await generateWithFallback(prompt, maxWords ? { maxOutputTokens: wordLimitTokens(maxWords) } : {});
     
     // Generate follow-up questions
     const followUpQuestions = [
@@ -113,10 +98,14 @@ export async function POST(request: NextRequest) {
       `Are there any alternatives to consider?`
     ];
     
-    // Calculate confidence score
-    const confidence = searchResults.length > 0
-      ? searchResults.reduce((sum, r) => sum + r.relevanceScore, 0) / searchResults.length
-      : 70; // Default confidence for general queries
+    // Score the answer by its results and how well its citations hold up
+    const citations = verifyCitations(answer, sourceSet.promptResults);
+    const confidenceBreakdown = assessAnswerConfidence({
+      resultQuality: assessResultQuality(searchResults).confidence,
+      answer,
+      citations,
+      usedFallback: false,
+    });
     
     const totalTime = perfTimer(true, {
       intent: detectedIntent,
@@ -124,10 +113,11 @@ export async function POST(request: NextRequest) {
     });
     
     return NextResponse.json({
-      answer: response.text(),
-      sources: searchResults.slice(0, 3),
+      answer,
+      sources: sourceSet.withCitations(citations),
       followUpQuestions,
-      confidence: Math.min(100, Math.max(0, confidence)),
+      confidence: confidenceBreakdown.score,
+      confidenceBreakdown,
       processingTime: totalTime,
       queryIntent: detectedIntent,
     });
@@ -142,3 +132,5 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const POST = withApiAccess('/api/chat', handlePost);
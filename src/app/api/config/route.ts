@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import config from '@/lib/config';
+import { withApiAccess } from '@/lib/api-access';
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     // Check if API keys are loaded
     const apiStatus = {
@@ -25,3 +26,5 @@ export async function GET(request: NextRequest) {
     }, { status: 500 });
   }
 }
+
+export const GET = withApiAccess('/api/config', handleGet);
@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import config from '@/lib/config';
+import { GET } from './route';
+
+// Next.js passes the catch-all segments already decoded
+const get = (...segments: string[]) =>
+  GET(new NextRequest(`http://localhost/api/corpus/${segments.map(encodeURIComponent).join('/')}`), {
+    params: Promise.resolve({ path: segments }),
+  });
+
+describe('GET /api/corpus/[...path]', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'corpus-route-'));
+    await fs.mkdir(path.join(root, 'notes'));
+    await fs.writeFile(path.join(root, 'notes', 'solar.md'), '# Solar power');
+    await fs.writeFile(path.join(root, '100%.md'), 'Fully charged');
+    await fs.writeFile(path.join(root, 'a%20b.md'), 'Literal percent');
+    await fs.writeFile(path.join(root, 'page.html'), '<script>alert(1)</script>');
+    await fs.writeFile(path.join(root, 'photo.png'), 'not text');
+    config.corpusDir = root;
+  });
+
+  afterAll(() => fs.rm(root, { recursive: true, force: true }));
+
+  it('serves a document as plain text', async () => {
+    const response = await get('notes', 'solar.md');
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('# Solar power');
+    expect(response.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+    expect(response.headers.get('X-Content-Type-Options')).toBe('nosniff');
+  });
+
+  it('serves file names containing percent signs as they are', async () => {
+    expect(await (await get('100%.md')).text()).toBe('Fully charged');
+    expect(await (await get('a%20b.md')).text()).toBe('Literal percent');
+  });
+
+  it('serves HTML as text rather than markup', async () => {
+    const response = await get('page.html');
+    expect(response.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+  });
+
+  it('refuses missing files, unsupported types and paths outside the corpus', async () => {
+    expect((await get('notes', 'missing.md')).status).toBe(404);
+    expect((await get('photo.png')).status).toBe(404);
+    expect((await get('..', 'etc', 'passwd.txt')).status).toBe(404);
+  });
+
+  it('reports a missing corpus', async () => {
+    config.corpusDir = '';
+    const response = await get('notes', 'solar.md');
+    config.corpusDir = root;
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ error: 'Local document corpus is not configured' });
+  });
+});
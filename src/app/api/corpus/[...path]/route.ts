@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { promises as fs } from 'fs';
+import config from '@/lib/config';
+import { resolveCorpusPath } from '@/utils/corpus-index';
+import { withApiAccess } from '@/lib/api-access';
+import { ApiAccess } from '@/types/api-keys';
+
+// Serves documents from the local corpus so their citations can be opened
+async function handleGet(
+  request: NextRequest,
+  access: ApiAccess,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  if (!config.corpusDir) {
+    return NextResponse.json({ error: 'Local document corpus is not configured' }, { status: 404 });
+  }
+  
+  // Next.js has already decoded the segments
+  const { path: segments } = await params;
+  const filePath = resolveCorpusPath(config.corpusDir, segments.join('/'));
+  
+  if (!filePath) {
+    return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+  }
+  
+  try {
+    const content = await fs.readFile(filePath, 'utf8');
+    
+    // Always served as plain text so stored HTML can't run in our origin
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch {
+    return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+  }
+}
+
+export const GET = withApiAccess('/api/corpus', handleGet);
@@ -1,8 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { NextResponse } from 'next/server';
 import config from '@/lib/config';
+import { createLLMProvider } from '@/utils/llm';
+import { withApiAccess } from '@/lib/api-access';
 
-export async function GET(request: NextRequest) {
+async function handleGet() {
   try {
     // Check if Gemini API key is configured
     if (!config.geminiApiKey) {
@@ -17,42 +18,26 @@ export async function GET(request: NextRequest) {
       }, { status: 500 });
     }
     
-    // Initialize Google AI client
-    const genAI = new GoogleGenerativeAI(config.geminiApiKey);
-    const geminiModelName = 'gemini-2.5-pro';
-    
-    // Get the model
-    const model = genAI.getGenerativeModel({ 
-      model: geminiModelName,
-      generationConfig: {
-        maxOutputTokens: 100,
-        temperature: 0.2,
-      }
-    });
+    // Gemini is tested even when another LLM provider answers searches
+    const gemini = createLLMProvider('gemini');
     
     // Create a simple test prompt
     const testPrompt = 'Respond with a short message saying "Hello from Gemini API!"';
     
-    // Set timeout for the API call
-    const geminiPromise = model.generateContent(testPrompt);
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('Gemini API test timed out after 10 seconds')), 10000);
+    // Abort the API call if it takes too long
+    const text = await gemini.generate(testPrompt, {
+      maxOutputTokens: 100,
+      temperature: 0.2,
+      signal: AbortSignal.timeout(10000),
     });
     
-    // Race between the API call and the timeout
-    const result = await Promise.race([geminiPromise, timeoutPromise]) as any;
-    const response = await result.response;
-    const text = response.text();
-    
     return NextResponse.json({
       success: true,
       message: 'Gemini API connection successful',
       response: text,
       apiInfo: {
-        model: geminiModelName,
-        keyConfigured: Boolean(config.geminiApiKey),
-        keyLength: config.geminiApiKey.length,
-        keyPrefix: config.geminiApiKey.substring(0, 4)
+        model: gemini.model,
+        keyConfigured: Boolean(config.geminiApiKey)
       }
     });
     
@@ -73,7 +58,6 @@ export async function GET(request: NextRequest) {
         name: errorName,
         stack: errorStack,
         keyConfigured: Boolean(config.geminiApiKey),
-        keyLength: config.geminiApiKey ? config.geminiApiKey.length : 0,
       },
       suggestions: [
         'Check if your Gemini API key is valid',
@@ -84,3 +68,5 @@ export async function GET(request: NextRequest) {
     }, { status: 500 });
   }
 }
+
+export const GET = withApiAccess('/api/gemini-test', handleGet);
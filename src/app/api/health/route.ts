@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server';
+import { withApiAccess } from '@/lib/api-access';
 
-export async function GET() {
+async function handleGet() {
   return NextResponse.json({ status: 'ok', timestamp: new Date().toISOString() });
 }
+
+export const GET = withApiAccess('/api/health', handleGet);
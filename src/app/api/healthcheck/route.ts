@@ -1,34 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 import config from '@/lib/config';
+import { withApiAccess } from '@/lib/api-access';
 
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
-    // Deep check for API keys
+    // Whether each provider is configured, without revealing any of its settings
     const apiStatus = {
       gemini: {
         configured: Boolean(config.geminiApiKey),
         status: config.geminiApiKey ? 'Available' : 'Missing',
-        length: config.geminiApiKey?.length || 0,
-        preview: config.geminiApiKey ? `${config.geminiApiKey.substring(0, 3)}...${config.geminiApiKey.substring(config.geminiApiKey.length - 3)}` : null,
       },
       brave: {
         rapidApiKey: {
           configured: Boolean(config.braveRapidApiKey),
           status: config.braveRapidApiKey ? 'Available' : 'Missing',
-          length: config.braveRapidApiKey?.length || 0,
-          preview: config.braveRapidApiKey ? `${config.braveRapidApiKey.substring(0, 3)}...${config.braveRapidApiKey.substring(config.braveRapidApiKey.length - 3)}` : null,
         },
         rapidApiHost: {
           configured: Boolean(config.braveRapidApiHost),
           status: config.braveRapidApiHost ? 'Available' : 'Missing',
-          value: config.braveRapidApiHost,
         }
       },
       serpapi: {
         configured: Boolean(config.serpApiKey),
         status: config.serpApiKey ? 'Available' : 'Missing',
-        length: config.serpApiKey?.length || 0,
-        preview: config.serpApiKey ? `${config.serpApiKey.substring(0, 3)}...${config.serpApiKey.substring(config.serpApiKey.length - 3)}` : null,
       },
       appUrl: config.appUrl,
       environment: process.env.NODE_ENV,
@@ -57,3 +51,5 @@ export async function GET(request: NextRequest) {
     }, { status: 500 });
   }
 }
+
+export const GET = withApiAccess('/api/healthcheck', handleGet);
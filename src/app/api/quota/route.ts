@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getQuotas, getDailyQuotaUsage } from '@/utils/quota';
+import { withApiAccess } from '@/lib/api-access';
+
+// Current quota of each provider with a budget, and its daily usage this month
+async function handleGet() {
+  try {
+    const [quotas, daily] = await Promise.all([getQuotas(), getDailyQuotaUsage()]);
+    return NextResponse.json({ quotas, daily, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('Quota API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read provider quotas', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiAccess('/api/quota', handleGet);
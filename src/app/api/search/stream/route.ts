@@ -0,0 +1,255 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PromptEngine } from '@/utils/prompt-engine';
+import { CitationReport, CitedSource, SearchStreamEvents, StructuredAnswer } from '@/types/search';
+import { searchQuerySchema, SearchQueryInput } from '@/lib/validations';
+import { PerformanceMonitor } from '@/utils/performance-monitor';
+import {
+  validateRuntimeEnv, gatherSearchContext, buildAnswerPrompt, answerGenerationOptions,
+  readCachedAnswer, writeCachedAnswer, describeCacheUse,
+} from '@/utils/search-pipeline';
+import { streamWithFallback, ModelChainError } from '@/utils/llm/fallback';
+import { createStreamingAnswerRenderer, finishStructuredAnswer, renderAnswerMarkdown } from '@/utils/structured-answer';
+import { verifyCitations } from '@/utils/citation-verifier';
+import { assessAnswerConfidence } from '@/utils/answer-confidence';
+import { ModelAttempt } from '@/types/llm';
+import { encodeServerSentEvent } from '@/utils/sse';
+import { createProgressTracker } from '@/utils/pipeline-progress';
+import { withApiAccess } from '@/lib/api-access';
+import { ApiAccess } from '@/types/api-keys';
+
+// Streaming variant of /api/search. Emits the query `plan` before searching,
+// `sources` once results are merged and again once the prompt's sources are chosen,
+// `token` chunks rendered from the answer JSON as it is generated, the
+// validated `answer`, then `followups` and `done`.
+// `progress` events report each pipeline stage as it starts and finishes.
+// A cached answer, to the same or a similar query, is replayed as `plan`,
+// `sources`, `answer` (with `reusedFrom`), `followups` and `done`.
+async function handlePost(request: NextRequest, access: ApiAccess) {
+  const requestStart = Date.now();
+  const perfTimer = PerformanceMonitor.startTimer('search_stream_api_total');
+
+  // Request and configuration errors are reported before the stream starts
+  let validatedQuery: SearchQueryInput;
+  try {
+    validateRuntimeEnv();
+
+    const body = await request.json();
+    if (!body.query || body.query.trim() === '') {
+      return NextResponse.json(
+        { error: 'Search query cannot be empty' },
+        { status: 400 }
+      );
+    }
+
+    validatedQuery = searchQuerySchema.parse(body);
+  } catch (error) {
+    console.error('Search stream API error:', error);
+    perfTimer(false, { error: error instanceof Error ? error.message : 'Unknown error' });
+
+    const details = error instanceof Error ? error.message : 'Unknown error';
+    const isConfigError = details.includes('API key') || details.includes('required API keys');
+    return NextResponse.json(
+      {
+        error: isConfigError ? 'API configuration error' : 'Invalid search request',
+        details: isConfigError ? 'Missing or invalid API keys. Please check the environment configuration.' : details,
+        timestamp: new Date().toISOString(),
+      },
+      { status: isConfigError ? 500 : 400 }
+    );
+  }
+
+  const query = validatedQuery.query;
+  const answerScope = { filters: validatedQuery.filters, maxWords: access.tier.maxAnswerWords };
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = <K extends keyof SearchStreamEvents>(event: K, data: SearchStreamEvents[K]) => {
+        if (!request.signal.aborted) {
+          controller.enqueue(encoder.encode(encodeServerSentEvent(event, data)));
+        }
+      };
+      const progress = createProgressTracker(event => send('progress', event), requestStart);
+
+      const intentStage = progress.startStage('intent');
+      const detectedIntent = validatedQuery.intent || PromptEngine.detectQueryIntent(query);
+      intentStage(true);
+
+      try {
+        const cachedAnswer = await readCachedAnswer(query, detectedIntent, answerScope, validatedQuery.fresh);
+        if (cachedAnswer.value) {
+          const { plan, answer, structuredAnswer, citations, sources, followUpQuestions, confidenceBreakdown } = cachedAnswer.value;
+          send('plan', plan);
+          send('sources', { sources, queryIntent: detectedIntent });
+          send('answer', { answer, structuredAnswer, citations, sources, reusedFrom: cachedAnswer.reusedFrom });
+          send('followups', { followUpQuestions });
+          send('done', {
+            processingTime: perfTimer(true, { cache: 'hit' }),
+            confidence: confidenceBreakdown.score,
+            confidenceBreakdown,
+            queryIntent: detectedIntent,
+            debug: {
+              timestamp: new Date().toISOString(),
+              queryPlan: plan,
+              filters: validatedQuery.filters,
+              cache: describeCacheUse(cachedAnswer.outcome, []),
+            },
+          });
+          return;
+        }
+
+        const { plan, apiResponses, mergedResults, quality, contentFetches, sourceSet, conflicts } = await gatherSearchContext(query, {
+          intent: detectedIntent,
+          filters: validatedQuery.filters,
+          progress,
+          onPlan: plan => send('plan', plan),
+          onSources: sources => send('sources', { sources, queryIntent: detectedIntent }),
+        });
+        const results = sourceSet.promptResults;
+
+        const aiTimer = PerformanceMonitor.startTimer('search_stream_api_ai_processing');
+        const generationStage = progress.startStage('generation');
+
+        let answerLength = 0;
+        let structuredAnswer: StructuredAnswer | undefined;
+        let answer = '';
+        let citations: CitationReport | undefined;
+        let sources: CitedSource[] = sourceSet.sources;
+        let generation: { provider?: string; model?: string; attempts: ModelAttempt[]; repairs?: number } = { attempts: [] };
+        try {
+          const prompt = buildAnswerPrompt(query, sourceSet.promptSources, { plan, conflicts, maxWords: answerScope.maxWords });
+          const options = { ...answerGenerationOptions(answerScope.maxWords), signal: request.signal };
+
+          // Falls back to the next model in the chain until the first token arrives
+          const result = await streamWithFallback(prompt, options);
+          generation = result;
+
+          const renderer = createStreamingAnswerRenderer();
+          for await (const chunk of result.stream) {
+            const text = renderer.push(chunk);
+            if (text) {
+              answerLength += text.length;
+              send('token', { text });
+            }
+          }
+
+          // Validate (and if needed repair) the complete JSON, then replace the preview
+          const finished = await finishStructuredAnswer(prompt, { ...result, text: renderer.output }, results.length, options);
+          generation = finished;
+          structuredAnswer = finished.answer;
+          answer = renderAnswerMarkdown(finished.answer, results);
+          citations = verifyCitations(answer, results);
+          sources = sourceSet.withCitations(citations, finished.answer.disagreements);
+          send('answer', { answer, structuredAnswer: finished.answer, citations, sources });
+
+          aiTimer(true, { answerLength, model: finished.model, repairs: finished.repairs });
+          generationStage(true, { label: finished.model });
+        } catch (aiError) {
+          if (request.signal.aborted) throw aiError;
+          console.error(`${generation.model || 'Answer'} streaming failed:`, aiError);
+          if (aiError instanceof ModelChainError) {
+            generation = { attempts: aiError.attempts };
+          }
+          const message = aiError instanceof Error ? aiError.message : 'Unknown error';
+          aiTimer(false, { error: message });
+          generationStage(false, { label: generation.model, error: message });
+
+          // Tokens already sent stay on screen; only add a note when nothing arrived
+          if (answerLength === 0) {
+            send('token', {
+              text: `Based on your query about "${query}", I found some relevant information in the search results, but couldn't generate a complete AI response. Please check the sources provided below for information about ${query}.`
+            });
+          }
+        }
+
+        const postprocessStage = progress.startStage('postprocess');
+        const followUpQuestions = structuredAnswer?.followUpQuestions.length
+          ? structuredAnswer.followUpQuestions
+          : PromptEngine.generateFollowUpQuestions(query, results, detectedIntent);
+        send('followups', { followUpQuestions });
+        postprocessStage(true);
+
+        const totalTime = perfTimer(true, {
+          resultsCount: mergedResults.length,
+          sourcesUsed: apiResponses.filter(r => r.success).length,
+          quality: quality.quality,
+        });
+
+        const confidenceBreakdown = assessAnswerConfidence({
+          resultQuality: quality.confidence,
+          answer,
+          citations,
+          usedFallback: !structuredAnswer,
+          repairs: generation.repairs,
+          disagreements: structuredAnswer?.disagreements.length,
+        });
+
+        // Fallback text isn't cached so the next request tries the model again
+        const answerCache = structuredAnswer && citations
+          ? await writeCachedAnswer(query, detectedIntent, answerScope, {
+            answer,
+            structuredAnswer,
+            disagreements: structuredAnswer.disagreements,
+            subQueries: plan.subQueries.length > 1 ? plan.subQueries : undefined,
+            citations,
+            sources,
+            followUpQuestions,
+            confidence: confidenceBreakdown.score,
+            confidenceBreakdown,
+            queryIntent: detectedIntent,
+            plan,
+          })
+          : cachedAnswer.outcome.status === 'miss' ? { ...cachedAnswer.outcome, status: 'bypass' as const } : cachedAnswer.outcome;
+
+        send('done', {
+          processingTime: totalTime,
+          confidence: confidenceBreakdown.score,
+          confidenceBreakdown,
+          queryIntent: detectedIntent,
+          debug: {
+            timestamp: new Date().toISOString(),
+            answeredBy: generation.model,
+            queryPlan: plan,
+            llmProvider: generation.provider,
+            modelAttempts: generation.attempts,
+            answerRepairs: generation.repairs,
+            filters: validatedQuery.filters,
+            sourcesUsed: apiResponses.filter(r => r.success).map(r => r.source),
+            contentFetches,
+            contextTokens: sourceSet.contextTokens,
+            conflictCandidates: conflicts?.length,
+            cache: describeCacheUse(answerCache, apiResponses),
+          },
+        });
+      } catch (error) {
+        if (request.signal.aborted) {
+          perfTimer(false, { error: 'Client disconnected' });
+        } else {
+          console.error('Search stream error:', error);
+          perfTimer(false, { error: error instanceof Error ? error.message : 'Unknown error' });
+          send('error', {
+            error: 'Search failed',
+            details: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed because the client went away
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
+
+export const POST = withApiAccess('/api/search/stream', handlePost);
@@ -7,6 +7,7 @@ import {
   XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
   PieChart, Pie, Cell, Legend
 } from 'recharts';
+import { DailyQuotaUsage, ProviderQuota, QuotaState } from '@/types/quota';
 
 interface AnalyticsData {
   searches: number;
@@ -33,6 +34,18 @@ interface AnalyticsData {
   }[];
 }
 
+interface QuotaData {
+  quotas: ProviderQuota[];
+  daily: DailyQuotaUsage[];
+}
+
+const QUOTA_STATE_STYLES: Record<QuotaState, string> = {
+  ok: 'bg-green-100 text-green-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-orange-100 text-orange-800',
+  exhausted: 'bg-red-100 text-red-800',
+};
+
 // Sample data for charts if API doesn't provide it
 const generateSampleTimeSeriesData = () => {
   const data = [];
@@ -69,6 +82,7 @@ export default function AnalyticsDashboard() {
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('overview');
+  const [quota, setQuota] = useState<QuotaData | null>(null);
   
   useEffect(() => {
     async function fetchAnalytics() {
@@ -96,10 +110,25 @@ export default function AnalyticsDashboard() {
       }
     }
     
+    // Provider quotas load separately so a failure doesn't hide the other charts
+    async function fetchQuota() {
+      try {
+        const response = await fetch('/api/quota');
+        if (!response.ok) throw new Error('Failed to fetch quota');
+        setQuota(await response.json());
+      } catch (error) {
+        console.error('Error fetching quota:', error);
+      }
+    }
+    
     fetchAnalytics();
+    fetchQuota();
     
     // Refresh analytics every 30 seconds
-    const interval = setInterval(fetchAnalytics, 30000);
+    const interval = setInterval(() => {
+      fetchAnalytics();
+      fetchQuota();
+    }, 30000);
     return () => clearInterval(interval);
   }, []);
   
@@ -159,7 +188,7 @@ export default function AnalyticsDashboard() {
       {/* Tabs */}
       <div className="border-b border-gray-200">
         <nav className="-mb-px flex space-x-8" aria-label="Tabs">
-          {['overview', 'sources', 'performance', 'queries'].map((tab) => (
+          {['overview', 'sources', 'performance', 'queries', 'quota'].map((tab) => (
             <button
               key={tab}
               onClick={() => setActiveTab(tab)}
@@ -368,6 +397,10 @@ export default function AnalyticsDashboard() {
               </div>
             </div>
           )}
+          
+          {activeTab === 'quota' && (
+            <QuotaTab quota={quota} />
+          )}
         </motion.div>
       </AnimatePresence>
       
@@ -378,6 +411,89 @@ export default function AnalyticsDashboard() {
   );
 }
 
+// Usage of each provider's request budget, and its daily requests this month
+function QuotaTab({ quota }: { quota: QuotaData | null }) {
+  if (!quota) {
+    return <p className="text-gray-500">Quota data is unavailable</p>;
+  }
+  
+  if (quota.quotas.length === 0) {
+    return <p className="text-gray-500">No providers have a request budget configured</p>;
+  }
+  
+  const dailyData = quota.daily.map(day => ({
+    date: new Date(`${day.date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' }),
+    ...day.usage,
+  }));
+  
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-4 rounded-lg shadow">
+        <h3 className="text-lg font-semibold mb-4">Provider Quotas</h3>
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart
+              data={quota.quotas}
+              layout="vertical"
+              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis type="number" />
+              <YAxis type="category" dataKey="provider" />
+              <Tooltip />
+              <Legend />
+              <Bar dataKey="used" name="Used" stackId="quota" fill="#FF8042" />
+              <Bar dataKey="remaining" name="Remaining" stackId="quota" fill="#00C49F" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="mt-4 space-y-2">
+          {quota.quotas.map(providerQuota => (
+            <div key={providerQuota.provider} className="flex items-center text-sm">
+              <span className="w-24 font-medium text-gray-900">{providerQuota.provider}</span>
+              <span className="w-48 text-gray-600">
+                {providerQuota.used} / {providerQuota.limit} per {providerQuota.period}
+              </span>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${QUOTA_STATE_STYLES[providerQuota.state]}`}>
+                {providerQuota.state}
+              </span>
+              <span className="ml-auto text-xs text-gray-500">
+                Resets {new Date(providerQuota.resetsAt).toLocaleString()}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+      
+      <div className="bg-white p-4 rounded-lg shadow">
+        <h3 className="text-lg font-semibold mb-4">Daily Requests This Month</h3>
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+              data={dailyData}
+              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              {quota.quotas.map((providerQuota, index) => (
+                <Line
+                  key={providerQuota.provider}
+                  type="monotone"
+                  dataKey={providerQuota.provider}
+                  stroke={COLORS[index % COLORS.length]}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function MetricCard({ title, value, icon, color }: { title: string; value: string; icon: string; color: string }) {
   const getGradient = () => {
     switch (color) {
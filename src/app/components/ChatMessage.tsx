@@ -3,12 +3,14 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { ChatMessage as ChatMessageType } from '@/types/chat';
-import { SearchResult } from '@/types/search';
+import { CitationReport, CitedSource, ConfidenceBreakdown, ReusedAnswer, SourceDisagreement } from '@/types/search';
 import SourceCard from '@/app/components/SourceCard';
-import ReactMarkdown from 'react-markdown';
+import CitationMarker, { CITATION_STATUS_LABELS, CITATION_STATUS_STYLES } from '@/app/components/CitationMarker';
+import ReactMarkdown, { Components } from 'react-markdown';
 import rehypeSanitize from 'rehype-sanitize';
 import rehypeRaw from 'rehype-raw';
 import remarkGfm from 'remark-gfm';
+import { rehypeCitations } from '@/utils/rehype-citations';
 
 // Confidence bar component to avoid inline styles
 const ConfidenceBar = ({ confidence }: { confidence: number }) => {
@@ -44,13 +46,184 @@ const ConfidenceBar = ({ confidence }: { confidence: number }) => {
   );
 };
 
+// Summary of the server's citation check, listing claims whose citation doesn't hold up
+const CitationSummary = ({ report }: { report: CitationReport }) => {
+  const [expanded, setExpanded] = useState(false);
+  const flagged = report.checks.filter(check => check.status !== 'supported');
+
+  if (report.checks.length === 0) return null;
+
+  return (
+    <div className="mb-4 text-xs text-gray-600">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        disabled={flagged.length === 0}
+        className="flex items-center gap-1 hover:text-gray-800 disabled:cursor-default"
+      >
+        <span className={flagged.length === 0 ? 'text-green-600' : 'text-yellow-600'}>
+          {flagged.length === 0 ? '✓' : '⚠'}
+        </span>
+        <span>
+          {report.supportedCount} of {report.checks.length} citations supported by their sources
+          {flagged.length > 0 && ` · ${flagged.length} to double-check`}
+        </span>
+        {flagged.length > 0 && <span className="ml-1">{expanded ? '▼' : '►'}</span>}
+      </button>
+
+      {expanded && (
+        <ul className="mt-2 space-y-2">
+          {flagged.map((check, i) => (
+            <li key={i} className={`p-2 rounded-md border ${CITATION_STATUS_STYLES[check.status]}`}>
+              <span className="font-medium">[{check.citation}] {CITATION_STATUS_LABELS[check.status]}</span>
+              {check.inRange && <span className="ml-1 opacity-75">({Math.round(check.support * 100)}% match)</span>}
+              <p className="mt-1 text-gray-700">&ldquo;{check.sentence}&rdquo;</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// How long ago a cached answer was written, e.g. "5 minutes ago"
+const formatAge = (seconds: number) => {
+  if (seconds < 60) return 'just now';
+  const [value, unit] = seconds < 3600
+    ? [Math.round(seconds / 60), 'minute']
+    : seconds < 86400 ? [Math.round(seconds / 3600), 'hour'] : [Math.round(seconds / 86400), 'day'];
+  return `${value} ${unit}${value === 1 ? '' : 's'} ago`;
+};
+
+interface ReusedAnswerNoticeProps {
+  reusedFrom: ReusedAnswer;
+  onRefresh?: () => void;
+}
+
+// Shown when the answer came from the cache instead of a new search
+const ReusedAnswerNotice = ({ reusedFrom, onRefresh }: ReusedAnswerNoticeProps) => (
+  <div className="mb-4 flex flex-wrap items-center gap-2 p-2 rounded-md border border-blue-100 bg-blue-50 text-xs text-gray-600">
+    <span>
+      {reusedFrom.similarity < 1 ? (
+        <>Answer reused from a similar question: <span className="font-medium">&ldquo;{reusedFrom.query}&rdquo;</span></>
+      ) : (
+        'Answer reused from an earlier search'
+      )}
+      {' '}({formatAge(reusedFrom.age)})
+    </span>
+    {onRefresh && (
+      <button
+        onClick={onRefresh}
+        className="ml-auto px-2 py-0.5 rounded border border-blue-200 bg-white text-blue-700 hover:bg-blue-100"
+      >
+        Search again
+      </button>
+    )}
+  </div>
+);
+
+interface SourceDisagreementsProps {
+  disagreements: SourceDisagreement[];
+  sources: CitedSource[];
+  onSelectSource: (sourceId: string) => void;
+}
+
+// Facts the sources disagree on, each side with the sources that say it
+const SourceDisagreements = ({ disagreements, sources, onSelectSource }: SourceDisagreementsProps) => (
+  <div className="mb-4 p-4 rounded-lg border border-amber-200 bg-amber-50 text-sm text-gray-800">
+    <h4 className="font-semibold text-amber-800 mb-2">⚖ Sources disagree</h4>
+    <ul className="space-y-3">
+      {disagreements.map((disagreement, i) => (
+        <li key={i}>
+          <p className="font-medium">{disagreement.topic}</p>
+          <ul className="mt-1 ml-3 space-y-1 border-l-2 border-amber-200 pl-3">
+            {disagreement.statements.map((statement, j) => (
+              <li key={j}>
+                {statement.text}{' '}
+                {statement.citations.map(citation => {
+                  const source = sources.find(s => s.citationNumber === citation);
+                  return (
+                    <CitationMarker
+                      key={citation}
+                      citation={citation}
+                      source={source}
+                      onSelect={source ? () => onSelectSource(source.id) : undefined}
+                    />
+                  );
+                })}
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+// The factors behind the confidence score, each with its own bar
+const ConfidenceFactors = ({ breakdown }: { breakdown: ConfidenceBreakdown }) => (
+  <ul className="mt-1 ml-2 space-y-1">
+    {breakdown.factors.map(factor => (
+      <li key={factor.id}>
+        <div className="flex items-center">
+          <span className="w-32 shrink-0">{factor.label}</span>
+          <div className="w-full max-w-[80px] bg-gray-200 rounded-full h-1.5 mr-2 relative overflow-hidden">
+            <ConfidenceBar confidence={factor.score} />
+          </div>
+          <span className="w-10">{factor.score}%</span>
+          <span className="text-gray-400">×{factor.weight}</span>
+        </div>
+        <p className="text-gray-500">{factor.detail}</p>
+      </li>
+    ))}
+    {breakdown.capped && (
+      <li className="text-yellow-700">Capped at {breakdown.score}%: {breakdown.capped}</li>
+    )}
+  </ul>
+);
+
 interface ChatMessageProps {
   message: ChatMessageType;
   onFollowUpClick?: (question: string) => void;
+  onRefresh?: () => void; // Repeat the search without using cached answers
 }
 
-export default function ChatMessage({ message, onFollowUpClick }: ChatMessageProps) {
+export default function ChatMessage({ message, onFollowUpClick, onRefresh }: ChatMessageProps) {
   const [showDetails, setShowDetails] = useState(false);
+  const [showConfidence, setShowConfidence] = useState(false);
+  const [highlightedSourceId, setHighlightedSourceId] = useState<string | null>(null);
+  
+  const sourceElementId = (sourceId: string) => `source-${message.id}-${sourceId}`;
+  
+  // Scroll to the cited source's card and highlight it briefly
+  const selectSource = (sourceId: string) => {
+    document.getElementById(sourceElementId(sourceId))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedSourceId(sourceId);
+    setTimeout(() => setHighlightedSourceId(current => current === sourceId ? null : current), 2000);
+  };
+  
+  // [n] markers become hovercards once the answer is final and its citations checked
+  const markdownComponents: Components = {
+    cite: ({ node, children }) => {
+      if (!message.citations) return <>{children}</>;
+      
+      const citation = Number(node?.properties?.dataCitation);
+      const occurrence = node?.properties?.dataOccurrence;
+      const source = message.sources?.find(s => s.citationNumber === citation);
+      // Markers the verifier doesn't check have no occurrence, and show only their source
+      const check = occurrence === undefined
+        ? undefined
+        : message.citations?.checks.filter(c => c.citation === citation)[Number(occurrence)];
+      
+      return (
+        <CitationMarker
+          citation={citation}
+          source={source}
+          check={check}
+          onSelect={source ? () => selectSource(source.id) : undefined}
+        />
+      );
+    },
+  };
   
   if (message.type === 'user') {
     return (
@@ -83,20 +256,62 @@ export default function ChatMessage({ message, onFollowUpClick }: ChatMessagePro
         animate={{ opacity: 1, scale: 1, y: 0 }}
         transition={{ duration: 0.4 }}
       >
+        {/* Cached answer served instead of searching */}
+        {message.reusedFrom && (
+          <ReusedAnswerNotice reusedFrom={message.reusedFrom} onRefresh={onRefresh} />
+        )}
+        
+        {/* Searches the query was split into */}
+        {message.subQueries && message.subQueries.length > 1 && (
+          <div className="mb-4 flex flex-wrap items-center gap-2 text-xs text-gray-600">
+            <span className="font-medium">Searched for:</span>
+            {message.subQueries.map((subQuery, i) => (
+              <span
+                key={i}
+                title={subQuery.purpose}
+                className="px-2 py-0.5 rounded-full border border-gray-200 bg-white"
+              >
+                {subQuery.query}
+              </span>
+            ))}
+          </div>
+        )}
+        
         {/* AI Response */}
         <div className="prose max-w-none mb-4 text-gray-900">
           <div className="markdown-content">
             <ReactMarkdown 
-              rehypePlugins={[rehypeSanitize, rehypeRaw]} 
+              rehypePlugins={[rehypeSanitize, rehypeRaw, rehypeCitations]} 
               remarkPlugins={[remarkGfm]}
+              components={markdownComponents}
             >
               {message.content}
             </ReactMarkdown>
+            {message.isStreaming && (
+              <span className="inline-flex items-center text-sm text-gray-500">
+                {!message.content && <span className="mr-2">Reading sources</span>}
+                <span className="inline-block w-2 h-4 bg-gray-500 animate-pulse" aria-hidden="true" />
+              </span>
+            )}
           </div>
         </div>
         
+        {/* Conflicting statements between sources */}
+        {message.disagreements && message.disagreements.length > 0 && (
+          <SourceDisagreements
+            disagreements={message.disagreements}
+            sources={message.sources || []}
+            onSelectSource={selectSource}
+          />
+        )}
+        
+        {/* Citation check */}
+        {message.citations && !message.isStreaming && (
+          <CitationSummary report={message.citations} />
+        )}
+        
         {/* Performance Metrics */}
-        {(message.processingTime || message.confidence || message.queryIntent) && (
+        {(message.processingTime || message.confidence !== undefined || message.queryIntent) && (
           <div className="mt-2 mb-4">
             <button
               onClick={() => setShowDetails(!showDetails)}
@@ -120,13 +335,23 @@ export default function ChatMessage({ message, onFollowUpClick }: ChatMessagePro
                 {message.processingTime && (
                   <p>Processing time: <span className="font-medium">{formatTime(message.processingTime)}</span></p>
                 )}
-                {message.confidence && (
-                  <div className="flex items-center">
-                    <span className="mr-2">Confidence:</span>
-                    <div className="w-full max-w-[100px] bg-gray-200 rounded-full h-1.5 mr-2 relative overflow-hidden">
-                      <ConfidenceBar confidence={Math.round(message.confidence || 0)} />
-                    </div>
-                    <span>{Math.round(message.confidence)}%</span>
+                {message.confidence !== undefined && (
+                  <div>
+                    <button
+                      onClick={() => setShowConfidence(!showConfidence)}
+                      disabled={!message.confidenceBreakdown}
+                      className="w-full flex items-center hover:text-gray-800 disabled:cursor-default"
+                    >
+                      <span className="mr-2">Confidence:</span>
+                      <div className="w-full max-w-[100px] bg-gray-200 rounded-full h-1.5 mr-2 relative overflow-hidden">
+                        <ConfidenceBar confidence={Math.round(message.confidence || 0)} />
+                      </div>
+                      <span>{Math.round(message.confidence)}%</span>
+                      {message.confidenceBreakdown && <span className="ml-1">{showConfidence ? '▼' : '►'}</span>}
+                    </button>
+                    {showConfidence && message.confidenceBreakdown && (
+                      <ConfidenceFactors breakdown={message.confidenceBreakdown} />
+                    )}
                   </div>
                 )}
               </motion.div>
@@ -149,14 +374,15 @@ export default function ChatMessage({ message, onFollowUpClick }: ChatMessagePro
               Sources:
             </h4>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {message.sources.map((source: SearchResult, idx) => (
+              {message.sources.map((source, idx) => (
                 <motion.div
                   key={source.id}
+                  id={sourceElementId(source.id)}
                   initial={{ opacity: 0, y: 10 }}
                   animate={{ opacity: 1, y: 0 }}
                   transition={{ delay: 0.1 + (idx * 0.1) }}
                 >
-                  <SourceCard source={source} />
+                  <SourceCard source={source} highlighted={source.id === highlightedSourceId} />
                 </motion.div>
               ))}
             </div>
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import { CitationCheck, SearchResult } from '@/types/search';
+
+export const CITATION_STATUS_STYLES: Record<CitationCheck['status'], string> = {
+  supported: 'bg-green-50 text-green-700 border-green-200',
+  weak: 'bg-yellow-50 text-yellow-800 border-yellow-200',
+  unsupported: 'bg-red-50 text-red-700 border-red-200',
+  invalid: 'bg-red-50 text-red-700 border-red-200',
+};
+
+export const CITATION_STATUS_LABELS: Record<CitationCheck['status'], string> = {
+  supported: 'Supported',
+  weak: 'Weakly supported',
+  unsupported: 'Not found in source',
+  invalid: 'No such source',
+};
+
+interface CitationMarkerProps {
+  citation: number;
+  source?: SearchResult; // Missing when the answer cites a source that doesn't exist
+  check?: CitationCheck;
+  onSelect?: () => void;
+}
+
+// An inline [n] in the answer. Hovering or focusing shows the source and the
+// passage that supports the sentence; clicking jumps to its SourceCard.
+export default function CitationMarker({ citation, source, check, onSelect }: CitationMarkerProps) {
+  const [open, setOpen] = useState(false);
+
+  if (!source) {
+    return (
+      <span className="text-red-600 cursor-help" title={CITATION_STATUS_LABELS.invalid}>[{citation}]</span>
+    );
+  }
+
+  let domain = source.domain || '';
+  try {
+    domain = domain || new URL(source.url).hostname.replace('www.', '');
+  } catch {
+    domain = source.source;
+  }
+
+  const passage = check?.passage || source.snippet;
+  const flagged = check && check.status !== 'supported';
+
+  return (
+    <span
+      className="relative inline-block"
+      onMouseEnter={() => setOpen(true)}
+      onMouseLeave={() => setOpen(false)}
+    >
+      <button
+        type="button"
+        onClick={onSelect}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        aria-label={`Source ${citation}: ${source.title}`}
+        className={`align-super text-xs font-medium px-0.5 rounded hover:underline ${flagged ? 'text-yellow-700' : 'text-blue-600'}`}
+      >
+        [{citation}]
+      </button>
+
+      {open && (
+        <span
+          role="tooltip"
+          className="absolute z-20 left-0 top-full mt-1 block w-72 p-3 rounded-lg border border-gray-200 bg-white shadow-lg text-left text-xs font-normal text-gray-700 not-prose"
+        >
+          <span className="block font-semibold text-sm text-gray-900 leading-tight line-clamp-2">{source.title}</span>
+          <span className="block mt-1 text-gray-500">
+            {domain}{source.publishedDate ? ` · ${source.publishedDate}` : ''}
+          </span>
+          {passage && (
+            <span className="block mt-2 italic line-clamp-5">&ldquo;{passage}&rdquo;</span>
+          )}
+          {flagged && (
+            <span className={`inline-block mt-2 px-1.5 py-0.5 rounded border ${CITATION_STATUS_STYLES[check.status]}`}>
+              {CITATION_STATUS_LABELS[check.status]} · {Math.round(check.support * 100)}% match
+            </span>
+          )}
+        </span>
+      )}
+    </span>
+  );
+}
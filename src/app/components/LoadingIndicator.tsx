@@ -1,24 +1,36 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { PipelineProgressEvent, PipelineStage } from '@/types/search';
 
 interface LoadingIndicatorProps {
   isLoading: boolean;
   query: string;
+  progress?: PipelineProgressEvent[];
 }
 
-export default function LoadingIndicator({ isLoading, query }: LoadingIndicatorProps) {
+const STAGES: { stage: PipelineStage; label: string }[] = [
+  { stage: 'intent', label: 'Understanding the question' },
+  { stage: 'plan', label: 'Planning searches' },
+  { stage: 'search', label: 'Searching sources' },
+  { stage: 'merge', label: 'Ranking results' },
+  { stage: 'content_fetch', label: 'Reading pages' },
+  { stage: 'generation', label: 'Generating answer' },
+  { stage: 'postprocess', label: 'Finishing up' },
+];
+
+const formatDuration = (ms: number) => ms < 1000 ? `${Math.max(ms, 0)}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+const StatusIcon = ({ status }: { status: PipelineProgressEvent['status'] }) => {
+  if (status === 'completed') return <span className="text-green-600">✓</span>;
+  if (status === 'failed') return <span className="text-red-500">✗</span>;
+  return <span className="inline-block h-3 w-3 animate-spin rounded-full border-2 border-solid border-blue-500 border-r-transparent" />;
+};
+
+export default function LoadingIndicator({ isLoading, query, progress = [] }: LoadingIndicatorProps) {
   const [dots, setDots] = useState('.');
-  const [progressStep, setProgressStep] = useState(0);
   const [timeElapsed, setTimeElapsed] = useState(0);
 
-  const steps = [
-    'Fetching search results',
-    'Processing data',
-    'Generating answer',
-    'Almost there'
-  ];
-
   // Animate the dots
   useEffect(() => {
     if (!isLoading) return;
@@ -30,17 +42,6 @@ export default function LoadingIndicator({ isLoading, query }: LoadingIndicatorP
     return () => clearInterval(dotInterval);
   }, [isLoading]);
 
-  // Progress through steps
-  useEffect(() => {
-    if (!isLoading) return;
-    
-    const stepInterval = setInterval(() => {
-      setProgressStep(prev => (prev < steps.length - 1) ? prev + 1 : prev);
-    }, 5000); // Move to next step every 5 seconds
-    
-    return () => clearInterval(stepInterval);
-  }, [isLoading, steps.length]);
-
   // Track elapsed time
   useEffect(() => {
     if (!isLoading) {
@@ -57,14 +58,76 @@ export default function LoadingIndicator({ isLoading, query }: LoadingIndicatorP
 
   if (!isLoading) return null;
 
+  // Latest event for each stage and for each search provider
+  const stageEvents = new Map<PipelineStage, PipelineProgressEvent>();
+  const providerEvents = new Map<string, PipelineProgressEvent>();
+  for (const event of progress) {
+    if (event.provider) {
+      providerEvents.set(event.provider, event);
+    } else {
+      stageEvents.set(event.stage, event);
+    }
+  }
+
+  const startedStages = STAGES.filter(({ stage }) => stageEvents.has(stage));
+  const currentStage = [...startedStages].reverse().find(({ stage }) => stageEvents.get(stage)?.status === 'started');
+  const finishedCount = startedStages.filter(({ stage }) => stageEvents.get(stage)?.status !== 'started').length;
+
+  // Running stages are timed from when the server started them
+  const stageDuration = (event: PipelineProgressEvent) => event.duration ?? timeElapsed * 1000 - event.elapsed;
+
   return (
     <div className="text-center p-8 rounded-lg shadow-sm bg-white/50 backdrop-blur-sm my-4">
       <div className="flex flex-col items-center justify-center">
         <div className="inline-block h-10 w-10 animate-spin rounded-full border-4 border-solid border-blue-500 border-r-transparent"></div>
-        <p className="mt-4 text-gray-600">{steps[progressStep]}{dots}</p>
+        <p className="mt-4 text-gray-600">{currentStage?.label || 'Starting search'}{dots}</p>
         <div className="mt-2 text-sm text-gray-500">
           Searching for &quot;{query.substring(0, 40)}{query.length > 40 ? '...' : ''}&quot;
         </div>
+
+        {startedStages.length > 0 && (
+          <ul className="mt-4 w-full max-w-md space-y-1 text-left text-sm text-gray-600">
+            {startedStages.map(({ stage, label }) => {
+              const event = stageEvents.get(stage)!;
+              return (
+                <li key={stage}>
+                  <div className="flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                      <StatusIcon status={event.status} />
+                      {label}
+                    </span>
+                    <span className="text-xs text-gray-400">{formatDuration(stageDuration(event))}</span>
+                  </div>
+
+                  {/* Per-provider status while searching */}
+                  {stage === 'search' && providerEvents.size > 0 && (
+                    <div className="mt-1 ml-5 flex flex-wrap gap-1">
+                      {Array.from(providerEvents.values()).map(providerEvent => (
+                        <span
+                          key={providerEvent.provider}
+                          title={providerEvent.error || undefined}
+                          className={`text-xs px-2 py-0.5 rounded-full border ${
+                            providerEvent.status === 'failed'
+                              ? 'border-red-200 bg-red-50 text-red-700'
+                              : providerEvent.status === 'completed'
+                                ? 'border-green-200 bg-green-50 text-green-700'
+                                : 'border-gray-200 bg-gray-50 text-gray-600'
+                          }`}
+                        >
+                          {providerEvent.label || providerEvent.provider}
+                          {providerEvent.status === 'started' && ' · pending'}
+                          {providerEvent.status === 'completed' && ` · ${providerEvent.resultsCount ?? 0} results`}
+                          {providerEvent.status === 'failed' && ' · failed'}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
         {timeElapsed > 15 && (
           <div className="mt-4 p-3 bg-yellow-50 text-yellow-800 rounded-md max-w-md">
             <p className="text-sm">
@@ -77,7 +140,7 @@ export default function LoadingIndicator({ isLoading, query }: LoadingIndicatorP
         <div className="w-full max-w-md mt-4 bg-gray-200 rounded-full h-1.5">
           <div 
             className="bg-blue-500 h-1.5 rounded-full transition-all duration-500" 
-            style={{ width: `${Math.min(timeElapsed * 3, 90)}%` }}
+            style={{ width: `${Math.min(Math.round(finishedCount / STAGES.length * 100), 95)}%` }}
           ></div>
         </div>
         <div className="mt-2 text-xs text-gray-400">{timeElapsed}s elapsed</div>
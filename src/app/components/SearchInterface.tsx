@@ -2,17 +2,57 @@
 
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { AIResponse } from '@/types/search';
+import { SearchQuery, SearchStreamEvents, PipelineProgressEvent, SubQuery } from '@/types/search';
 import { ChatMessage as ChatMessageType } from '@/types/chat';
 import ChatMessage from '@/app/components/ChatMessage';
 import SearchHints from '@/app/components/SearchHints';
 import LoadingIndicator from '@/app/components/LoadingIndicator';
+import { readServerSentEvents } from '@/utils/sse';
+
+type SearchFilters = NonNullable<SearchQuery['filters']>;
+
+const TIME_RANGE_OPTIONS: { value: NonNullable<SearchFilters['timeRange']>; label: string }[] = [
+  { value: 'all', label: 'Any time' },
+  { value: 'day', label: 'Past day' },
+  { value: 'week', label: 'Past week' },
+  { value: 'month', label: 'Past month' },
+  { value: 'year', label: 'Past year' },
+];
+
+const LANGUAGE_OPTIONS = [
+  { value: '', label: 'Any language' },
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Spanish' },
+  { value: 'fr', label: 'French' },
+  { value: 'de', label: 'German' },
+  { value: 'pt', label: 'Portuguese' },
+  { value: 'it', label: 'Italian' },
+  { value: 'ja', label: 'Japanese' },
+  { value: 'zh', label: 'Chinese' },
+  { value: 'hi', label: 'Hindi' },
+];
+
+const REGION_OPTIONS = [
+  { value: '', label: 'Any region' },
+  { value: 'us', label: 'United States' },
+  { value: 'gb', label: 'United Kingdom' },
+  { value: 'ca', label: 'Canada' },
+  { value: 'au', label: 'Australia' },
+  { value: 'in', label: 'India' },
+  { value: 'de', label: 'Germany' },
+  { value: 'fr', label: 'France' },
+  { value: 'es', label: 'Spain' },
+  { value: 'br', label: 'Brazil' },
+  { value: 'jp', label: 'Japan' },
+];
 
 export default function SearchInterface() {
   const [query, setQuery] = useState('');
   const [messages, setMessages] = useState<ChatMessageType[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [searchHistory, setSearchHistory] = useState<string[]>([]);
+  const [filters, setFilters] = useState<SearchFilters>({ timeRange: 'all' });
+  const [progress, setProgress] = useState<PipelineProgressEvent[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   
   // Scroll to bottom whenever messages change
@@ -20,9 +60,11 @@ export default function SearchInterface() {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
   
-  const handleSearch = useCallback(async (searchQuery: string) => {
+  // `fresh` skips cached answers so the query is searched again
+  const handleSearch = useCallback(async (searchQuery: string, fresh = false) => {
     if (!searchQuery.trim()) return;
     setIsLoading(true);
+    setProgress([]);
     
     // Add to search history
     setSearchHistory(prev => {
@@ -41,17 +83,58 @@ export default function SearchInterface() {
       .slice(-3)
       .map(msg => msg.content);
     
+    // Only send the filters the user actually set
+    const activeFilters: SearchFilters = {
+      ...(filters.timeRange && filters.timeRange !== 'all' ? { timeRange: filters.timeRange } : {}),
+      ...(filters.language ? { language: filters.language } : {}),
+      ...(filters.region ? { region: filters.region } : {}),
+    };
+    
+    // The exchange is added once the first event arrives and then filled in
+    const assistantId = `assistant-${Date.now()}`;
+    let answerStarted = false;
+    let subQueries: SubQuery[] | undefined; // Known before the answer starts
+    
+    const startAnswer = (update: Partial<ChatMessageType> = {}) => {
+      if (answerStarted) return;
+      answerStarted = true;
+      setMessages(prev => [...prev,
+        {
+          type: 'user',
+          content: searchQuery,
+          timestamp: new Date().toISOString()
+        },
+        {
+          id: assistantId,
+          type: 'assistant',
+          content: '',
+          isStreaming: true,
+          timestamp: new Date().toISOString(),
+          subQueries,
+          ...update
+        }
+      ]);
+    };
+    
+    const updateAnswer = (update: (message: ChatMessageType) => Partial<ChatMessageType>) => {
+      setMessages(prev => prev.map(message => 
+        message.id === assistantId ? { ...message, ...update(message) } : message
+      ));
+    };
+    
     try {
-      const response = await fetch('/api/search', {
+      const response = await fetch('/api/search/stream', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
           query: searchQuery,
-          context: previousQueries.length > 0 ? previousQueries : undefined
+          context: previousQueries.length > 0 ? previousQueries : undefined,
+          filters: Object.keys(activeFilters).length > 0 ? activeFilters : undefined,
+          fresh: fresh || undefined
         })
       });
       
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         // Try to get more detailed error information from the response
         let errorDetail = '';
         try {
@@ -66,25 +149,40 @@ export default function SearchInterface() {
         );
       }
       
-      const data: AIResponse = await response.json();
-      
-      setMessages(prev => [...prev, 
-        {
-          type: 'user',
-          content: searchQuery,
-          timestamp: new Date().toISOString()
-        }, 
-        {
-          type: 'assistant',
-          content: data.answer,
-          sources: data.sources,
-          followUpQuestions: data.followUpQuestions,
-          processingTime: data.processingTime,
-          queryIntent: data.queryIntent,
-          confidence: data.confidence,
-          timestamp: new Date().toISOString()
+      // Render the answer progressively as events arrive
+      for await (const { event, data } of readServerSentEvents(response.body)) {
+        if (event === 'progress') {
+          const progressEvent = data as SearchStreamEvents['progress'];
+          setProgress(prev => [...prev, progressEvent]);
+        } else if (event === 'plan') {
+          // Shown with the answer when the query was split into several searches
+          const plan = data as SearchStreamEvents['plan'];
+          subQueries = plan.subQueries.length > 1 ? plan.subQueries : undefined;
+        } else if (event === 'sources') {
+          // Sent after merging and again with the final numbered set
+          const { sources, queryIntent } = data as SearchStreamEvents['sources'];
+          startAnswer();
+          updateAnswer(() => ({ sources, queryIntent }));
+        } else if (event === 'token') {
+          const { text } = data as SearchStreamEvents['token'];
+          startAnswer();
+          updateAnswer(message => ({ content: message.content + text }));
+        } else if (event === 'answer') {
+          // The validated answer replaces the preview rendered while streaming
+          const { answer, structuredAnswer, citations, sources, reusedFrom } = data as SearchStreamEvents['answer'];
+          startAnswer();
+          updateAnswer(() => ({ content: answer, citations, sources, disagreements: structuredAnswer.disagreements, reusedFrom }));
+        } else if (event === 'followups') {
+          const { followUpQuestions } = data as SearchStreamEvents['followups'];
+          updateAnswer(() => ({ followUpQuestions }));
+        } else if (event === 'done') {
+          const { processingTime, confidence, confidenceBreakdown, queryIntent } = data as SearchStreamEvents['done'];
+          updateAnswer(() => ({ processingTime, confidence, confidenceBreakdown, queryIntent, isStreaming: false }));
+        } else if (event === 'error') {
+          const { error, details } = data as SearchStreamEvents['error'];
+          throw new Error(`${error}${details ? ` - ${details}` : ''}`);
         }
-      ]);
+      }
       
     } catch (error) {
       console.error('Search failed:', error);
@@ -108,9 +206,11 @@ export default function SearchInterface() {
           errorMessage = 'Your search request took too long to process.';
           errorSuggestion = 'Try again with a more specific query, or break your question into smaller parts. Our search APIs might be experiencing high demand right now.';
         } else if (error.message.includes('429')) {
+          // The server says how long to wait in its error details
+          const retryAfter = error.message.match(/Try again in (\d+) seconds/)?.[1];
           errorTitle = 'Rate Limit Exceeded';
           errorMessage = 'You\'ve made too many requests in a short period.';
-          errorSuggestion = 'Please wait a moment before trying again. This helps us ensure fair usage for all users.';
+          errorSuggestion = `Please wait ${retryAfter ? `${retryAfter} seconds` : 'a moment'} before trying again. This helps us ensure fair usage for all users.`;
         } else if (error.message.includes('400')) {
           errorTitle = 'Invalid Request';
           errorMessage = 'Your search query couldn\'t be processed.';
@@ -124,24 +224,33 @@ export default function SearchInterface() {
       const formattedErrorMessage = `## ${errorTitle}\n\n${errorMessage}\n\n**Suggestion:** ${errorSuggestion}`;
       
       
-      setMessages(prev => [...prev, 
-        {
-          type: 'user',
-          content: searchQuery,
-          timestamp: new Date().toISOString()
-        }, 
-        {
-          type: 'assistant',
-          content: formattedErrorMessage,
-          timestamp: new Date().toISOString(),
-          isError: true
-        }
-      ]);
+      if (answerStarted) {
+        // Keep whatever part of the answer already arrived
+        updateAnswer(message => ({
+          content: message.content ? `${message.content}\n\n---\n\n${formattedErrorMessage}` : formattedErrorMessage,
+          isError: !message.content
+        }));
+      } else {
+        setMessages(prev => [...prev, 
+          {
+            type: 'user',
+            content: searchQuery,
+            timestamp: new Date().toISOString()
+          }, 
+          {
+            type: 'assistant',
+            content: formattedErrorMessage,
+            timestamp: new Date().toISOString(),
+            isError: true
+          }
+        ]);
+      }
     } finally {
+      updateAnswer(() => ({ isStreaming: false }));
       setIsLoading(false);
       setQuery('');
     }
-  }, [messages]);
+  }, [messages, filters]);
   
   const handleFollowUpQuestion = useCallback((question: string) => {
     setQuery(question);
@@ -178,6 +287,43 @@ export default function SearchInterface() {
           </motion.button>
         </div>
         
+        {/* Search Filters */}
+        <div className="flex flex-wrap items-center gap-2 mt-3">
+          <select
+            aria-label="Time range"
+            value={filters.timeRange || 'all'}
+            onChange={(e) => setFilters(prev => ({ ...prev, timeRange: e.target.value as SearchFilters['timeRange'] }))}
+            disabled={isLoading}
+            className="text-xs px-3 py-1 bg-white border rounded-full text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {TIME_RANGE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            aria-label="Language"
+            value={filters.language || ''}
+            onChange={(e) => setFilters(prev => ({ ...prev, language: e.target.value || undefined }))}
+            disabled={isLoading}
+            className="text-xs px-3 py-1 bg-white border rounded-full text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {LANGUAGE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            aria-label="Region"
+            value={filters.region || ''}
+            onChange={(e) => setFilters(prev => ({ ...prev, region: e.target.value || undefined }))}
+            disabled={isLoading}
+            className="text-xs px-3 py-1 bg-white border rounded-full text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {REGION_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        
         {/* Recent Searches */}
         {searchHistory.length > 0 && (
           <div className="flex flex-wrap gap-2 mt-3">
@@ -212,6 +358,7 @@ export default function SearchInterface() {
               <ChatMessage
                 message={message}
                 onFollowUpClick={handleFollowUpQuestion}
+                onRefresh={message.reusedFrom && index > 0 ? () => handleSearch(messages[index - 1].content, true) : undefined}
               />
             </motion.div>
           ))}
@@ -220,7 +367,7 @@ export default function SearchInterface() {
       </div>
       
       {/* Loading State with enhanced progress indicator */}
-      <LoadingIndicator isLoading={isLoading} query={query || ''} />
+      <LoadingIndicator isLoading={isLoading} query={query || ''} progress={progress} />
       
       {/* Empty State */}
       {messages.length === 0 && !isLoading && (
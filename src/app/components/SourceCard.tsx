@@ -1,15 +1,20 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { SearchResult } from '@/types/search';
-import { ExternalLink, Clock, ChevronDown, ChevronUp } from 'lucide-react';
+import { CitedSource } from '@/types/search';
+import { ExternalLink, Clock, ChevronDown, ChevronUp, FileText, Users, Search } from 'lucide-react';
 
 interface SourceCardProps {
-  source: SearchResult;
+  source: CitedSource;
+  highlighted?: boolean; // Selected from a citation in the answer
 }
 
-export default function SourceCard({ source }: SourceCardProps) {
+export default function SourceCard({ source, highlighted = false }: SourceCardProps) {
   const [expanded, setExpanded] = useState(false);
   
+  // Sources the model never saw, or that the answer doesn't cite, are kept but muted
+  const unused = source.inPrompt === false || source.cited === false;
+  const usageLabel = source.inPrompt === false ? 'Not used' : source.cited === false ? 'Not cited' : null;
+  
   // Format domain for display
   const formattedDomain = source.domain || 
     (source.url ? new URL(source.url).hostname.replace('www.', '') : 'Unknown source');
@@ -21,6 +26,14 @@ export default function SourceCard({ source }: SourceCardProps) {
         return '🦁'; // Lion emoji for Brave
       case 'serpapi':
         return '🔍'; // Magnifying glass for SerpAPI
+      case 'searxng':
+        return '🔎'; // Right-tilted magnifier for SearXNG
+      case 'local':
+        return '📄'; // Page for local documents
+      case 'mediawiki':
+        return '📚'; // Books for Wikipedia/MediaWiki
+      case 'arxiv':
+        return '🎓'; // Mortarboard for academic papers
       default:
         return '🌐'; // Globe for unknown/other
     }
@@ -28,19 +41,38 @@ export default function SourceCard({ source }: SourceCardProps) {
   
   return (
     <motion.div 
-      className="border rounded-lg p-4 hover:shadow-md transition-all bg-white relative overflow-hidden"
+      className={`border rounded-lg p-4 hover:shadow-md transition-all bg-white relative overflow-hidden ${highlighted ? 'ring-2 ring-blue-400 border-blue-300' : ''} ${unused ? 'opacity-70' : ''}`}
       whileHover={{ y: -2, boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)' }}
     >
       <div className="flex items-start justify-between mb-2">
-        <h5 className="font-semibold text-sm leading-tight line-clamp-2">{source.title}</h5>
+        <h5 className="font-semibold text-sm leading-tight line-clamp-2">
+          <span className="text-blue-600 mr-1">[{source.citationNumber}]</span>
+          {source.title}
+        </h5>
         <div className="flex items-center gap-1">
           <span className="inline-flex items-center justify-center min-w-[40px] h-5 px-1.5 rounded-full bg-gray-100 text-xs font-medium">
             {Math.round(source.relevanceScore)}%
           </span>
-          <span className="text-lg" title={`Source: ${source.source}`}>{getSourceIcon()}</span>
+          <span className="text-lg" title={`Source: ${source.source}${source.engines?.length ? ` (${source.engines.join(', ')})` : ''}`}>{getSourceIcon()}</span>
         </div>
       </div>
       
+      {source.authors && source.authors.length > 0 && (
+        <p className="flex items-center gap-1 text-xs text-gray-500 mb-2" title={source.authors.join(', ')}>
+          <Users size={12} className="shrink-0" />
+          <span className="truncate">
+            {source.authors.slice(0, 3).join(', ')}{source.authors.length > 3 ? ` +${source.authors.length - 3} more` : ''}
+          </span>
+        </p>
+      )}
+      
+      {source.subQueries && source.subQueries.length > 0 && (
+        <p className="flex items-center gap-1 text-xs text-gray-500 mb-2" title="Sub-queries that found this source">
+          <Search size={12} className="shrink-0" />
+          <span className="truncate">{source.subQueries.join(' · ')}</span>
+        </p>
+      )}
+      
       <div 
         className={`text-sm text-gray-600 mb-3 ${expanded ? '' : 'line-clamp-2'} cursor-pointer`}
         onClick={() => setExpanded(!expanded)}
@@ -76,19 +108,45 @@ export default function SourceCard({ source }: SourceCardProps) {
               </span>
             </>
           )}
+          {usageLabel && (
+            <>
+              <span>•</span>
+              <span
+                className="italic"
+                title={source.inPrompt === false ? "Didn't fit in the context given to the model" : "The answer doesn't cite this source"}
+              >
+                {usageLabel}
+              </span>
+            </>
+          )}
         </div>
         
-        <motion.a 
-          href={source.url} 
-          target="_blank" 
-          rel="noopener noreferrer"
-          className="inline-flex items-center text-xs font-medium text-blue-600 hover:text-blue-800 px-2 py-1 rounded hover:bg-blue-50"
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
-        >
-          <ExternalLink size={12} className="mr-1" />
-          View
-        </motion.a>
+        <div className="flex items-center">
+          {source.pdfUrl && (
+            <motion.a 
+              href={source.pdfUrl} 
+              target="_blank" 
+              rel="noopener noreferrer"
+              className="inline-flex items-center text-xs font-medium text-blue-600 hover:text-blue-800 px-2 py-1 rounded hover:bg-blue-50"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              <FileText size={12} className="mr-1" />
+              PDF
+            </motion.a>
+          )}
+          <motion.a 
+            href={source.url} 
+            target="_blank" 
+            rel="noopener noreferrer"
+            className="inline-flex items-center text-xs font-medium text-blue-600 hover:text-blue-800 px-2 py-1 rounded hover:bg-blue-50"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <ExternalLink size={12} className="mr-1" />
+            View
+          </motion.a>
+        </div>
       </div>
       
       {/* Image preview if available */}
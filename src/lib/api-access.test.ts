@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { beforeEach, describe, expect, it } from 'vitest';
+import config from '@/lib/config';
+import { createMemoryApiKeyStore, hashApiKey, setApiKeyStore } from '@/utils/api-keys';
+import { createMemoryRateLimitStore, setRateLimitStore } from '@/utils/rate-limit';
+import { withApiAccess } from './api-access';
+
+const ROUTE = '/api/search';
+const VALID_KEY = 'eva_valid';
+
+const handler = withApiAccess(ROUTE, async () => NextResponse.json({ ok: true }));
+
+const request = (headers: Record<string, string>) =>
+  new NextRequest(`http://localhost${ROUTE}`, { headers: { 'x-forwarded-for': '203.0.113.7', ...headers } });
+
+describe('withApiAccess', () => {
+  beforeEach(() => {
+    config.apiRateLimits.enabled = true;
+    config.apiRateLimits.routes = { [ROUTE]: { requests: 2, period: 'minute' } };
+    setRateLimitStore(createMemoryRateLimitStore({ maxClients: 100 }));
+    setApiKeyStore(createMemoryApiKeyStore([{
+      id: 'key_valid',
+      name: 'Valid',
+      tier: 'standard',
+      hash: hashApiKey(VALID_KEY),
+      prefix: 'eva_valid',
+      createdAt: '2026-01-01T00:00:00.000Z',
+    }]));
+  });
+
+  it('limits invalid keys by address', async () => {
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await handler(request({ 'x-api-key': `eva_guess_${i}` }))).status);
+    }
+
+    expect(statuses).toEqual([401, 401, 429]);
+  });
+
+  it('limits a valid key by its tier, not its address', async () => {
+    for (let i = 0; i < 2; i++) await handler(request({ 'x-api-key': 'eva_guess' }));
+
+    const response = await handler(request({ authorization: `Bearer ${VALID_KEY}` }));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('30');
+  });
+
+  it('does not limit keys when rate limiting is turned off', async () => {
+    config.apiRateLimits.enabled = false;
+    const statuses = [];
+    for (let i = 0; i < 35; i++) {
+      statuses.push((await handler(request({ 'x-api-key': VALID_KEY }))).status);
+    }
+
+    expect(statuses.every(status => status === 200)).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import config from '@/lib/config';
+import { ApiAccess } from '@/types/api-keys';
+import { RateLimitResult } from '@/types/rate-limit';
+import { resolveApiAccess, recordApiKeyUsage, ApiAccessError } from '@/utils/api-keys';
+import { findRouteLimit, getRateLimitStore, limitRequest, rateLimitHeaders, requestApiKey } from '@/utils/rate-limit';
+
+type AccessHandler<A extends unknown[]> = (request: NextRequest, access: ApiAccess, ...args: A) => Promise<Response>;
+
+function rateLimited(route: string, limit: RateLimitResult): NextResponse {
+  return NextResponse.json(
+    {
+      error: 'Rate limit exceeded',
+      details: `Too many requests to ${route}. Try again in ${limit.retryAfter} seconds.`,
+      timestamp: new Date().toISOString(),
+    },
+    { status: 429, headers: rateLimitHeaders(limit) }
+  );
+}
+
+// Wraps an API route handler with the API key check. Keys run in the Node
+// runtime because the key store is a local file, so requests with a key are
+// rate limited here by their tier; those without one are limited by the
+// middleware per address. A key that isn't valid takes from its address's
+// bucket, so keys can't be guessed faster than anonymous requests are allowed.
+export function withApiAccess<A extends unknown[]>(route: string, handler: AccessHandler<A>) {
+  return async (request: NextRequest, ...args: A): Promise<Response> => {
+    let access: ApiAccess;
+    try {
+      access = await resolveApiAccess(request.headers, route);
+    } catch (error) {
+      if (!(error instanceof ApiAccessError)) {
+        console.error('API key check failed:', error);
+        return NextResponse.json({ error: 'API key check failed' }, { status: 500 });
+      }
+      if (error.status === 401 && requestApiKey(request.headers)) {
+        const limit = await limitRequest(route, request.headers);
+        if (limit && !limit.allowed) return rateLimited(route, limit);
+      }
+      return NextResponse.json(
+        { error: error.message, timestamp: new Date().toISOString() },
+        { status: error.status, headers: error.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : undefined }
+      );
+    }
+
+    let limit: RateLimitResult | undefined;
+    const rateLimit = access.key && config.apiRateLimits.enabled && (access.tier.rateLimit ?? findRouteLimit(route)?.limit);
+    if (access.key && rateLimit) {
+      try {
+        limit = await getRateLimitStore().take(`${route}|key:${access.key.id}`, rateLimit);
+      } catch (error) {
+        console.warn('Rate limit check failed:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (limit && !limit.allowed) return rateLimited(route, limit);
+
+    const [response] = await Promise.all([handler(request, access, ...args), recordApiKeyUsage(access, route)]);
+    if (limit) {
+      Object.entries(rateLimitHeaders(limit)).forEach(([name, value]) => response.headers.set(name, value));
+    }
+    return response;
+  };
+}
@@ -1,4 +1,9 @@
-import { envSchema } from './validations';
+import { envSchema, searchRoutingSchema, apiTiersSchema } from './validations';
+import { SearchRoutingTable } from '../types/search';
+import { ModelChainEntry } from '../types/llm';
+import { QuotaLimit } from '../types/quota';
+import { RouteRateLimit } from '../types/rate-limit';
+import { ApiTier } from '../types/api-keys';
 
 // Validate environment variables (non-strict for build time)
 function validateEnv() {
@@ -44,12 +49,203 @@ function validateEnv() {
 // Only validate environment during build time if we're not in CI
 const validatedEnv = validateEnv();
 
+// Which providers each query intent is sent to, in priority order.
+// Providers that are not enabled are skipped.
+const TECHNICAL_SITES = [
+  'stackoverflow.com',
+  'github.com',
+  'developer.mozilla.org',
+  'learn.microsoft.com',
+  'dev.to',
+];
+
+const DEFAULT_SEARCH_ROUTING: SearchRoutingTable = {
+  general: [
+    { provider: 'brave' },
+    { provider: 'serpapi' },
+    { provider: 'searxng' },
+    { provider: 'local' },
+  ],
+  research: [
+    { provider: 'serpapi' },
+    { provider: 'mediawiki' },
+    { provider: 'arxiv' },
+    { provider: 'searxng', params: { categories: 'general,science' } },
+    { provider: 'local' },
+  ],
+  news: [
+    { provider: 'serpapi', params: { tbm: 'nws' } },
+    { provider: 'brave' },
+    { provider: 'searxng', params: { categories: 'news' } },
+  ],
+  shopping: [
+    { provider: 'serpapi', params: { engine: 'google_shopping' } },
+    { provider: 'brave' },
+    { provider: 'searxng', params: { categories: 'shopping' } },
+  ],
+  technical: [
+    { provider: 'brave' },
+    { provider: 'serpapi', sites: TECHNICAL_SITES },
+    { provider: 'searxng', params: { categories: 'it' } },
+    { provider: 'local' },
+  ],
+};
+
+// SEARCH_ROUTING holds JSON overriding the routes of one or more intents
+function parseSearchRouting(): SearchRoutingTable {
+  if (!process.env.SEARCH_ROUTING) {
+    return DEFAULT_SEARCH_ROUTING;
+  }
+  
+  try {
+    const overrides = searchRoutingSchema.parse(JSON.parse(process.env.SEARCH_ROUTING));
+    return { ...DEFAULT_SEARCH_ROUTING, ...overrides };
+  } catch (error) {
+    console.warn('Invalid SEARCH_ROUTING, using default routing:', error);
+    return DEFAULT_SEARCH_ROUTING;
+  }
+}
+
+// LLM_FALLBACK_CHAIN lists the models tried in order as provider[:model][@timeoutMs],
+// e.g. "gemini:gemini-2.5-pro@30000,gemini:gemini-2.5-flash@15000,ollama@60000"
+const DEFAULT_MODEL_TIMEOUT = 30000;
+
+function parseModelChain(): ModelChainEntry[] {
+  const primaryProvider = process.env.LLM_PROVIDER || 'gemini';
+  
+  if (!process.env.LLM_FALLBACK_CHAIN) {
+    const chain: ModelChainEntry[] = [{ provider: primaryProvider, timeout: DEFAULT_MODEL_TIMEOUT }];
+    const primaryModel = process.env.LLM_MODEL || validatedEnv.GEMINI_MODEL || 'gemini-2.5-pro';
+    
+    // Fall back to the faster Gemini model by default
+    if (primaryProvider === 'gemini' && primaryModel !== 'gemini-2.5-flash') {
+      chain.push({ provider: 'gemini', model: 'gemini-2.5-flash', timeout: 20000 });
+    }
+    return chain;
+  }
+  
+  return process.env.LLM_FALLBACK_CHAIN
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [target, timeout] = entry.split('@');
+      const separator = target.indexOf(':');
+      return {
+        provider: separator === -1 ? target : target.slice(0, separator),
+        model: separator === -1 ? undefined : target.slice(separator + 1),
+        timeout: parseInt(timeout || '') || DEFAULT_MODEL_TIMEOUT,
+      };
+    });
+}
+
+// How long cached responses are kept per query intent, in seconds. CACHE_TTLS
+// overrides some of them as comma-separated intent=seconds, e.g. "news=120,research=604800"
+function parseCacheTTLs(): Record<string, number> {
+  const defaultTTL = parseInt(process.env.CACHE_DURATION || '') || validatedEnv.CACHE_DURATION || 3600;
+  const ttls: Record<string, number> = {
+    general: defaultTTL,
+    research: 86400,
+    technical: 86400,
+    shopping: defaultTTL,
+    news: 300, // Stale news is wrong news
+  };
+  
+  for (const entry of (process.env.CACHE_TTLS || '').split(',')) {
+    const [intent, seconds] = entry.split('=').map(part => part.trim());
+    if (intent && parseInt(seconds) >= 0) ttls[intent] = parseInt(seconds);
+  }
+  return ttls;
+}
+
+// Request budgets per provider. RATE_LIMITS overrides or adds some of them as
+// comma-separated provider=requests/period, e.g. "brave=5000/month,searxng=1000/day"
+function parseRateLimits(): Record<string, QuotaLimit> {
+  const limits: Record<string, QuotaLimit> = {
+    brave: { requests: 2000, period: 'month' },
+    serpapi: { requests: 100, period: 'month' },
+    gemini: { requests: 15, period: 'minute' },
+  };
+  
+  for (const entry of (process.env.RATE_LIMITS || '').split(',')) {
+    const match = entry.trim().match(/^([\w-]+)=(\d+)\/(minute|day|month)$/);
+    if (match) limits[match[1]] = { requests: parseInt(match[2]), period: match[3] as QuotaLimit['period'] };
+    else if (entry.trim()) console.warn(`Ignoring invalid RATE_LIMITS entry "${entry.trim()}"`);
+  }
+  return limits;
+}
+
+// Per-client limits on API routes, matched by path prefix. API_RATE_LIMITS
+// overrides or adds some as comma-separated route=requests/period,
+// e.g. "/api/search=60/minute,/api/chat=10/minute"; 0 requests removes a limit
+function parseApiRateLimits(): Record<string, RouteRateLimit> {
+  const limits: Record<string, RouteRateLimit> = {
+    '/api/search': { requests: 20, period: 'minute' },
+    '/api/chat': { requests: 20, period: 'minute' },
+  };
+  
+  for (const entry of (process.env.API_RATE_LIMITS || '').split(',')) {
+    const match = entry.trim().match(/^(\/[\w\-/]*)=(\d+)\/(second|minute|hour|day)$/);
+    if (!match) {
+      if (entry.trim()) console.warn(`Ignoring invalid API_RATE_LIMITS entry "${entry.trim()}"`);
+      continue;
+    }
+    
+    const route = match[1].replace(/\/+$/, '') || '/';
+    if (parseInt(match[2]) === 0) delete limits[route];
+    else limits[route] = { requests: parseInt(match[2]), period: match[3] as RouteRateLimit['period'] };
+  }
+  return limits;
+}
+
+// Routes the web app calls, open to requests without an API key unless
+// API_KEYS_REQUIRED is set
+const WEB_APP_ROUTES = ['/api/search', '/api/chat', '/api/analytics', '/api/quota', '/api/corpus', '/api/health'];
+
+// What each tier of API key may do. API_TIERS adds tiers or replaces built-in
+// ones as JSON, e.g. {"partner":{"routes":["/api/search"],"rateLimit":{"requests":60,"period":"minute"}}}.
+// "anonymous" applies to requests without a key.
+function parseApiTiers(): Record<string, ApiTier> {
+  const tiers: Record<string, ApiTier> = {
+    anonymous: { routes: process.env.API_KEYS_REQUIRED === 'true' ? ['/api/health'] : WEB_APP_ROUTES },
+    standard: { routes: ['/api/search', '/api/chat'], rateLimit: { requests: 30, period: 'minute' }, maxAnswerWords: 600 },
+    internal: { routes: WEB_APP_ROUTES, rateLimit: { requests: 120, period: 'minute' } },
+    admin: { routes: ['/api'], rateLimit: { requests: 300, period: 'minute' } },
+  };
+  
+  if (!process.env.API_TIERS) return tiers;
+  
+  try {
+    return { ...tiers, ...apiTiersSchema.parse(JSON.parse(process.env.API_TIERS)) };
+  } catch (error) {
+    console.warn('Invalid API_TIERS, using the built-in tiers:', error);
+    return tiers;
+  }
+}
+
+// Fractions of a budget, e.g. "0.8,0.95"
+function parseThresholds(value: string): number[] {
+  return value
+    .split(',')
+    .map(part => parseFloat(part))
+    .filter(threshold => threshold > 0 && threshold < 1)
+    .sort((a, b) => a - b);
+}
+
 export const config = {
   // API Keys
   geminiApiKey: validatedEnv.GEMINI_API_KEY || process.env.GEMINI_API_KEY || '',
   braveRapidApiKey: validatedEnv.BRAVE_RAPIDAPI_KEY || process.env.BRAVE_RAPIDAPI_KEY || '',
   braveRapidApiHost: validatedEnv.BRAVE_RAPIDAPI_HOST || process.env.BRAVE_RAPIDAPI_HOST || '',
   serpApiKey: validatedEnv.SERPAPI_KEY || process.env.SERPAPI_KEY || '',
+  searxngUrl: process.env.SEARXNG_URL || '',
+  
+  mediawikiApiUrl: process.env.MEDIAWIKI_API_URL || 'https://en.wikipedia.org/w/api.php',
+  arxivApiUrl: process.env.ARXIV_API_URL || 'https://export.arxiv.org/api/query',
+  
+  // Local document corpus (Markdown/HTML/text files indexed with BM25)
+  corpusDir: process.env.CORPUS_DIR || '',
+  corpusIndexPath: process.env.CORPUS_INDEX_PATH || '.cache/corpus-index.json',
   
   // Application
   appUrl: validatedEnv.NEXT_PUBLIC_APP_URL || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
@@ -61,6 +257,58 @@ export const config = {
   maxResultsPerSource: parseInt(process.env.MAX_RESULTS_PER_SOURCE || '10'),
   cacheDuration: parseInt(process.env.CACHE_DURATION || '3600'),
   
+  // Search providers that may be queried (comma-separated provider ids)
+  searchProviders: (process.env.SEARCH_PROVIDERS || 'brave,serpapi,searxng,local,arxiv,mediawiki')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean),
+  searchRouting: parseSearchRouting(),
+  
+  // Full-page fetching of the top merged results
+  contentFetch: {
+    enabled: process.env.CONTENT_FETCH_ENABLED !== 'false',
+    maxPages: parseInt(process.env.CONTENT_FETCH_MAX_PAGES || '5'),
+    timeout: parseInt(process.env.CONTENT_FETCH_TIMEOUT || '5000'),
+    maxBytes: parseInt(process.env.CONTENT_FETCH_MAX_BYTES || '1500000'),
+    maxExcerptChars: parseInt(process.env.CONTENT_FETCH_MAX_EXCERPT_CHARS || '12000'),
+    userAgent: process.env.CONTENT_FETCH_USER_AGENT || 'EvaSearchBot/1.0 (+https://github.com/vivekjami/evasearchgpt)',
+    // Private hosts that may be fetched anyway, e.g. an intranet wiki
+    allowedHosts: (process.env.CONTENT_FETCH_ALLOWED_HOSTS || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean),
+  },
+  
+  // Source text passed to the model, selected passage by passage
+  contextBudget: {
+    maxTokens: parseInt(process.env.CONTEXT_TOKEN_BUDGET || '6000'),
+    maxSources: parseInt(process.env.CONTEXT_MAX_SOURCES || '10'),
+    maxPassagesPerSource: parseInt(process.env.CONTEXT_MAX_PASSAGES_PER_SOURCE || '4'),
+    passageWords: parseInt(process.env.CONTEXT_PASSAGE_WORDS || '120'),
+  },
+  
+  // Caching of provider responses and final answers
+  cache: {
+    store: process.env.CACHE_STORE || 'memory', // memory, file, redis or none
+    maxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || '500'), // memory store only
+    dir: process.env.CACHE_DIR || '.cache/responses', // file store only
+    redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+    redisTimeout: parseInt(process.env.REDIS_TIMEOUT || '1000'),
+    ttl: parseCacheTTLs(),
+  },
+  
+  // Serving the cached answer to a differently worded question
+  semanticCache: {
+    enabled: process.env.SEMANTIC_CACHE_ENABLED !== 'false',
+    threshold: parseFloat(process.env.SEMANTIC_CACHE_THRESHOLD || '0.8'), // Term overlap from 0 to 1
+    maxEntries: parseInt(process.env.SEMANTIC_CACHE_MAX_ENTRIES || '200'), // Questions remembered per intent and filters
+  },
+  
+  // Splitting complex questions into sub-queries that are searched in parallel
+  queryPlanning: {
+    enabled: process.env.QUERY_PLANNING_ENABLED !== 'false',
+    useLLM: process.env.QUERY_PLANNING_USE_LLM !== 'false', // Otherwise only rule-based splits
+    maxSubQueries: parseInt(process.env.QUERY_PLANNING_MAX_SUBQUERIES || '4'),
+    timeout: parseInt(process.env.QUERY_PLANNING_TIMEOUT || '8000'),
+  },
+  
   // AI configuration
   useSimplifiedPrompt: validatedEnv.USE_SIMPLIFIED_PROMPT || false,
   enableDetailedResponses: validatedEnv.ENABLE_DETAILED_RESPONSES || true,
@@ -69,11 +317,49 @@ export const config = {
   geminiModel: validatedEnv.GEMINI_MODEL || 'gemini-2.5-pro',
   geminiMaxTokens: validatedEnv.GEMINI_MAX_TOKENS || 4000,
   
-  // Rate limiting
-  rateLimits: {
-    brave: { requests: 2000, period: 'month' },
-    serpapi: { requests: 100, period: 'month' },
-    gemini: { requests: 15, period: 'minute' },
+  // Language model used for answers: gemini, openai (any OpenAI-compatible
+  // server), ollama or fake (deterministic, for tests)
+  llm: {
+    provider: process.env.LLM_PROVIDER || 'gemini',
+    model: process.env.LLM_MODEL || '', // Overrides the provider's default model
+    openaiBaseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    openaiApiKey: process.env.OPENAI_API_KEY || '',
+    openaiModel: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    ollamaUrl: process.env.OLLAMA_URL || 'http://localhost:11434',
+    ollamaModel: process.env.OLLAMA_MODEL || 'llama3.2',
+    fallbackChain: parseModelChain(),
+    retries: parseInt(process.env.LLM_RETRIES || '1'), // Extra attempts per model on transient errors
+    circuitFailureThreshold: parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || '3'),
+    circuitCooldown: parseInt(process.env.LLM_CIRCUIT_COOLDOWN || '60000'),
+    answerRepairAttempts: parseInt(process.env.LLM_ANSWER_REPAIR_ATTEMPTS || '2'), // Retries when the answer JSON is invalid
+  },
+  
+  // Provider request budgets, counted per calendar window
+  rateLimits: parseRateLimits(),
+  
+  quota: {
+    store: process.env.QUOTA_STORE || 'file', // file or memory
+    file: process.env.QUOTA_FILE || '.cache/quota.json',
+    warnAt: parseThresholds(process.env.QUOTA_WARNING_THRESHOLDS || '0.8,0.95'), // Logged once per window when crossed
+    routingReserve: parseFloat(process.env.QUOTA_ROUTING_RESERVE || '0.95'), // Providers past this share are skipped when others are available
+  },
+  
+  // Per-client token buckets for API routes, enforced by middleware
+  apiRateLimits: {
+    enabled: process.env.API_RATE_LIMITING_ENABLED !== 'false',
+    store: process.env.API_RATE_LIMIT_STORE || 'memory',
+    maxClients: parseInt(process.env.API_RATE_LIMIT_MAX_CLIENTS || '10000'), // memory store only
+    // Proxies in front of the app that each append the address they saw to X-Forwarded-For
+    trustedProxies: parseInt(process.env.API_TRUSTED_PROXIES || '1'),
+    routes: parseApiRateLimits(),
+  },
+  
+  // API keys, issued with `npm run api-keys` and stored hashed
+  apiKeys: {
+    store: process.env.API_KEY_STORE || 'file', // file or memory
+    file: process.env.API_KEYS_FILE || '.data/api-keys.json',
+    usageFile: process.env.API_KEYS_USAGE_FILE || '.data/api-key-usage.json',
+    tiers: parseApiTiers(),
   },
   
   // Feature flags
@@ -34,13 +34,36 @@ export const envSchema = z.object({
 });
 
 // Runtime API validation (stricter validation for API routes)
+// Search provider keys are checked by each provider's isConfigured()
 export const runtimeEnvSchema = z.object({
   GEMINI_API_KEY: z.string().min(1, 'Gemini API key is required'),
-  BRAVE_RAPIDAPI_KEY: z.string().min(1, 'Brave RapidAPI key is required'),
-  BRAVE_RAPIDAPI_HOST: z.string().min(1, 'Brave RapidAPI host is required'),
-  SERPAPI_KEY: z.string().min(1, 'SerpAPI key is required'),
 });
 
+// Intent -> provider routing table (SEARCH_ROUTING overrides, per intent)
+const providerRouteSchema = z.object({
+  provider: z.string().min(1),
+  params: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+  sites: z.array(z.string()).optional(),
+});
+
+export const searchRoutingSchema = z.object({
+  research: z.array(providerRouteSchema),
+  shopping: z.array(providerRouteSchema),
+  news: z.array(providerRouteSchema),
+  technical: z.array(providerRouteSchema),
+  general: z.array(providerRouteSchema),
+}).partial();
+
+// API_TIERS entries, merged over the built-in tiers
+export const apiTiersSchema = z.record(z.object({
+  routes: z.array(z.string().startsWith('/')),
+  rateLimit: z.object({
+    requests: z.number().int().positive(),
+    period: z.enum(['second', 'minute', 'hour', 'day']),
+  }).optional(),
+  maxAnswerWords: z.number().int().positive().optional(),
+}));
+
 // Search query validation
 export const searchQuerySchema = z.object({
   query: z.string().min(1, 'Query cannot be empty').max(500, 'Query too long'),
@@ -51,6 +74,7 @@ export const searchQuerySchema = z.object({
     language: z.string().optional(),
     region: z.string().optional(),
   }).optional(),
+  fresh: z.boolean().optional(), // Skip cached answers and search again
 });
 
 // API response validation
@@ -59,16 +83,57 @@ export const searchResultSchema = z.object({
   title: z.string(),
   url: z.string().url(),
   snippet: z.string(),
-  source: z.enum(['brave', 'serpapi']),
+  content: z.string().optional(),
+  source: z.string(),
   relevanceScore: z.number().min(0).max(100),
   publishedDate: z.string().optional(),
   imageUrl: z.string().url().optional(),
   domain: z.string().optional(),
+  engines: z.array(z.string()).optional(),
+  authors: z.array(z.string()).optional(),
+  categories: z.array(z.string()).optional(),
+  pdfUrl: z.string().url().optional(),
+  subQueries: z.array(z.string()).optional(),
+});
+
+// Answer JSON requested from the model; the source-number range is checked separately
+const answerClaimSchema = z.object({
+  text: z.string().min(1, 'Claim text cannot be empty'),
+  citations: z.array(z.number().int().min(1)),
+});
+
+export const structuredAnswerSchema = z.object({
+  summary: z.string().min(1, 'Summary cannot be empty'),
+  sections: z.array(z.object({
+    heading: z.string().min(1, 'Section heading cannot be empty'),
+    claims: z.array(answerClaimSchema).min(1, 'Each section needs at least one claim'),
+  })).min(1, 'At least one section is required'),
+  takeaways: z.array(answerClaimSchema),
+  disagreements: z.array(z.object({
+    topic: z.string().min(1, 'Disagreement topic cannot be empty'),
+    statements: z.array(answerClaimSchema).min(2, 'A disagreement needs at least two statements'),
+  })).default([]),
+  followUpQuestions: z.array(z.string()).default([]),
+});
+
+// Sub-queries requested from the model when planning a search
+export const queryPlanSchema = z.object({
+  subQueries: z.array(z.object({
+    query: z.string().trim().min(1, 'Sub-query cannot be empty').max(200),
+    purpose: z.string().optional(),
+  })).min(1, 'At least one sub-query is required'),
+});
+
+export const citedSourceSchema = searchResultSchema.extend({
+  citationNumber: z.number().int().min(1),
+  inPrompt: z.boolean().optional(),
+  cited: z.boolean().optional(),
 });
 
 export const aiResponseSchema = z.object({
   answer: z.string(),
-  sources: z.array(searchResultSchema),
+  structuredAnswer: structuredAnswerSchema.optional(),
+  sources: z.array(citedSourceSchema),
   followUpQuestions: z.array(z.string()),
   confidence: z.number().min(0).max(100),
   processingTime: z.number(),
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { limitRequest, rateLimitHeaders, requestApiKey } from '@/utils/rate-limit';
+
+// Per-address rate limits for the API routes listed in config.apiRateLimits
+export async function middleware(request: NextRequest) {
+  if (request.method === 'OPTIONS') return NextResponse.next();
+
+  // Requests with an API key are limited by the key's tier once the route has
+  // checked it, or by their address if the key turns out to be invalid
+  if (requestApiKey(request.headers)) return NextResponse.next();
+
+  const result = await limitRequest(request.nextUrl.pathname, request.headers);
+  if (!result) return NextResponse.next();
+
+  const headers = rateLimitHeaders(result);
+  if (!result.allowed) {
+    return NextResponse.json(
+      {
+        error: 'Rate limit exceeded',
+        details: `Too many requests to ${result.route}. Try again in ${result.retryAfter} seconds.`,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 429, headers }
+    );
+  }
+
+  const response = NextResponse.next();
+  Object.entries(headers).forEach(([name, value]) => response.headers.set(name, value));
+  return response;
+}
+
+export const config = {
+  matcher: '/api/:path*',
+};
@@ -0,0 +1,35 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface FixtureServer {
+  url: string;
+  requests: URL[]; // Every request received, in order
+  close(): Promise<void>;
+}
+
+// A local HTTP server on a free port for tests to point providers and fetchers at
+export async function startFixtureServer(handler: http.RequestListener): Promise<FixtureServer> {
+  const requests: URL[] = [];
+  const server = http.createServer((request, response) => {
+    requests.push(new URL(request.url || '/', 'http://localhost'));
+    handler(request, response);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+// Respond with JSON
+export function sendJson(response: http.ServerResponse, body: unknown, status = 200): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
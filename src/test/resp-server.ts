@@ -0,0 +1,111 @@
+import net from 'net';
+import { AddressInfo } from 'net';
+
+// Behaviour for the next command the server receives
+export type RespFault =
+  | { type: 'error'; message: string } // Reply with a RESP error
+  | { type: 'drop' } // Close the connection instead of replying
+  | { type: 'silent' }; // Never reply
+
+export interface RespServer {
+  url: string;
+  commands: string[][]; // Every command received, in order
+  connections: number; // Connections accepted so far
+  password?: string; // Required by AUTH when set
+  faults: RespFault[]; // Applied to the next commands, one each
+  close(): Promise<void>;
+}
+
+const bulk = (value: string) => `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+
+// Parse the commands in buffer, returning them and the bytes left unparsed
+function parseCommands(buffer: Buffer): [string[][], Buffer] {
+  const commands: string[][] = [];
+  let offset = 0;
+
+  parsing: while (offset < buffer.length) {
+    let lineEnd = buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) break;
+    const count = Number(buffer.toString('utf-8', offset + 1, lineEnd));
+    let position = lineEnd + 2;
+
+    const args: string[] = [];
+    for (let i = 0; i < count; i++) {
+      lineEnd = buffer.indexOf('\r\n', position);
+      if (lineEnd === -1) break parsing;
+      const length = Number(buffer.toString('utf-8', position + 1, lineEnd));
+      if (buffer.length < lineEnd + 2 + length + 2) break parsing;
+      args.push(buffer.toString('utf-8', lineEnd + 2, lineEnd + 2 + length));
+      position = lineEnd + 2 + length + 2;
+    }
+
+    commands.push(args);
+    offset = position;
+  }
+
+  return [commands, buffer.subarray(offset)];
+}
+
+// A minimal in-process Redis stand-in supporting AUTH, SELECT, GET, SET with EX and DEL
+export async function startRespServer(): Promise<RespServer> {
+  const data = new Map<string, { value: string; expiresAt: number }>();
+  const sockets = new Set<net.Socket>();
+
+  const reply = (args: string[]): string => {
+    const [name, key, value] = args;
+    switch (name.toUpperCase()) {
+      case 'AUTH':
+        return args[args.length - 1] === state.password ? '+OK\r\n' : '-WRONGPASS invalid username-password pair\r\n';
+      case 'SELECT':
+        return '+OK\r\n';
+      case 'GET': {
+        const entry = data.get(key);
+        return entry && entry.expiresAt > Date.now() ? bulk(entry.value) : '$-1\r\n';
+      }
+      case 'SET': {
+        const ex = args.findIndex(arg => arg.toUpperCase() === 'EX');
+        data.set(key, { value, expiresAt: ex === -1 ? Infinity : Date.now() + Number(args[ex + 1]) * 1000 });
+        return '+OK\r\n';
+      }
+      case 'DEL':
+        return `:${data.delete(key) ? 1 : 0}\r\n`;
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  };
+
+  const server = net.createServer(socket => {
+    state.connections++;
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+
+    let buffer: Buffer = Buffer.alloc(0);
+    socket.on('data', chunk => {
+      const [commands, rest] = parseCommands(Buffer.concat([buffer, chunk]));
+      buffer = rest;
+
+      for (const args of commands) {
+        state.commands.push(args);
+        const fault = state.faults.shift();
+        if (fault?.type === 'drop') return socket.destroy();
+        if (fault?.type === 'silent') continue;
+        socket.write(fault?.type === 'error' ? `-${fault.message}\r\n` : reply(args));
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const state: RespServer = {
+    url: `redis://127.0.0.1:${port}`,
+    commands: [],
+    connections: 0,
+    faults: [],
+    close: () => new Promise(resolve => {
+      sockets.forEach(socket => socket.destroy());
+      server.close(() => resolve());
+    }),
+  };
+  return state;
+}
@@ -0,0 +1,41 @@
+import { RouteRateLimit } from './rate-limit';
+
+// API keys: each key belongs to a tier that decides which routes it may call,
+// how fast and how long its answers may be. Only a hash of each key is stored.
+
+export interface ApiTier {
+  routes: string[]; // Path prefixes the tier may call, e.g. "/api/search"
+  rateLimit?: RouteRateLimit; // Per key and route; without one the route's default limit applies
+  maxAnswerWords?: number;
+}
+
+export interface ApiKeyRecord {
+  id: string; // e.g. "key_3f9a1c2b7d4e"
+  name: string; // Who or what the key was issued to
+  tier: string;
+  hash: string; // SHA-256 of the key, hex
+  prefix: string; // Start of the key, to recognise it in listings
+  createdAt: string;
+  revokedAt?: string;
+  lastUsedAt?: string;
+}
+
+// day (YYYY-MM-DD, UTC) -> route -> requests
+export type ApiKeyUsage = Record<string, Record<string, number>>;
+
+export interface ApiKeyStore {
+  id: string; // e.g. 'file', 'memory'
+  list(): Promise<ApiKeyRecord[]>;
+  findByHash(hash: string): Promise<ApiKeyRecord | undefined>;
+  add(record: ApiKeyRecord): Promise<void>;
+  revoke(id: string): Promise<boolean>; // false when there is no such key
+  recordUsage(id: string, route: string, day: string): Promise<void>;
+  usage(id: string): Promise<ApiKeyUsage>;
+}
+
+// Who is calling: a key and its tier, or the anonymous tier
+export interface ApiAccess {
+  key?: ApiKeyRecord;
+  tierId: string;
+  tier: ApiTier;
+}
@@ -0,0 +1,24 @@
+// Response caching: provider responses and final answers are stored as JSON
+// strings in a pluggable key-value store
+
+export interface CacheStore {
+  id: string; // e.g. 'memory', 'file', 'redis'
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export type CacheKind = 'provider' | 'answer' | 'similar';
+
+// What the cache did for one lookup. 'bypass' means caching is off or the
+// value wasn't cacheable; 'error' means the store failed and was skipped.
+export type CacheStatus = 'hit' | 'miss' | 'bypass' | 'error';
+
+export interface CacheOutcome {
+  status: CacheStatus;
+  store: string;
+  ttl?: number; // Seconds the value is kept, when it was stored or read
+  age?: number; // Seconds since a hit was stored
+  similarity?: number; // Set when the hit was the answer to a similar question
+  error?: string;
+}
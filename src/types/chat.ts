@@ -1,15 +1,22 @@
-import { SearchResult } from './search';
+import { CitationReport, CitedSource, ConfidenceBreakdown, ReusedAnswer, SourceDisagreement, SubQuery } from './search';
 
 export interface ChatMessage {
   id?: string;
   type: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: string | Date;
-  sources?: SearchResult[];
+  sources?: CitedSource[];
   followUpQuestions?: string[];
   confidence?: number;
+  confidenceBreakdown?: ConfidenceBreakdown;
   processingTime?: number;
   queryIntent?: string;
+  citations?: CitationReport;
+  disagreements?: SourceDisagreement[];
+  subQueries?: SubQuery[]; // Searches the query was split into
+  reusedFrom?: ReusedAnswer; // Set when a cached answer was served
+  isStreaming?: boolean; // Answer is still being received
+  isError?: boolean;
 }
 
 export interface ChatSession {
@@ -0,0 +1,35 @@
+// Language model backends used for answer synthesis
+
+export interface GenerateOptions {
+  maxOutputTokens?: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  responseFormat?: 'text' | 'json'; // json asks the backend for a single JSON object
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  id: string; // e.g. 'gemini', 'openai', 'ollama'
+  name: string;
+  model: string;
+  isConfigured(): boolean;
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+  stream(prompt: string, options?: GenerateOptions): AsyncIterable<string>;
+  countTokens(text: string): Promise<number>;
+}
+
+// One link of the model fallback chain. model defaults to the provider's configured model.
+export interface ModelChainEntry {
+  provider: string;
+  model?: string;
+  timeout: number; // ms allowed per attempt
+}
+
+export interface ModelAttempt {
+  provider: string;
+  model: string;
+  status: 'success' | 'failed' | 'skipped';
+  error?: string;
+  duration: number;
+}
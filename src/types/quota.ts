@@ -0,0 +1,41 @@
+// Quota accounting: requests to providers with a budget (config.rateLimits)
+// are counted per calendar window in a durable store
+
+export type QuotaPeriod = 'minute' | 'day' | 'month';
+
+export interface QuotaLimit {
+  requests: number;
+  period: QuotaPeriod;
+}
+
+// provider -> window (e.g. "2026-10" or "2026-10-19") -> requests counted
+export type QuotaUsage = Record<string, Record<string, number>>;
+
+export interface QuotaStore {
+  id: string; // e.g. 'file', 'memory'
+  read(): Promise<QuotaUsage>;
+  // Add one request to each window, unless `limit` requests are already
+  // counted in the first. Returns whether it was counted and the usage after.
+  increment(provider: string, windows: string[], limit?: number): Promise<{ counted: boolean; usage: QuotaUsage }>;
+}
+
+// 'warning' once usage passes the first warning threshold, 'low' once past
+// the routing reserve, when the provider is only used if nothing else is left
+export type QuotaState = 'ok' | 'warning' | 'low' | 'exhausted';
+
+export interface ProviderQuota {
+  provider: string;
+  limit: number;
+  period: QuotaPeriod;
+  window: string;
+  used: number;
+  remaining: number;
+  resetsAt: string; // ISO time the next window starts
+  state: QuotaState;
+}
+
+// Requests per provider on one day, for charting
+export interface DailyQuotaUsage {
+  date: string; // YYYY-MM-DD (UTC)
+  usage: Record<string, number>;
+}
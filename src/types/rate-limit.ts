@@ -0,0 +1,23 @@
+// Per-client rate limiting of API routes: each client gets a token bucket per
+// route that holds `requests` tokens and refills them evenly over `period`
+
+export type RateLimitPeriod = 'second' | 'minute' | 'hour' | 'day';
+
+export interface RouteRateLimit {
+  requests: number;
+  period: RateLimitPeriod;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number; // Whole tokens left after this request
+  retryAfter: number; // Seconds until a token is available; 0 when allowed
+  reset: number; // Seconds until the bucket is full again
+}
+
+export interface RateLimitStore {
+  id: string; // e.g. 'memory'
+  // Take one token from the client's bucket if it has one
+  take(key: string, limit: RouteRateLimit): Promise<RateLimitResult>;
+}
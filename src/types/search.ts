@@ -1,13 +1,30 @@
+import { CacheStatus } from './cache';
+
 export interface SearchResult {
   id: string;
   title: string;
   url: string;
   snippet: string;
-  source: 'brave' | 'serpapi';
+  content?: string; // Longer excerpt when the provider returns more than a snippet
+  source: string; // id of the SearchProvider that produced the result
   relevanceScore: number;
   publishedDate?: string;
   imageUrl?: string;
   domain?: string;
+  engines?: string[]; // Upstream engines for metasearch providers (e.g. SearXNG)
+  // Academic paper metadata
+  authors?: string[];
+  categories?: string[];
+  pdfUrl?: string;
+  subQueries?: string[]; // Sub-queries that found the result, when the query was split
+}
+
+// A result numbered for the whole request: [n] in the prompt, the answer and
+// the UI all refer to the source with citationNumber n
+export interface CitedSource extends SearchResult {
+  citationNumber: number;
+  inPrompt?: boolean; // Given to the model; false when it didn't fit the context budget
+  cited?: boolean; // The answer cites it; unset until the answer is known
 }
 
 export interface SearchQuery {
@@ -21,15 +38,143 @@ export interface SearchQuery {
   };
 }
 
+// One of the searches a complex query is split into
+export interface SubQuery {
+  query: string;
+  purpose?: string; // What the sub-query is meant to find out
+}
+
+// How a query is searched: as-is ('single'), or split by rules or by the model
+export interface QueryPlan {
+  subQueries: SubQuery[];
+  method: 'single' | 'rules' | 'llm';
+  error?: string; // Why planning fell back to a single search
+}
+
+// The answer as generated by the model, before it is rendered to Markdown.
+// Citations are 1-based numbers of the sources given in the prompt.
+export interface AnswerClaim {
+  text: string;
+  citations: number[];
+}
+
+export interface AnswerSection {
+  heading: string;
+  claims: AnswerClaim[];
+}
+
+// A fact the sources disagree on, with what each side says
+export interface SourceDisagreement {
+  topic: string;
+  statements: AnswerClaim[]; // At least two, citing different sources
+}
+
+export interface StructuredAnswer {
+  summary: string; // May cite sources inline as [n]
+  sections: AnswerSection[];
+  takeaways: AnswerClaim[];
+  disagreements: SourceDisagreement[]; // Only asked for on research and news queries
+  followUpQuestions: string[];
+}
+
+// How well the cited source backs up the sentence citing it
+export interface CitationCheck {
+  sentence: string;
+  citation: number; // Source number as written in the answer
+  inRange: boolean; // The source number exists
+  support: number; // 0-1 overlap between the sentence and the source's text
+  passage?: string; // The part of the source that best matches the sentence
+  status: 'supported' | 'weak' | 'unsupported' | 'invalid';
+}
+
+export interface CitationReport {
+  checks: CitationCheck[];
+  supportedCount: number;
+  weakCount: number;
+  unsupportedCount: number;
+  invalidCount: number;
+  averageSupport: number; // Over citations that are in range
+}
+
+export type ConfidenceFactorId = 'result_quality' | 'citation_coverage' | 'citation_support' | 'source_agreement' | 'generation';
+
+// One input to the answer's confidence score, each scored 0-100
+export interface ConfidenceFactor {
+  id: ConfidenceFactorId;
+  label: string;
+  score: number;
+  weight: number; // Share of the overall score, weights sum to 1
+  detail: string;
+}
+
+export interface ConfidenceBreakdown {
+  score: number;
+  factors: ConfidenceFactor[];
+  capped?: string; // Why the score was capped below the weighted sum
+}
+
+// A cached answer served in place of a new one
+export interface ReusedAnswer {
+  query: string; // The question the answer was written for
+  similarity: number; // 1 when it was the same question
+  age: number; // Seconds since the answer was written
+}
+
 export interface AIResponse {
-  answer: string;
-  sources: SearchResult[];
+  answer: string; // Markdown rendered from structuredAnswer when generation succeeded
+  structuredAnswer?: StructuredAnswer;
+  disagreements?: SourceDisagreement[];
+  subQueries?: SubQuery[]; // Set when the query was split into several searches
+  citations?: CitationReport;
+  sources: CitedSource[];
   followUpQuestions: string[];
   confidence: number;
+  confidenceBreakdown?: ConfidenceBreakdown;
+  reusedFrom?: ReusedAnswer;
   processingTime: number;
   queryIntent: string;
 }
 
+export type PipelineStage = 'intent' | 'plan' | 'search' | 'merge' | 'content_fetch' | 'generation' | 'postprocess';
+
+// One step of the search pipeline starting or finishing. Search events carry
+// the provider they belong to; the stage without a provider covers all of them.
+export interface PipelineProgressEvent {
+  stage: PipelineStage;
+  status: 'started' | 'completed' | 'failed';
+  elapsed: number; // ms since the request started
+  duration?: number; // ms the stage took, once finished
+  provider?: string;
+  label?: string;
+  resultsCount?: number;
+  error?: string;
+}
+
+// Payloads of the Server-Sent Events sent by /api/search/stream, in order
+export interface SearchStreamEvents {
+  progress: PipelineProgressEvent; // Sent throughout
+  plan: QueryPlan; // Sent before searching
+  sources: { sources: CitedSource[]; queryIntent: string }; // Sent again once the prompt sources are known
+  token: { text: string }; // Markdown rendered from the partial answer
+  // Final answer, replaces the streamed text. sources are flagged with whether the answer cites them.
+  answer: {
+    answer: string;
+    structuredAnswer: StructuredAnswer;
+    citations: CitationReport;
+    sources: CitedSource[];
+    reusedFrom?: ReusedAnswer;
+  };
+  followups: { followUpQuestions: string[] };
+  done: {
+    processingTime: number;
+    confidence: number;
+    confidenceBreakdown: ConfidenceBreakdown;
+    queryIntent: string;
+    debug?: Record<string, unknown>;
+  };
+  error: { error: string; details?: string };
+}
+
 export interface SearchPerformance {
   totalTime: number;
   searchTime: number;
@@ -45,4 +190,40 @@ export interface SearchApiResponse {
   source: string;
   success: boolean;
   error?: string;
+  cache?: CacheStatus; // Whether the response came from the response cache
 }
+
+export interface SearchProviderCapabilities {
+  timeRange: boolean;
+  language: boolean;
+  region: boolean;
+  maxResults: number;
+}
+
+// Provider-specific request parameters, e.g. { tbm: 'nws' } for SerpAPI news
+export type ProviderParams = Record<string, string | number | boolean>;
+
+export interface SearchOptions {
+  intent?: SearchQuery['intent'];
+  maxResults?: number;
+  filters?: SearchQuery['filters'];
+  params?: ProviderParams;
+}
+
+export interface SearchProvider {
+  id: string;
+  name: string;
+  capabilities: SearchProviderCapabilities;
+  weight?: number; // Source weight used by the result merger (0-100)
+  isConfigured(): boolean;
+  search(query: string, options: SearchOptions, signal?: AbortSignal): Promise<SearchApiResponse>;
+}
+
+// One entry of an intent's route: which provider to call and how
+export interface ProviderRoute {
+  provider: string;
+  params?: ProviderParams;
+  sites?: string[]; // Restrict the query to these sites with site: operators
+}
+
+export type SearchRoutingTable = Record<SearchQuery['intent'], ProviderRoute[]>;
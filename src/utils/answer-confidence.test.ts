@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { CitationCheck, CitationReport, ConfidenceBreakdown } from '@/types/search';
+import { assessAnswerConfidence } from './answer-confidence';
+
+const check = (sentence: string, citation: number, status: CitationCheck['status']): CitationCheck => ({
+  sentence,
+  citation,
+  inRange: status !== 'invalid',
+  support: { supported: 0.8, weak: 0.3, unsupported: 0.1, invalid: 0 }[status],
+  status,
+});
+
+function report(checks: CitationCheck[]): CitationReport {
+  const count = (status: CitationCheck['status']) => checks.filter(c => c.status === status).length;
+  return {
+    checks,
+    supportedCount: count('supported'),
+    weakCount: count('weak'),
+    unsupportedCount: count('unsupported'),
+    invalidCount: count('invalid'),
+    averageSupport: 0.5,
+  };
+}
+
+const factor = (breakdown: ConfidenceBreakdown, id: string) => breakdown.factors.find(f => f.id === id)!;
+
+const ANSWER = 'The tower is very tall [1]. It opened in 1889 [1][2]. Many people visit every year.';
+
+describe('assessAnswerConfidence', () => {
+  it('weights each factor into the score', () => {
+    const breakdown = assessAnswerConfidence({
+      resultQuality: 80,
+      answer: ANSWER,
+      citations: report([
+        check('The tower is very tall', 1, 'supported'),
+        check('It opened in 1889', 1, 'supported'),
+        check('It opened in 1889', 2, 'weak'),
+      ]),
+      usedFallback: false,
+    });
+
+    expect(breakdown.factors.map(({ id, score }) => [id, score])).toEqual([
+      ['result_quality', 80],
+      ['citation_coverage', 67],
+      ['citation_support', 83],
+      ['source_agreement', 100],
+      ['generation', 100],
+    ]);
+    expect(breakdown.factors.reduce((sum, f) => sum + f.weight, 0)).toBeCloseTo(1);
+    expect(breakdown.score).toBe(Math.round(80 * 0.25 + 67 * 0.2 + 83 * 0.3 + 100 * 0.1 + 100 * 0.15));
+    expect(breakdown.capped).toBeUndefined();
+  });
+
+  it('is neutral on agreement when no claim cites several sources, and penalises disagreements', () => {
+    const citations = report([check('The tower is very tall', 1, 'supported')]);
+
+    expect(factor(assessAnswerConfidence({ resultQuality: 50, answer: ANSWER, citations, usedFallback: false }), 'source_agreement').score).toBe(50);
+
+    const disagreeing = factor(assessAnswerConfidence({ resultQuality: 50, answer: ANSWER, citations, usedFallback: false, disagreements: 1 }), 'source_agreement');
+    expect(disagreeing).toMatchObject({ score: 25, detail: expect.stringContaining('sources disagree on 1 fact') });
+  });
+
+  it('counts a claim cited to several sources as corroborated only when more than one backs it', () => {
+    const breakdown = assessAnswerConfidence({
+      resultQuality: 50,
+      answer: ANSWER,
+      citations: report([check('It opened in 1889', 1, 'supported'), check('It opened in 1889', 2, 'unsupported')]),
+      usedFallback: false,
+    });
+
+    expect(factor(breakdown, 'source_agreement').score).toBe(0);
+  });
+
+  it('lowers the generation score for each repair, to no less than 40', () => {
+    const generation = (repairs: number) =>
+      factor(assessAnswerConfidence({ resultQuality: 50, answer: ANSWER, usedFallback: false, repairs }), 'generation').score;
+
+    expect([0, 1, 2, 5].map(generation)).toEqual([100, 80, 60, 40]);
+  });
+
+  it('caps the score of fallback text', () => {
+    const breakdown = assessAnswerConfidence({ resultQuality: 100, answer: ANSWER, usedFallback: true });
+
+    expect(breakdown).toMatchObject({ score: 20, capped: 'No answer was generated' });
+    expect(factor(breakdown, 'generation').score).toBe(0);
+    expect(factor(breakdown, 'citation_support')).toMatchObject({ score: 0, detail: 'No citations to check' });
+  });
+});
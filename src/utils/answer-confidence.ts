@@ -0,0 +1,131 @@
+import { CitationReport, ConfidenceBreakdown, ConfidenceFactor, ConfidenceFactorId } from '@/types/search';
+import { measureCitationCoverage } from '@/utils/citation-verifier';
+
+// Confidence in a generated answer, combining how good the search results
+// were with how well the answer is grounded in them
+
+export interface AnswerConfidenceInput {
+  resultQuality: number; // 0-100, from assessResultQuality
+  answer: string; // Markdown shown to the user
+  citations?: CitationReport; // Missing when no answer was generated
+  usedFallback: boolean; // Generation failed and canned text was shown instead
+  repairs?: number; // Extra generations needed for a valid answer
+  disagreements?: number; // Facts the answer reports the sources disagree on
+}
+
+const WEIGHTS: Record<ConfidenceFactorId, number> = {
+  result_quality: 0.25,
+  citation_coverage: 0.2,
+  citation_support: 0.3,
+  source_agreement: 0.1,
+  generation: 0.15,
+};
+
+// Fallback text only points at the sources, so it never looks trustworthy
+const FALLBACK_CAP = 20;
+
+const percent = (part: number, total: number) => total > 0 ? Math.round(part / total * 100) : 0;
+
+// Each fact the sources disagree on costs this much of the agreement score
+const DISAGREEMENT_PENALTY = 25;
+
+// Claims backed by two or more sources that each support them count as
+// corroborated; claims cited to a single source are neutral
+function scoreCorroboration(citations?: CitationReport): Pick<ConfidenceFactor, 'score' | 'detail'> {
+  const bySentence = new Map<string, Set<number>>();
+  const supportingBySentence = new Map<string, Set<number>>();
+
+  for (const check of citations?.checks || []) {
+    if (!bySentence.has(check.sentence)) {
+      bySentence.set(check.sentence, new Set());
+      supportingBySentence.set(check.sentence, new Set());
+    }
+    bySentence.get(check.sentence)!.add(check.citation);
+    if (check.status === 'supported' || check.status === 'weak') {
+      supportingBySentence.get(check.sentence)!.add(check.citation);
+    }
+  }
+
+  const multiSourced = Array.from(bySentence.keys()).filter(sentence => bySentence.get(sentence)!.size > 1);
+  if (multiSourced.length === 0) {
+    return { score: 50, detail: 'No claim is cited to more than one source' };
+  }
+
+  const corroborated = multiSourced.filter(sentence => supportingBySentence.get(sentence)!.size > 1).length;
+  return {
+    score: percent(corroborated, multiSourced.length),
+    detail: `${corroborated} of ${multiSourced.length} claims cited to several sources are backed by more than one`,
+  };
+}
+
+function scoreAgreement(citations: CitationReport | undefined, disagreements: number): Pick<ConfidenceFactor, 'score' | 'detail'> {
+  const corroboration = scoreCorroboration(citations);
+  if (disagreements === 0) return corroboration;
+
+  return {
+    score: Math.max(corroboration.score - disagreements * DISAGREEMENT_PENALTY, 0),
+    detail: `${corroboration.detail}; sources disagree on ${disagreements} ${disagreements === 1 ? 'fact' : 'facts'}`,
+  };
+}
+
+export function assessAnswerConfidence({
+  resultQuality,
+  answer,
+  citations,
+  usedFallback,
+  repairs = 0,
+  disagreements = 0,
+}: AnswerConfidenceInput): ConfidenceBreakdown {
+  const coverage = measureCitationCoverage(answer);
+  const checks = citations?.checks.length || 0;
+  const supported = citations?.supportedCount || 0;
+  const weak = citations?.weakCount || 0;
+
+  const factors: ConfidenceFactor[] = [
+    {
+      id: 'result_quality',
+      label: 'Search results',
+      score: Math.round(resultQuality),
+      weight: WEIGHTS.result_quality,
+      detail: `Results rated ${Math.round(resultQuality)}% for relevance, diversity and freshness`,
+    },
+    {
+      id: 'citation_coverage',
+      label: 'Citation coverage',
+      score: percent(coverage.citedSentences, coverage.sentences),
+      weight: WEIGHTS.citation_coverage,
+      detail: `${coverage.citedSentences} of ${coverage.sentences} sentences cite a source`,
+    },
+    {
+      id: 'citation_support',
+      label: 'Citation support',
+      score: percent(supported + weak / 2, checks),
+      weight: WEIGHTS.citation_support,
+      detail: checks > 0
+        ? `${supported} supported, ${weak} weakly supported, ${checks - supported - weak} not found in their source`
+        : 'No citations to check',
+    },
+    {
+      id: 'source_agreement',
+      label: 'Source agreement',
+      weight: WEIGHTS.source_agreement,
+      ...scoreAgreement(citations, disagreements),
+    },
+    {
+      id: 'generation',
+      label: 'Answer generation',
+      score: usedFallback ? 0 : Math.max(100 - repairs * 20, 40),
+      weight: WEIGHTS.generation,
+      detail: usedFallback
+        ? 'The model failed to answer; fallback text is shown'
+        : repairs > 0 ? `Needed ${repairs} ${repairs === 1 ? 'retry' : 'retries'} to produce a valid answer` : 'Valid on the first attempt',
+    },
+  ];
+
+  const weighted = Math.round(factors.reduce((sum, factor) => sum + factor.score * factor.weight, 0));
+
+  if (usedFallback && weighted > FALLBACK_CAP) {
+    return { score: FALLBACK_CAP, factors, capped: 'No answer was generated' };
+  }
+  return { score: weighted, factors };
+}
@@ -0,0 +1,134 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ApiKeyRecord } from '@/types/api-keys';
+import { withFileLock } from '@/utils/file-lock';
+import { createFileApiKeyStore } from './file-store';
+import { hashApiKey } from './index';
+
+const run = promisify(execFile);
+const CLI = path.resolve('scripts/api-keys.mjs');
+
+const record = (id: string): ApiKeyRecord => ({
+  id,
+  name: `Service ${id}`,
+  tier: 'standard',
+  hash: `hash-${id}`,
+  prefix: 'eva_test',
+  createdAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('createFileApiKeyStore', () => {
+  let dir: string;
+  let file: string;
+  let usageFile: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'api-keys-'));
+    file = path.join(dir, 'api-keys.json');
+    usageFile = path.join(dir, 'api-key-usage.json');
+  });
+
+  afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+  const cli = (...args: string[]) =>
+    run(process.execPath, [CLI, ...args], { env: { ...process.env, API_KEYS_FILE: file, API_KEYS_USAGE_FILE: usageFile } });
+
+  it('keeps usage out of the key file', async () => {
+    const store = createFileApiKeyStore({ file, usageFile });
+    await store.add(record('key_a'));
+    const keysBefore = await fs.readFile(file, 'utf-8');
+
+    await store.recordUsage('key_a', '/api/search', '2026-10-19');
+    await store.recordUsage('key_a', '/api/search', '2026-10-19');
+
+    expect(await fs.readFile(file, 'utf-8')).toBe(keysBefore);
+    expect(await store.usage('key_a')).toEqual({ '2026-10-19': { '/api/search': 2 } });
+    expect((await store.list())[0].lastUsedAt).toEqual(expect.any(String));
+    expect((await fs.stat(file)).mode & 0o777).toBe(0o600);
+  });
+
+  it('sees keys created and revoked by the CLI while recording usage', async () => {
+    const store = createFileApiKeyStore({ file, usageFile });
+    await store.add(record('key_a'));
+
+    let recording = true;
+    const requests = (async () => {
+      let count = 0;
+      while (recording) {
+        await store.recordUsage('key_a', '/api/search', '2026-10-19');
+        count++;
+      }
+      return count;
+    })();
+
+    const created = await cli('create', 'Reports', '--tier', 'standard');
+    await cli('revoke', 'key_a');
+    recording = false;
+    const count = await requests;
+
+    const newId = created.stdout.match(/Created (key_[0-9a-f]+)/)![1];
+    const newKey = created.stdout.trim().split('\n').at(-1)!;
+    const keys = await store.list();
+
+    expect(keys.map(key => key.id)).toEqual(['key_a', newId]);
+    expect(keys[0].revokedAt).toEqual(expect.any(String));
+    expect(keys[1].hash).toBe(hashApiKey(newKey));
+    expect(await store.usage('key_a')).toEqual({ '2026-10-19': { '/api/search': count } });
+    await expect(fs.access(`${file}.lock`)).rejects.toThrow();
+  });
+
+  it('releases the lock when the CLI is asked for a key that does not exist', async () => {
+    await expect(cli('revoke', 'key_missing')).rejects.toMatchObject({ stderr: expect.stringContaining('No API key with id key_missing') });
+    await expect(fs.access(`${file}.lock`)).rejects.toThrow();
+  });
+
+  it('notices a key file replaced by another process', async () => {
+    const store = createFileApiKeyStore({ file, usageFile });
+    await store.add(record('key_a'));
+    expect(await store.findByHash('hash-key_a')).toBeDefined();
+
+    await fs.writeFile(file, JSON.stringify({ keys: [{ ...record('key_a'), revokedAt: '2026-10-19T00:00:00.000Z' }] }));
+    expect((await store.findByHash('hash-key_a'))?.revokedAt).toBe('2026-10-19T00:00:00.000Z');
+  });
+});
+
+describe('withFileLock', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-lock-'));
+  });
+
+  afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it('runs changes one at a time', async () => {
+    const file = path.join(dir, 'data.json');
+    const order: string[] = [];
+    const change = (name: string) => withFileLock(file, async () => {
+      order.push(`${name} start`);
+      await new Promise(resolve => setTimeout(resolve, 30));
+      order.push(`${name} end`);
+    });
+
+    await Promise.all([change('a'), change('b')]);
+
+    expect(order).toEqual(expect.arrayContaining(['a start', 'a end', 'b start', 'b end']));
+    expect(order[1]).toBe(`${order[0].split(' ')[0]} end`);
+  });
+
+  it('takes over a stale lock and times out on a live one', async () => {
+    const file = path.join(dir, 'data.json');
+    await fs.writeFile(`${file}.lock`, '');
+    const old = new Date(Date.now() - 60_000);
+    await fs.utimes(`${file}.lock`, old, old);
+
+    expect(await withFileLock(file, async () => 'ran')).toBe('ran');
+
+    await fs.writeFile(`${file}.lock`, '');
+    await expect(withFileLock(file, async () => 'ran', { timeout: 100 })).rejects.toThrow(/Timed out waiting/);
+  });
+});
@@ -0,0 +1,127 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ApiKeyRecord, ApiKeyStore, ApiKeyUsage } from '@/types/api-keys';
+import { withFileLock } from '@/utils/file-lock';
+
+export interface FileApiKeyStoreOptions {
+  file: string; // Key records, also changed by scripts/api-keys.mjs
+  usageFile: string; // Usage of each key, only changed by the server
+}
+
+// The files' layouts, shared with scripts/api-keys.mjs
+export interface ApiKeyFile {
+  keys: ApiKeyRecord[];
+}
+
+export interface ApiKeyUsageFile {
+  usage: Record<string, ApiKeyUsage>; // key id -> usage
+  lastUsedAt: Record<string, string>; // key id -> ISO time
+}
+
+async function readJson<T>(file: string): Promise<Partial<T>> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8')) as Partial<T>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+}
+
+// Write then rename so readers never see a partial file
+async function writeJson(file: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(data, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  await fs.rename(temp, file);
+}
+
+// Key records and their usage in two JSON files. Usage changes on every
+// request with a key, so it is kept apart and recording it never rewrites the
+// records. Every change holds the file's lock, which the CLI script takes too,
+// so changes from different processes can't overwrite each other.
+export function createFileApiKeyStore({ file, usageFile }: FileApiKeyStoreOptions): ApiKeyStore {
+  let cached: { ino: number; mtimeMs: number; size: number; keys: ApiKeyRecord[] } | undefined;
+  let usageQueue: Promise<unknown> = Promise.resolve();
+
+  // Every keyed request looks its key up, so the records are parsed again
+  // only when the file has been replaced or changed
+  const readKeys = async (): Promise<ApiKeyRecord[]> => {
+    let stat;
+    try {
+      stat = await fs.stat(file);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    if (cached?.ino !== stat.ino || cached.mtimeMs !== stat.mtimeMs || cached.size !== stat.size) {
+      const { keys = [] } = await readJson<ApiKeyFile>(file);
+      cached = { ino: stat.ino, mtimeMs: stat.mtimeMs, size: stat.size, keys };
+    }
+    return cached.keys.map(key => ({ ...key }));
+  };
+
+  const updateKeys = <T>(change: (data: ApiKeyFile) => T): Promise<T> =>
+    withFileLock(file, async () => {
+      const { keys = [] } = await readJson<ApiKeyFile>(file);
+      const data = { keys };
+      const value = change(data);
+      await writeJson(file, data);
+      return value;
+    });
+
+  const readUsage = async (): Promise<ApiKeyUsageFile> => {
+    const { usage = {}, lastUsedAt = {} } = await readJson<ApiKeyUsageFile>(usageFile);
+    return { usage, lastUsedAt };
+  };
+
+  // Changes within this process take turns rather than all waiting on the lock
+  const updateUsage = (change: (data: ApiKeyUsageFile) => void): Promise<void> => {
+    const result = usageQueue.then(() => withFileLock(usageFile, async () => {
+      const data = await readUsage();
+      change(data);
+      await writeJson(usageFile, data);
+    }));
+    usageQueue = result.catch(() => undefined); // A failed write doesn't block later ones
+    return result;
+  };
+
+  return {
+    id: 'file',
+
+    async list() {
+      const [keys, { lastUsedAt }] = await Promise.all([readKeys(), readUsage()]);
+      return keys.map(key => ({ ...key, lastUsedAt: lastUsedAt[key.id] ?? key.lastUsedAt }));
+    },
+
+    async findByHash(hash) {
+      return (await readKeys()).find(key => key.hash === hash);
+    },
+
+    async add(record) {
+      await updateKeys(data => {
+        data.keys.push(record);
+      });
+    },
+
+    revoke(id) {
+      return updateKeys(data => {
+        const key = data.keys.find(candidate => candidate.id === id);
+        if (key && !key.revokedAt) key.revokedAt = new Date().toISOString();
+        return Boolean(key);
+      });
+    },
+
+    async recordUsage(id, route, day) {
+      await updateUsage(data => {
+        const routes = (data.usage[id] ??= {})[day] ??= {};
+        routes[route] = (routes[route] || 0) + 1;
+        data.lastUsedAt[id] = new Date().toISOString();
+      });
+    },
+
+    async usage(id) {
+      return (await readUsage()).usage[id] || {};
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { createHash } from 'crypto';
+import { ApiAccess, ApiKeyStore, ApiTier } from '@/types/api-keys';
+import config from '@/lib/config';
+import { requestApiKey } from '@/utils/rate-limit';
+import { quotaWindow } from '@/utils/quota';
+import { createFileApiKeyStore } from './file-store';
+import { createMemoryApiKeyStore } from './memory-store';
+
+export { createFileApiKeyStore, createMemoryApiKeyStore };
+
+export const API_KEY_STORE_IDS = ['file', 'memory'] as const;
+
+export function createApiKeyStore(id: string = config.apiKeys.store): ApiKeyStore {
+  switch (id) {
+    case 'file':
+      return createFileApiKeyStore({ file: config.apiKeys.file, usageFile: config.apiKeys.usageFile });
+    case 'memory':
+      return createMemoryApiKeyStore();
+    default:
+      throw new Error(`Unknown API key store "${id}". Expected one of: ${API_KEY_STORE_IDS.join(', ')}`);
+  }
+}
+
+let store: ApiKeyStore | undefined;
+
+// Unlike the other stores there is no fallback: a misconfigured key store
+// fails keyed requests rather than accepting keys it can't check
+export function getApiKeyStore(): ApiKeyStore {
+  store ??= createApiKeyStore();
+  return store;
+}
+
+export function setApiKeyStore(next: ApiKeyStore): void {
+  store = next;
+}
+
+// Keys are long random strings, so a plain SHA-256 is enough to store them safely
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function tierAllows(tier: ApiTier, route: string): boolean {
+  return tier.routes.some(prefix => route === prefix || route.startsWith(`${prefix}/`));
+}
+
+export class ApiAccessError extends Error {
+  constructor(message: string, public status: 401 | 403) {
+    super(message);
+    this.name = 'ApiAccessError';
+  }
+}
+
+// Who is calling a route, from the API key in the request headers.
+// Throws ApiAccessError when the key is missing, invalid or not allowed there.
+export async function resolveApiAccess(headers: Headers, route: string): Promise<ApiAccess> {
+  const apiKey = requestApiKey(headers);
+
+  if (!apiKey) {
+    const tier = config.apiKeys.tiers.anonymous;
+    if (!tier || !tierAllows(tier, route)) throw new ApiAccessError(`An API key is required for ${route}`, 401);
+    return { tierId: 'anonymous', tier };
+  }
+
+  const key = await getApiKeyStore().findByHash(hashApiKey(apiKey));
+  if (!key || key.revokedAt) throw new ApiAccessError('Invalid or revoked API key', 401);
+
+  const tier = config.apiKeys.tiers[key.tier];
+  if (!tier) throw new ApiAccessError(`API key tier "${key.tier}" is not configured`, 403);
+  if (!tierAllows(tier, route)) throw new ApiAccessError(`API key tier "${key.tier}" can't use ${route}`, 403);
+
+  return { key, tierId: key.tier, tier };
+}
+
+// Count a request by a key against today's usage. Failures are logged only.
+export async function recordApiKeyUsage(access: ApiAccess, route: string): Promise<void> {
+  if (!access.key) return;
+
+  try {
+    await getApiKeyStore().recordUsage(access.key.id, route, quotaWindow('day'));
+  } catch (error) {
+    console.warn(`Recording usage of API key ${access.key.id} failed:`, error instanceof Error ? error.message : error);
+  }
+}
@@ -0,0 +1,42 @@
+import { ApiKeyRecord, ApiKeyStore, ApiKeyUsage } from '@/types/api-keys';
+
+// Keys held in process memory, for development and tests; they are lost on restart
+export function createMemoryApiKeyStore(initialKeys: ApiKeyRecord[] = []): ApiKeyStore {
+  const keys = initialKeys.map(key => ({ ...key }));
+  const usage: Record<string, ApiKeyUsage> = {};
+
+  return {
+    id: 'memory',
+
+    async list() {
+      return keys.map(key => ({ ...key }));
+    },
+
+    async findByHash(hash) {
+      const key = keys.find(candidate => candidate.hash === hash);
+      return key && { ...key };
+    },
+
+    async add(record) {
+      keys.push({ ...record });
+    },
+
+    async revoke(id) {
+      const key = keys.find(candidate => candidate.id === id);
+      if (key && !key.revokedAt) key.revokedAt = new Date().toISOString();
+      return Boolean(key);
+    },
+
+    async recordUsage(id, route, day) {
+      const routes = (usage[id] ??= {})[day] ??= {};
+      routes[route] = (routes[route] || 0) + 1;
+
+      const key = keys.find(candidate => candidate.id === id);
+      if (key) key.lastUsedAt = new Date().toISOString();
+    },
+
+    async usage(id) {
+      return structuredClone(usage[id] || {});
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { buildInvertedIndex, rankBM25, scoreBM25, stem, tokenize } from './bm25';
+
+const DOCUMENTS = [
+  'The solar panel converts sunlight into electricity.',
+  'Wind turbines generate electricity from wind. Wind farms are often offshore.',
+  'A recipe for bread: flour, water, salt and yeast.',
+  'Solar power and wind power are both renewable. Solar solar solar panels everywhere on every roof of every house in the town.',
+];
+
+describe('tokenize', () => {
+  it('lowercases, splits on punctuation and drops stop words and single characters', () => {
+    expect(tokenize('What is the GDP of Côte-d’Ivoire in 2023? A b')).toEqual(['gdp', 'côte', 'ivoire', '2023']);
+  });
+});
+
+describe('stem', () => {
+  it('strips common suffixes from longer words only', () => {
+    expect(stem('regulations')).toBe('regulation');
+    expect(stem('regulated')).toBe('regulat');
+    expect(stem('studies')).toBe('study');
+    expect(stem('bus')).toBe('bus');
+    expect(stem('1990s')).toBe('1990s');
+  });
+});
+
+describe('buildInvertedIndex', () => {
+  it('records term frequencies and document lengths', () => {
+    const index = buildInvertedIndex(DOCUMENTS);
+
+    expect(index.docCount).toBe(4);
+    expect(index.postings.wind).toEqual([[1, 3], [3, 1]]);
+    expect(index.docLengths[0]).toBe(5);
+    expect(index.avgDocLength).toBeCloseTo(index.docLengths.reduce((a, b) => a + b) / 4);
+  });
+
+  it('keeps terms that are also Object.prototype property names', () => {
+    const index = buildInvertedIndex(['the constructor of the class']);
+
+    expect(index.postings.constructor).toEqual([[0, 1]]);
+    expect(scoreBM25(buildInvertedIndex(['plain text']), 'constructor').size).toBe(0);
+  });
+});
+
+describe('rankBM25', () => {
+  const index = buildInvertedIndex(DOCUMENTS);
+
+  it('ranks only documents containing a query term, best first', () => {
+    const ranked = rankBM25(index, 'wind electricity');
+
+    expect(ranked.map(([doc]) => doc)).toEqual([1, 0, 3]);
+    expect(ranked[0][1]).toBeGreaterThan(ranked[1][1]);
+  });
+
+  it('favours a short document over a long one with the same term', () => {
+    const ranked = rankBM25(buildInvertedIndex([
+      'Electricity prices rose sharply during the long cold winter across northern Europe and beyond.',
+      'Electricity prices rose.',
+    ]), 'electricity');
+
+    expect(ranked.map(([doc]) => doc)).toEqual([1, 0]);
+  });
+
+  it('weights rare terms above common ones', () => {
+    const scores = scoreBM25(buildInvertedIndex(['common rare', 'common', 'common', 'common']), ['common', 'rare']);
+    expect(scores.get(0)).toBeGreaterThan(2 * scores.get(1)!);
+  });
+
+  it('honours the limit and accepts pre-tokenized queries', () => {
+    expect(rankBM25(index, ['solar', 'wind'], 1)).toHaveLength(1);
+    expect(rankBM25(index, 'the of and')).toEqual([]);
+  });
+});
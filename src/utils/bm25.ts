@@ -0,0 +1,105 @@
+// Okapi BM25 ranking over an inverted index
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'of', 'on', 'or', 'that',
+  'the', 'their', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'were', 'what',
+  'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+export interface InvertedIndex {
+  docCount: number;
+  avgDocLength: number;
+  docLengths: number[];
+  // term -> list of [docIndex, termFrequency]
+  postings: Record<string, [number, number][]>;
+}
+
+export interface BM25Options {
+  k1?: number;
+  b?: number;
+}
+
+// Lowercase, split on non-alphanumerics and drop stop words
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+// Crude suffix stripping so "regulations" matches "regulation" and "regulated"
+export function stem(token: string): string {
+  if (token.length <= 4 || /\d/.test(token)) return token;
+  return token
+    .replace(/ies$/, 'y')
+    .replace(/(?:ing|ed|es|ly|s)$/, '');
+}
+
+export function buildInvertedIndex(documents: string[]): InvertedIndex {
+  const postings: Record<string, [number, number][]> = {};
+  const docLengths: number[] = [];
+
+  documents.forEach((text, docIndex) => {
+    const tokens = tokenize(text);
+    docLengths.push(tokens.length);
+
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+
+    frequencies.forEach((tf, term) => {
+      if (!Object.prototype.hasOwnProperty.call(postings, term)) {
+        postings[term] = [];
+      }
+      postings[term].push([docIndex, tf]);
+    });
+  });
+
+  const totalLength = docLengths.reduce((sum, len) => sum + len, 0);
+
+  return {
+    docCount: documents.length,
+    avgDocLength: documents.length > 0 ? totalLength / documents.length : 0,
+    docLengths,
+    postings,
+  };
+}
+
+// Score every document containing at least one query term
+export function scoreBM25(
+  index: InvertedIndex,
+  query: string | string[],
+  { k1 = 1.2, b = 0.75 }: BM25Options = {}
+): Map<number, number> {
+  const scores = new Map<number, number>();
+  const terms = [...new Set(Array.isArray(query) ? query : tokenize(query))];
+
+  for (const term of terms) {
+    if (!Object.prototype.hasOwnProperty.call(index.postings, term)) continue;
+
+    const termPostings = index.postings[term];
+    const idf = Math.log(1 + (index.docCount - termPostings.length + 0.5) / (termPostings.length + 0.5));
+
+    for (const [docIndex, tf] of termPostings) {
+      const lengthNorm = index.avgDocLength > 0 ? index.docLengths[docIndex] / index.avgDocLength : 1;
+      const termScore = idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * lengthNorm));
+      scores.set(docIndex, (scores.get(docIndex) || 0) + termScore);
+    }
+  }
+
+  return scores;
+}
+
+// Convenience wrapper returning [docIndex, score] pairs, best first
+export function rankBM25(
+  index: InvertedIndex,
+  query: string | string[],
+  limit: number = 10,
+  options?: BM25Options
+): [number, number][] {
+  return Array.from(scoreBM25(index, query, options).entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit);
+}
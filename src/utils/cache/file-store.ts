@@ -0,0 +1,55 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { CacheStore } from '@/types/cache';
+
+export interface FileStoreOptions {
+  dir: string;
+}
+
+interface FileEntry {
+  key: string;
+  value: string;
+  expiresAt: number;
+}
+
+// One JSON file per key, named by the key's hash. Survives restarts and is
+// shared by processes on the same machine; expired files are removed when read.
+export function createFileStore({ dir }: FileStoreOptions): CacheStore {
+  const fileFor = (key: string) => path.join(dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+  return {
+    id: 'file',
+
+    async get(key) {
+      let entry: FileEntry;
+      try {
+        entry = JSON.parse(await fs.readFile(fileFor(key), 'utf-8')) as FileEntry;
+      } catch {
+        return undefined; // Missing or half-written
+      }
+
+      if (entry.key !== key) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        await fs.rm(fileFor(key), { force: true });
+        return undefined;
+      }
+      return entry.value;
+    },
+
+    async set(key, value, ttlSeconds) {
+      await fs.mkdir(dir, { recursive: true });
+
+      // Write then rename so readers never see a partial file
+      const file = fileFor(key);
+      const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+      const entry: FileEntry = { key, value, expiresAt: Date.now() + ttlSeconds * 1000 };
+      await fs.writeFile(temp, JSON.stringify(entry), 'utf-8');
+      await fs.rename(temp, file);
+    },
+
+    async delete(key) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,149 @@
+import { createHash } from 'crypto';
+import { CacheKind, CacheOutcome, CacheStore } from '@/types/cache';
+import config from '@/lib/config';
+import { createMemoryStore } from './memory-store';
+import { createFileStore } from './file-store';
+import { createRedisStore } from './redis-store';
+
+export { createMemoryStore, createFileStore, createRedisStore };
+
+export const CACHE_STORE_IDS = ['memory', 'file', 'redis', 'none'] as const;
+
+// Bump when the shape of cached values changes so old entries are ignored
+const CACHE_VERSION = 2;
+
+// Build the store for an id using its settings from config; 'none' disables caching
+export function createCacheStore(id: string = config.cache.store): CacheStore | null {
+  switch (id) {
+    case 'memory':
+      return createMemoryStore({ maxEntries: config.cache.maxEntries });
+    case 'file':
+      return createFileStore({ dir: config.cache.dir });
+    case 'redis':
+      return createRedisStore({ url: config.cache.redisUrl, timeout: config.cache.redisTimeout });
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Unknown cache store "${id}". Expected one of: ${CACHE_STORE_IDS.join(', ')}`);
+  }
+}
+
+let store: CacheStore | null | undefined;
+
+// The store shared by every request, created on first use. A misconfigured
+// store disables caching rather than failing requests.
+export function getCacheStore(): CacheStore | null {
+  if (store === undefined) {
+    try {
+      store = config.features.enableCaching ? createCacheStore() : null;
+    } catch (error) {
+      console.warn('Caching disabled:', error instanceof Error ? error.message : error);
+      store = null;
+    }
+  }
+  return store;
+}
+
+export function setCacheStore(next: CacheStore | null): void {
+  store = next;
+}
+
+// Case, spacing and trailing punctuation don't change what is searched for
+export function normalizeQuery(query: string): string {
+  return query
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[\s?!.]+$/, '')
+    .trim();
+}
+
+// JSON with object keys sorted, so equal filters always give equal keys
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export interface CacheKeyParts {
+  query: string;
+  providers: string[]; // Provider ids; order doesn't matter
+  filters?: object;
+  [part: string]: unknown; // Anything else the cached value depends on
+}
+
+export function buildCacheKey(kind: CacheKind, { query, providers, ...parts }: CacheKeyParts): string {
+  const digest = createHash('sha256')
+    .update(stableStringify({ ...parts, query: normalizeQuery(query), providers: [...providers].sort() }))
+    .digest('hex');
+  return `v${CACHE_VERSION}:${kind}:${digest}`;
+}
+
+// Seconds to keep a response for a query of this intent
+export function cacheTTL(intent: string = 'general'): number {
+  return config.cache.ttl[intent] ?? config.cache.ttl.general;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  ttl: number;
+}
+
+const describeError = (error: unknown) => error instanceof Error ? error.message : 'Unknown error';
+
+// A failing store is reported and treated as a miss; it never fails the request
+export async function readCache<T>(key: string): Promise<{ value?: T; outcome: CacheOutcome }> {
+  const cache = getCacheStore();
+  if (!cache) return { outcome: { status: 'bypass', store: 'none' } };
+
+  try {
+    const raw = await cache.get(key);
+    if (raw === undefined) return { outcome: { status: 'miss', store: cache.id } };
+
+    const entry = JSON.parse(raw) as CacheEntry<T>;
+    return {
+      value: entry.value,
+      outcome: { status: 'hit', store: cache.id, ttl: entry.ttl, age: Math.round((Date.now() - entry.storedAt) / 1000) },
+    };
+  } catch (error) {
+    console.warn(`Cache read from ${cache.id} failed:`, describeError(error));
+    return { outcome: { status: 'error', store: cache.id, error: describeError(error) } };
+  }
+}
+
+export async function writeCache<T>(key: string, value: T, ttl: number): Promise<CacheOutcome> {
+  const cache = getCacheStore();
+  if (!cache || ttl <= 0) return { status: 'bypass', store: cache?.id || 'none' };
+
+  try {
+    const entry: CacheEntry<T> = { value, storedAt: Date.now(), ttl };
+    await cache.set(key, JSON.stringify(entry), ttl);
+    return { status: 'miss', store: cache.id, ttl };
+  } catch (error) {
+    console.warn(`Cache write to ${cache.id} failed:`, describeError(error));
+    return { status: 'error', store: cache.id, error: describeError(error) };
+  }
+}
+
+// Serve from the cache, or compute and store the value when isCacheable allows
+export async function withCache<T>(
+  key: string,
+  ttl: number,
+  compute: () => Promise<T>,
+  isCacheable: (value: T) => boolean = () => true
+): Promise<{ value: T; outcome: CacheOutcome }> {
+  const cached = await readCache<T>(key);
+  if (cached.value !== undefined) return { value: cached.value, outcome: cached.outcome };
+
+  const value = await compute();
+  if (cached.outcome.status !== 'miss') return { value, outcome: cached.outcome };
+  if (!isCacheable(value)) return { value, outcome: { ...cached.outcome, status: 'bypass' } };
+  return { value, outcome: await writeCache(key, value, ttl) };
+}
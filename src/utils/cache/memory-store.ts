@@ -0,0 +1,46 @@
+import { CacheStore } from '@/types/cache';
+
+export interface MemoryStoreOptions {
+  maxEntries: number;
+}
+
+interface MemoryEntry {
+  value: string;
+  expiresAt: number;
+}
+
+// Least-recently-used cache in process memory. A Map iterates in insertion
+// order, so re-inserting an entry on each read keeps the oldest one first.
+export function createMemoryStore({ maxEntries }: MemoryStoreOptions): CacheStore {
+  const entries = new Map<string, MemoryEntry>();
+
+  return {
+    id: 'memory',
+
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    async set(key, value, ttlSeconds) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RespServer, startRespServer } from '@/test/resp-server';
+import { createRedisStore } from './redis-store';
+
+describe('createRedisStore', () => {
+  let server: RespServer;
+
+  beforeEach(async () => {
+    server = await startRespServer();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await server.close();
+  });
+
+  const createStore = (url = server.url, timeout = 500) => createRedisStore({ url, timeout, keyPrefix: 'test:' });
+
+  it('stores values under the key prefix with a TTL in whole seconds', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = createStore();
+
+    await store.set('answer', 'ünïcode value\r\nwith a line break', 60);
+    await store.set('brief', 'short-lived', 0.2);
+
+    expect(await store.get('answer')).toBe('ünïcode value\r\nwith a line break');
+    expect(server.commands).toContainEqual(['SET', 'test:answer', 'ünïcode value\r\nwith a line break', 'EX', '60']);
+    expect(server.commands).toContainEqual(['SET', 'test:brief', 'short-lived', 'EX', '1']);
+
+    vi.setSystemTime(Date.now() + 61_000);
+    expect(await store.get('answer')).toBeUndefined();
+  });
+
+  it('reads a nil reply as a miss and deletes keys', async () => {
+    const store = createStore();
+
+    expect(await store.get('missing')).toBeUndefined();
+    await store.set('key', 'value', 60);
+    await store.delete('key');
+    expect(await store.get('key')).toBeUndefined();
+    expect(server.commands.at(-2)).toEqual(['DEL', 'test:key']);
+  });
+
+  it('authenticates and selects the database from the URL on connecting', async () => {
+    server.password = 's3cret';
+    const store = createStore(server.url.replace('redis://', 'redis://app:s3cret@') + '/2');
+
+    await store.set('key', 'value', 60);
+
+    expect(server.commands.slice(0, 2)).toEqual([['AUTH', 'app', 's3cret'], ['SELECT', '2']]);
+  });
+
+  it('rejects with the error reply and keeps the connection', async () => {
+    const store = createStore();
+    server.faults.push({ type: 'error', message: 'WRONGTYPE Operation against a key holding the wrong kind of value' });
+
+    await expect(store.get('key')).rejects.toThrow(/^WRONGTYPE/);
+    await store.set('key', 'value', 60);
+    expect(await store.get('key')).toBe('value');
+    expect(server.connections).toBe(1);
+  });
+
+  it('fails the command when authentication fails and tries again on the next one', async () => {
+    server.password = 'right';
+    const store = createStore(server.url.replace('redis://', 'redis://:wrong@'));
+
+    await expect(store.get('key')).rejects.toThrow(/^WRONGPASS/);
+
+    server.password = 'wrong';
+    expect(await store.get('key')).toBeUndefined();
+    expect(server.connections).toBe(2);
+  });
+
+  it('fails pending commands when the connection drops and reconnects for the next one', async () => {
+    const store = createStore();
+    await store.set('key', 'value', 60);
+    server.faults.push({ type: 'drop' });
+
+    await expect(store.get('key')).rejects.toThrow('Redis connection closed');
+    expect(await store.get('key')).toBe('value');
+    expect(server.connections).toBe(2);
+  });
+
+  it('times out a command that gets no reply and starts over on a new connection', async () => {
+    const store = createStore(server.url, 100);
+    await store.set('key', 'value', 60);
+    server.faults.push({ type: 'silent' });
+
+    await expect(store.get('key')).rejects.toThrow('Redis GET timed out after 100ms');
+    // The late reply of the timed out GET can't be taken for this one's
+    expect(await store.get('key')).toBe('value');
+    expect(server.connections).toBe(2);
+  });
+
+  it('fails when nothing is listening', async () => {
+    await server.close();
+    await expect(createStore().get('key')).rejects.toThrow(/ECONNREFUSED/);
+  });
+});
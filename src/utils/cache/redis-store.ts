@@ -0,0 +1,173 @@
+import net from 'net';
+import tls from 'tls';
+import { CacheStore } from '@/types/cache';
+
+export interface RedisStoreOptions {
+  url: string; // redis://[user:password@]host:port[/db], or rediss:// for TLS
+  timeout: number; // ms allowed per command, including connecting
+  keyPrefix?: string;
+}
+
+type RespValue = string | number | null | Error | RespValue[];
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+// Commands are sent as RESP arrays of bulk strings
+const encodeCommand = (args: string[]) =>
+  `*${args.length}\r\n${args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('')}`;
+
+// Parse one reply starting at offset. Returns the value and the offset after
+// it, or null when the buffer doesn't hold the whole reply yet.
+function parseReply(buffer: Buffer, offset: number): [RespValue, number] | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf-8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return [line, next];
+    case '-':
+      return [new Error(line), next];
+    case ':':
+      return [Number(line), next];
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return [null, next];
+      if (buffer.length < next + length + 2) return null;
+      return [buffer.toString('utf-8', next, next + length), next + length + 2];
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return [null, next];
+
+      const items: RespValue[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return null;
+        items.push(item[0]);
+        position = item[1];
+      }
+      return [items, position];
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type "${type}"`);
+  }
+}
+
+// Minimal client for anything speaking the Redis protocol (Redis, Valkey,
+// KeyDB, Dragonfly), using GET, SET with EX and DEL. One connection is opened
+// on first use and reopened after it fails.
+export function createRedisStore({ url, timeout, keyPrefix = 'evasearch:' }: RedisStoreOptions): CacheStore {
+  const target = new URL(url);
+  const secure = target.protocol === 'rediss:';
+  const host = target.hostname || 'localhost';
+  const port = parseInt(target.port) || 6379;
+  const username = decodeURIComponent(target.username);
+  const password = decodeURIComponent(target.password);
+  const db = target.pathname.replace(/^\//, '');
+
+  let socket: net.Socket | null = null;
+  let ready: Promise<void> | null = null;
+  let buffer = Buffer.alloc(0);
+  const pending: PendingReply[] = [];
+
+  const fail = (error: Error) => {
+    socket?.destroy();
+    socket = null;
+    ready = null;
+    buffer = Buffer.alloc(0);
+    pending.splice(0).forEach(reply => reply.reject(error));
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    try {
+      let parsed = parseReply(buffer, 0);
+      while (parsed) {
+        const [value, next] = parsed;
+        buffer = buffer.subarray(next);
+        pending.shift()?.resolve(value);
+        parsed = buffer.length > 0 ? parseReply(buffer, 0) : null;
+      }
+    } catch (error) {
+      fail(error instanceof Error ? error : new Error('Invalid Redis reply'));
+    }
+  };
+
+  const send = (args: string[]) => new Promise<RespValue>((resolve, reject) => {
+    if (!socket) return reject(new Error('Redis connection is closed'));
+    pending.push({ resolve, reject });
+    socket.write(encodeCommand(args));
+  }).then(reply => {
+    if (reply instanceof Error) throw reply;
+    return reply;
+  });
+
+  const connect = () => {
+    ready ??= new Promise<void>((resolve, reject) => {
+      const connection = secure
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+      socket = connection;
+
+      // Events from a connection that has since been replaced are ignored
+      const current = () => socket === connection;
+      connection.once(secure ? 'secureConnect' : 'connect', () => resolve());
+      connection.on('data', chunk => current() && onData(chunk));
+      connection.on('error', error => {
+        reject(error);
+        if (current()) fail(error);
+      });
+      connection.on('close', () => current() && fail(new Error('Redis connection closed')));
+    }).then(async () => {
+      if (password) await send(username ? ['AUTH', username, password] : ['AUTH', password]);
+      if (db) await send(['SELECT', db]);
+    }).catch(error => {
+      fail(error); // Try again on the next command
+      throw error;
+    });
+    return ready;
+  };
+
+  // A command that times out leaves its reply unread, so the connection is dropped
+  const command = async (args: string[]): Promise<RespValue> => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(`Redis ${args[0]} timed out after ${timeout}ms`);
+        fail(error);
+        reject(error);
+      }, timeout);
+    });
+
+    try {
+      return await Promise.race([connect().then(() => send(args)), deadline]);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  return {
+    id: 'redis',
+
+    async get(key) {
+      const value = await command(['GET', keyPrefix + key]);
+      return typeof value === 'string' ? value : undefined;
+    },
+
+    async set(key, value, ttlSeconds) {
+      await command(['SET', keyPrefix + key, value, 'EX', String(Math.max(1, Math.round(ttlSeconds)))]);
+    },
+
+    async delete(key) {
+      await command(['DEL', keyPrefix + key]);
+    },
+  };
+}
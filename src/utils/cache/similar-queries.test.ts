@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import config from '@/lib/config';
+import { CacheStore } from '@/types/cache';
+import { createMemoryStore, setCacheStore } from './index';
+import { findSimilarQuery, querySimilarity, rememberQuery } from './similar-queries';
+
+describe('querySimilarity', () => {
+  it('matches rephrasings of the same question', () => {
+    expect(querySimilarity('What is a vaccine?', 'Explain vaccines to me')).toBe(1);
+    expect(querySimilarity('tell me about solar panel efficiency', 'solar panels efficiency')).toBe(1);
+  });
+
+  it('scores partly overlapping questions by their shared terms', () => {
+    expect(querySimilarity('solar panel efficiency', 'solar panel cost')).toBeCloseTo(2 / 4);
+    expect(querySimilarity('solar panel efficiency', 'wind turbine noise')).toBe(0);
+  });
+
+  it('never matches questions naming different numbers', () => {
+    expect(querySimilarity('best laptops 2023', 'best laptops 2024')).toBe(0);
+    expect(querySimilarity('python 3 release notes', 'python 2 release notes')).toBe(0);
+    expect(querySimilarity('iphone 15 price', 'iphone 15 price')).toBe(1);
+    expect(querySimilarity('gdp growth 2.5% forecast', 'gdp growth forecast')).toBe(0);
+  });
+
+  it('never matches directional questions asked the other way round', () => {
+    expect(querySimilarity('convert usd to eur', 'convert eur to usd')).toBe(0);
+    expect(querySimilarity('flights from london to paris', 'flights from paris to london')).toBe(0);
+    expect(querySimilarity('convert usd to eur', 'usd to eur conversion')).toBeGreaterThan(0);
+  });
+
+  it('does not match questions made only of filler', () => {
+    expect(querySimilarity('tell me', 'tell me')).toBe(0);
+  });
+});
+
+describe('similar query index', () => {
+  const maxEntries = config.semanticCache.maxEntries;
+  let store: CacheStore;
+
+  beforeEach(() => {
+    store = createMemoryStore({ maxEntries: 100 });
+    setCacheStore(store);
+    config.semanticCache.maxEntries = 3;
+  });
+
+  afterEach(() => {
+    setCacheStore(null);
+    config.semanticCache.maxEntries = maxEntries;
+    vi.useRealTimers();
+  });
+
+  it('finds the most similar remembered question above the threshold', async () => {
+    await rememberQuery('index', 'solar panel cost', 'key-cost', 60);
+    await rememberQuery('index', 'solar panel efficiency explained', 'key-efficiency', 60);
+
+    expect(await findSimilarQuery('index', 'what is solar panel efficiency', 0.5)).toEqual({
+      query: 'solar panel efficiency explained',
+      key: 'key-efficiency',
+      similarity: 0.75,
+    });
+    expect(await findSimilarQuery('index', 'wind turbine noise', 0.5)).toBeUndefined();
+    expect(await findSimilarQuery('other-index', 'solar panel cost', 0.5)).toBeUndefined();
+  });
+
+  it('replaces a question asked again and keeps only the newest entries', async () => {
+    await rememberQuery('index', 'solar panel cost', 'old', 60);
+    await rememberQuery('index', 'Solar  panel cost', 'new', 60);
+    expect((await findSimilarQuery('index', 'solar panel cost', 1))?.key).toBe('new');
+
+    for (const topic of ['wind', 'hydro', 'nuclear']) await rememberQuery('index', `${topic} power cost`, topic, 60);
+    expect(await findSimilarQuery('index', 'solar panel cost', 1)).toBeUndefined();
+    expect((await findSimilarQuery('index', 'nuclear power cost', 1))?.key).toBe('nuclear');
+  });
+
+  it('forgets questions whose answers have expired', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await rememberQuery('index', 'solar panel cost', 'short', 10);
+    await rememberQuery('index', 'wind power cost', 'long', 100);
+
+    vi.setSystemTime(Date.now() + 20_000);
+    expect(await findSimilarQuery('index', 'solar panel cost', 1)).toBeUndefined();
+    expect((await findSimilarQuery('index', 'wind power cost', 1))?.key).toBe('long');
+  });
+
+  it('treats a failing store as no match', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(store, 'get').mockRejectedValue(new Error('store down'));
+
+    expect(await findSimilarQuery('index', 'solar panel cost', 0.5)).toBeUndefined();
+  });
+});
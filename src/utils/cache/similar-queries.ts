@@ -0,0 +1,106 @@
+import { tokenize, stem } from '@/utils/bm25';
+import config from '@/lib/config';
+import { getCacheStore, normalizeQuery } from './index';
+
+// Words that change how a question is phrased but not what it asks for
+const FILLER_WORDS = new Set([
+  'about', 'can', 'could', 'define', 'definition', 'describe', 'did', 'do', 'does', 'explain',
+  'give', 'know', 'mean', 'meaning', 'my', 'need', 'please', 'should', 'show', 'tell', 'us',
+  'want', 'we', 'would',
+]);
+
+// Words whose meaning depends on the order of the terms around them, as in
+// "usd to eur" and "eur to usd"
+const DIRECTIONAL_PATTERN = /\b(?:to|from|into|than|before|after|over)\b/i;
+
+interface SimilarQueryEntry {
+  query: string;
+  key: string; // Cache key of the stored answer
+  expiresAt: number;
+}
+
+export interface SimilarQueryMatch {
+  query: string;
+  key: string;
+  similarity: number;
+}
+
+const describeError = (error: unknown) => error instanceof Error ? error.message : 'Unknown error';
+
+// Stemmed terms; a final "e" is dropped too so "vaccine" matches "vaccines"
+const termsOf = (query: string) => tokenize(query)
+  .filter(token => !FILLER_WORDS.has(token))
+  .map(token => stem(token).replace(/(?<=\p{L}{3})e$/u, ''));
+
+// Numbers are compared as written, including single digits that tokenize drops
+const numbersOf = (query: string) => [...new Set(query.match(/\d+(?:[.,]\d+)*/g) || [])].sort().join(' ');
+
+// Jaccard similarity of the two questions' stemmed terms, from 0 to 1.
+// Questions naming different numbers (years, versions, prices) never match,
+// nor do questions using the same terms in a different direction.
+export function querySimilarity(a: string, b: string): number {
+  if (numbersOf(a) !== numbersOf(b)) return 0;
+
+  const termsA = termsOf(a);
+  const termsB = termsOf(b);
+  const setA = new Set(termsA);
+  const setB = new Set(termsB);
+  if (setA.size === 0 || setB.size === 0) return 0;
+
+  if (DIRECTIONAL_PATTERN.test(a) || DIRECTIONAL_PATTERN.test(b)) {
+    const orderA = [...new Set(termsA.filter(term => setB.has(term)))];
+    const orderB = [...new Set(termsB.filter(term => setA.has(term)))];
+    if (orderA.join(' ') !== orderB.join(' ')) return 0;
+  }
+
+  const shared = [...setA].filter(term => setB.has(term)).length;
+  return shared / (setA.size + setB.size - shared);
+}
+
+async function readIndex(indexKey: string): Promise<SimilarQueryEntry[]> {
+  const raw = await getCacheStore()?.get(indexKey);
+  const entries = raw ? JSON.parse(raw) as SimilarQueryEntry[] : [];
+  return entries.filter(entry => entry.expiresAt > Date.now());
+}
+
+// The most similar question in the index that is at least `threshold` similar
+// and whose answer hasn't expired. Store failures count as no match.
+export async function findSimilarQuery(
+  indexKey: string,
+  query: string,
+  threshold: number = config.semanticCache.threshold
+): Promise<SimilarQueryMatch | undefined> {
+  try {
+    let best: SimilarQueryMatch | undefined;
+    for (const entry of await readIndex(indexKey)) {
+      const similarity = querySimilarity(query, entry.query);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { query: entry.query, key: entry.key, similarity };
+      }
+    }
+    return best;
+  } catch (error) {
+    console.warn('Similar query lookup failed:', describeError(error));
+    return undefined;
+  }
+}
+
+// Add a question to the index, keeping the newest entries. Requests writing at
+// the same time can drop each other's entry, which only costs a cache miss.
+export async function rememberQuery(indexKey: string, query: string, key: string, ttl: number): Promise<void> {
+  const cache = getCacheStore();
+  if (!cache || ttl <= 0) return;
+
+  try {
+    const normalized = normalizeQuery(query);
+    const entries = (await readIndex(indexKey))
+      .filter(entry => normalizeQuery(entry.query) !== normalized)
+      .concat({ query, key, expiresAt: Date.now() + ttl * 1000 })
+      .slice(-config.semanticCache.maxEntries);
+
+    const lastExpiry = Math.max(...entries.map(entry => entry.expiresAt));
+    await cache.set(indexKey, JSON.stringify(entries), Math.ceil((lastExpiry - Date.now()) / 1000));
+  } catch (error) {
+    console.warn(`Similar query index write to ${cache.id} failed:`, describeError(error));
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText } from './chunker';
+
+const words = (prefix: string, count: number) => Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(' ');
+
+describe('chunkText', () => {
+  it('keeps paragraphs together while they fit', () => {
+    const chunks = chunkText(`${words('a', 4)}\n\n${words('b', 4)}\n\n${words('c', 4)}`, { maxWords: 10, overlapWords: 0 });
+
+    expect(chunks.map(chunk => chunk.text)).toEqual([
+      `${words('a', 4)} ${words('b', 4)}`,
+      words('c', 4),
+    ]);
+    expect(chunks.map(chunk => chunk.index)).toEqual([0, 1]);
+    expect(chunks.map(chunk => chunk.wordCount)).toEqual([8, 4]);
+  });
+
+  it('splits a long paragraph on word boundaries with overlap', () => {
+    const chunks = chunkText(words('w', 25), { maxWords: 10, overlapWords: 3 });
+
+    expect(chunks.map(chunk => chunk.text.split(' '))).toEqual([
+      ['w0', 'w1', 'w2', 'w3', 'w4', 'w5', 'w6', 'w7', 'w8', 'w9'],
+      ['w7', 'w8', 'w9', 'w10', 'w11', 'w12', 'w13', 'w14', 'w15', 'w16'],
+      ['w14', 'w15', 'w16', 'w17', 'w18', 'w19', 'w20', 'w21', 'w22', 'w23'],
+      ['w21', 'w22', 'w23', 'w24'],
+    ]);
+  });
+
+  it('does not emit a chunk of overlap alone', () => {
+    const chunks = chunkText(words('w', 10), { maxWords: 10, overlapWords: 3 });
+    expect(chunks).toHaveLength(1);
+  });
+
+  it('carries each heading onto the chunks under it', () => {
+    const text = `Intro text here.\n# Installing\n${words('i', 12)}\n\n## Upgrading\n\nRun the upgrade.`;
+    const chunks = chunkText(text, { maxWords: 10, overlapWords: 0 });
+
+    expect(chunks.map(({ heading, wordCount }) => [heading, wordCount])).toEqual([
+      [undefined, 3],
+      ['Installing', 10],
+      ['Installing', 2],
+      ['Upgrading', 3],
+    ]);
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(chunkText(' \n\n \n')).toEqual([]);
+  });
+});
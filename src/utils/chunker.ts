@@ -0,0 +1,79 @@
+// Split long text into overlapping word-bounded chunks
+
+export interface TextChunk {
+  text: string;
+  index: number;
+  wordCount: number;
+  heading?: string;
+}
+
+export interface ChunkOptions {
+  maxWords?: number;
+  overlapWords?: number;
+}
+
+const HEADING_PATTERN = /^#{1,6}\s+(.+)$/;
+const HEADING_LINE_PATTERN = /^(#{1,6}\s+.+)$/gm;
+
+// Paragraphs are kept together where possible; a paragraph longer than
+// maxWords is split on word boundaries. Markdown headings are carried onto
+// the chunks that follow them.
+export function chunkText(text: string, { maxWords = 200, overlapWords = 30 }: ChunkOptions = {}): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  const paragraphs = text
+    .replace(HEADING_LINE_PATTERN, '\n\n$1\n\n') // Headings always stand alone
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean);
+
+  let currentWords: string[] = [];
+  let newWords = 0; // Words in currentWords that are not overlap from the previous chunk
+  let currentHeading: string | undefined;
+  let chunkHeading: string | undefined;
+
+  const flush = () => {
+    if (newWords === 0) return;
+
+    chunks.push({
+      text: currentWords.join(' '),
+      index: chunks.length,
+      wordCount: currentWords.length,
+      heading: chunkHeading,
+    });
+
+    // Carry the tail of the previous chunk over for context
+    currentWords = overlapWords > 0 ? currentWords.slice(-overlapWords) : [];
+    newWords = 0;
+    chunkHeading = currentHeading;
+  };
+
+  for (const paragraph of paragraphs) {
+    const headingMatch = paragraph.match(HEADING_PATTERN);
+    if (headingMatch) {
+      flush();
+      currentWords = [];
+      currentHeading = headingMatch[1].trim();
+      chunkHeading = currentHeading;
+      continue;
+    }
+
+    const words = paragraph.split(/\s+/);
+
+    // Start a new chunk rather than splitting a paragraph that would fit in one
+    if (currentWords.length + words.length > maxWords && words.length <= maxWords) {
+      flush();
+    }
+
+    for (const word of words) {
+      currentWords.push(word);
+      newWords++;
+      if (currentWords.length >= maxWords) {
+        flush();
+      }
+    }
+  }
+
+  flush();
+
+  return chunks;
+}
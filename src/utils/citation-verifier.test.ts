@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { SearchResult } from '@/types/search';
+import { extractCitedSentences, measureCitationCoverage, verifyCitations } from './citation-verifier';
+
+const source = (n: number, snippet: string, content?: string): SearchResult => ({
+  id: `source-${n}`,
+  title: `Source ${n}`,
+  url: `https://example${n}.com/`,
+  snippet,
+  content,
+  source: 'searxng',
+  relevanceScore: 50,
+});
+
+const SOURCES = [
+  source(1, 'The Eiffel Tower is 330 metres tall and was completed in 1889.'),
+  source(2, 'Paris hosts millions of visitors.', 'The Louvre is the most visited museum in the world, with 8.7 million visitors in 2023.'),
+];
+
+describe('extractCitedSentences', () => {
+  it('pairs each group of markers with the sentence before it', () => {
+    expect(extractCitedSentences('The tower is tall [1]. It opened in 1889. [1][2] Nothing cited here.')).toEqual([
+      { sentence: 'The tower is tall', citations: [1] },
+      { sentence: 'It opened in 1889.', citations: [1, 2] },
+    ]);
+  });
+
+  it('drops repeated numbers in a group and markers with nothing before them', () => {
+    expect(extractCitedSentences('Tall [1][1].\n[2] starts a line.\n- [2] starts an item')).toEqual([
+      { sentence: 'Tall', citations: [1] },
+    ]);
+  });
+
+  it('skips headings, inline code and everything from the Sources heading on', () => {
+    const markdown = '## Height [1]\n**Tall** use `a[2]` [1].\n\n### Sources\n[1] Source 1';
+    expect(extractCitedSentences(markdown)).toEqual([{ sentence: 'Tall use a', citations: [1] }]);
+  });
+
+  it('keeps link text and strips emphasis and list markers', () => {
+    expect(extractCitedSentences('1. See [the tower](https://x.org) for *details* [2]')).toEqual([
+      { sentence: 'See the tower for details', citations: [2] },
+    ]);
+  });
+});
+
+describe('measureCitationCoverage', () => {
+  it('counts sentences of three words or more and those with a citation', () => {
+    expect(measureCitationCoverage('The tower is tall [1]. It opened in 1889. [2] Short one. Nothing is cited here.\n# Heading words here')).toEqual({
+      sentences: 3,
+      citedSentences: 2,
+    });
+  });
+
+  it('ignores the sources list', () => {
+    expect(measureCitationCoverage('One cited sentence here [1].\n\n## Sources\n\n1. A source title here')).toEqual({
+      sentences: 1,
+      citedSentences: 1,
+    });
+  });
+});
+
+describe('verifyCitations', () => {
+  it('rates each citation by how much of the sentence its source says', () => {
+    const report = verifyCitations([
+      'The Eiffel Tower is 330 metres tall [1].',
+      'The Louvre had 8.7 million visitors in 2023 [2].',
+      'The Eiffel Tower is in Paris and is famous worldwide [1].',
+      'Bananas are rich in potassium [2].',
+    ].join(' '), SOURCES);
+
+    expect(report.checks.map(({ citation, status }) => [citation, status])).toEqual([
+      [1, 'supported'],
+      [2, 'supported'],
+      [1, 'weak'],
+      [2, 'unsupported'],
+    ]);
+    expect(report.checks[1].passage).toContain('8.7 million visitors');
+    expect(report).toMatchObject({ supportedCount: 2, weakCount: 1, unsupportedCount: 1, invalidCount: 0 });
+    expect(report.averageSupport).toBeGreaterThan(0);
+    expect(report.averageSupport).toBeLessThan(1);
+  });
+
+  it('marks citations of sources that do not exist as invalid', () => {
+    const report = verifyCitations('The tower is 330 metres tall [1][3]. It is made of iron [0].', SOURCES);
+
+    expect(report.checks.map(({ citation, inRange, status }) => [citation, inRange, status])).toEqual([
+      [1, true, 'supported'],
+      [3, false, 'invalid'],
+      [0, false, 'invalid'],
+    ]);
+    expect(report.invalidCount).toBe(2);
+  });
+
+  it('reports nothing for an answer without citations', () => {
+    expect(verifyCitations('No citations at all.', SOURCES)).toEqual({
+      checks: [],
+      supportedCount: 0,
+      weakCount: 0,
+      unsupportedCount: 0,
+      invalidCount: 0,
+      averageSupport: 0,
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { CitationCheck, CitationReport, SearchResult } from '@/types/search';
+import { tokenize, stem } from '@/utils/bm25';
+import { chunkText } from '@/utils/chunker';
+
+// Checks that each [n] in an answer points at a source that exists and that
+// the source's snippet or fetched text actually says what the sentence says
+
+const SUPPORTED_THRESHOLD = 0.5;
+const WEAK_THRESHOLD = 0.25;
+
+const CITATION_GROUP_PATTERN = /(?:\s*\[\d+\])+/g;
+const SOURCES_HEADING_PATTERN = /^#{1,6}\s+Sources\b/im;
+
+export interface CitedSentence {
+  sentence: string;
+  citations: number[];
+}
+
+const terms = (text: string) => tokenize(text).map(stem);
+
+const bigrams = (tokens: string[]) => tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`);
+
+// Markdown markup that would otherwise end up in sentences. [n] in inline
+// code isn't a citation, as rehype-citations also leaves code alone.
+const stripMarkdown = (line: string) => line
+  .replace(/^\s*(?:[-*+]|\d+\.)\s+/, '')
+  .replace(/`[^`]*`/g, code => code.replace(/\[\d+\]/g, ''))
+  .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+  .replace(/[*_`]/g, '');
+
+// Find every sentence followed by citation markers. Markers after the full
+// stop belong to the sentence before them, as in "It is fast. [2]".
+export function extractCitedSentences(markdown: string): CitedSentence[] {
+  const sourcesHeading = markdown.search(SOURCES_HEADING_PATTERN);
+  const body = sourcesHeading === -1 ? markdown : markdown.slice(0, sourcesHeading);
+  const cited: CitedSentence[] = [];
+
+  for (const rawLine of body.split('\n')) {
+    if (/^\s*#/.test(rawLine)) continue;
+    const line = stripMarkdown(rawLine);
+
+    let segmentStart = 0;
+    for (const match of line.matchAll(CITATION_GROUP_PATTERN)) {
+      const preceding = line.slice(segmentStart, match.index).trim();
+      segmentStart = (match.index ?? 0) + match[0].length;
+
+      const sentence = preceding.split(/(?<=[.!?])\s+/).pop() || '';
+      if (!sentence) continue;
+
+      const citations = Array.from(match[0].matchAll(/\[(\d+)\]/g), marker => Number(marker[1]));
+      cited.push({ sentence, citations: [...new Set(citations)] });
+    }
+  }
+
+  return cited;
+}
+
+export interface CitationCoverage {
+  sentences: number;
+  citedSentences: number;
+}
+
+// How many of the answer's sentences carry a citation. Headings and the
+// sources list are skipped, and fragments under three words don't count.
+export function measureCitationCoverage(markdown: string): CitationCoverage {
+  const sourcesHeading = markdown.search(SOURCES_HEADING_PATTERN);
+  const body = sourcesHeading === -1 ? markdown : markdown.slice(0, sourcesHeading);
+  let sentences = 0;
+  let citedSentences = 0;
+
+  for (const rawLine of body.split('\n')) {
+    if (/^\s*#/.test(rawLine)) continue;
+    let previousCounted = false;
+    let previousCited = false;
+
+    for (let segment of stripMarkdown(rawLine).split(/(?<=[.!?])\s+/)) {
+      // Markers opening a segment belong to the sentence before, as in "It is fast. [2]"
+      const leading = segment.match(/^(?:\s*\[\d+\])+/);
+      if (leading) {
+        if (previousCounted && !previousCited) citedSentences++;
+        segment = segment.slice(leading[0].length);
+      }
+
+      previousCounted = segment.trim().split(/\s+/).filter(Boolean).length >= 3;
+      previousCited = previousCounted && /\[\d+\]/.test(segment);
+      if (previousCounted) sentences++;
+      if (previousCited) citedSentences++;
+    }
+  }
+
+  return { sentences, citedSentences };
+}
+
+interface SourcePassageTerms {
+  text: string;
+  terms: Set<string>;
+  bigrams: Set<string>;
+}
+
+function toPassageTerms(result: SearchResult): SourcePassageTerms[] {
+  const text = [result.title, result.snippet, result.content].filter(Boolean).join('\n\n');
+  return chunkText(text, { maxWords: 80, overlapWords: 20 }).map(chunk => {
+    const tokens = terms(chunk.text);
+    return { text: chunk.text, terms: new Set(tokens), bigrams: new Set(bigrams(tokens)) };
+  });
+}
+
+// Share of the sentence's terms (weighted by rarity across all sources) and
+// word pairs found in the best matching passage of the source. Numbers count
+// double since a wrong figure is the most common unsupported claim.
+function scoreSupport(
+  sentence: string,
+  passages: SourcePassageTerms[],
+  documentFrequency: Map<string, number>,
+  passageCount: number
+): { support: number; passage?: string } {
+  const sentenceTerms = [...new Set(terms(sentence))];
+  if (sentenceTerms.length === 0 || passages.length === 0) return { support: 0 };
+
+  const weight = (term: string) =>
+    Math.log(1 + passageCount / (1 + (documentFrequency.get(term) || 0))) * (/\d/.test(term) ? 2 : 1);
+  const totalWeight = sentenceTerms.reduce((sum, term) => sum + weight(term), 0);
+  const sentenceBigrams = [...new Set(bigrams(terms(sentence)))];
+
+  let best = 0;
+  let bestPassage = passages[0];
+  for (const passage of passages) {
+    const termRecall = sentenceTerms
+      .filter(term => passage.terms.has(term))
+      .reduce((sum, term) => sum + weight(term), 0) / totalWeight;
+    const bigramRecall = sentenceBigrams.length > 0
+      ? sentenceBigrams.filter(pair => passage.bigrams.has(pair)).length / sentenceBigrams.length
+      : termRecall;
+
+    const score = 0.7 * termRecall + 0.3 * bigramRecall;
+    if (score > best) {
+      best = score;
+      bestPassage = passage;
+    }
+  }
+
+  return { support: Math.round(best * 100) / 100, passage: best > 0 ? bestPassage.text : undefined };
+}
+
+// sources are numbered as in the prompt: [1] is sources[0]
+export function verifyCitations(answer: string, sources: SearchResult[]): CitationReport {
+  const cited = extractCitedSentences(answer);
+
+  // Only sources that are actually cited need to be indexed
+  const passagesBySource = new Map<number, SourcePassageTerms[]>();
+  for (const { citations } of cited) {
+    for (const citation of citations) {
+      if (citation >= 1 && citation <= sources.length && !passagesBySource.has(citation)) {
+        passagesBySource.set(citation, toPassageTerms(sources[citation - 1]));
+      }
+    }
+  }
+
+  const documentFrequency = new Map<string, number>();
+  let passageCount = 0;
+  passagesBySource.forEach(passages => {
+    for (const passage of passages) {
+      passageCount++;
+      passage.terms.forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    }
+  });
+
+  const checks: CitationCheck[] = cited.flatMap(({ sentence, citations }) => citations.map(citation => {
+    const passages = passagesBySource.get(citation);
+    if (!passages) {
+      return { sentence, citation, inRange: false, support: 0, status: 'invalid' as const };
+    }
+
+    const { support, passage } = scoreSupport(sentence, passages, documentFrequency, passageCount);
+    const status = support >= SUPPORTED_THRESHOLD ? 'supported' as const
+      : support >= WEAK_THRESHOLD ? 'weak' as const
+      : 'unsupported' as const;
+    return { sentence, citation, inRange: true, support, status, passage };
+  }));
+
+  const inRange = checks.filter(check => check.inRange);
+
+  return {
+    checks,
+    supportedCount: checks.filter(check => check.status === 'supported').length,
+    weakCount: checks.filter(check => check.status === 'weak').length,
+    unsupportedCount: checks.filter(check => check.status === 'unsupported').length,
+    invalidCount: checks.length - inRange.length,
+    averageSupport: inRange.length > 0
+      ? Math.round(inRange.reduce((sum, check) => sum + check.support, 0) / inRange.length * 100) / 100
+      : 0,
+  };
+}
@@ -0,0 +1,100 @@
+import { htmlToText, extractHtmlTitle, decodeEntities } from '@/utils/html-to-text';
+
+// Readability-style main content extraction using regular expressions
+// (there is no DOM on the server)
+
+// Elements that never hold article text
+const BOILERPLATE_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'form', 'nav', 'header', 'footer', 'aside', 'button', 'select'];
+
+// class/id hints for page chrome
+const NEGATIVE_HINTS = /\b(comment|sidebar|footer|masthead|menu|nav|cookie|consent|banner|breadcrumb|share|social|related|promo|newsletter|subscribe|advert|ad-|sponsor|popup|modal)/i;
+
+const MIN_PARAGRAPH_CHARS = 40;
+const MAX_LINK_DENSITY = 0.5;
+
+export interface ExtractedContent {
+  title?: string;
+  text: string;
+}
+
+function stripElements(html: string, tags: string[]): string {
+  const pattern = new RegExp(`<(${tags.join('|')})\\b[^>]*>[\\s\\S]*?<\\/\\1>`, 'gi');
+  // Repeat for nested occurrences of the same tag
+  let previous: string;
+  do {
+    previous = html;
+    html = html.replace(pattern, ' ');
+  } while (html !== previous);
+  return html;
+}
+
+// Drop leaf-level blocks whose class or id marks them as page chrome
+function stripHintedBlocks(html: string): string {
+  return html.replace(
+    /<(div|section|ul|ol|p|span)\b([^>]*)>((?:(?!<\1\b)[\s\S])*?)<\/\1>/gi,
+    (match, _tag: string, attributes: string) => {
+      const hint = attributes.match(/\b(?:class|id)\s*=\s*["']([^"']*)["']/gi)?.join(' ') || '';
+      return NEGATIVE_HINTS.test(hint) ? ' ' : match;
+    }
+  );
+}
+
+// Prefer the largest <article> or <main> element when the page has one
+function findContentRoot(html: string): string {
+  for (const tag of ['article', 'main']) {
+    const matches = html.match(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, 'gi'));
+    if (matches && matches.length > 0) {
+      return matches.reduce((largest, current) => current.length > largest.length ? current : largest);
+    }
+  }
+
+  const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i);
+  return body ? body[1] : html;
+}
+
+function textOf(fragment: string): string {
+  return decodeEntities(fragment.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+// Collect headings and substantial, low-link-density text blocks in document order
+function extractBlocks(root: string): string[] {
+  const blocks: string[] = [];
+  const blockPattern = /<(h[1-6]|p|li|blockquote|pre|td)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = blockPattern.exec(root)) !== null) {
+    const [, tag, inner] = match;
+    const text = textOf(inner);
+    if (!text) continue;
+
+    if (/^h[1-6]$/i.test(tag)) {
+      blocks.push(`${'#'.repeat(Number(tag[1]))} ${text}`);
+      continue;
+    }
+
+    if (text.length < MIN_PARAGRAPH_CHARS) continue;
+
+    const linkText = (inner.match(/<a\b[^>]*>[\s\S]*?<\/a>/gi) || [])
+      .reduce((sum, link) => sum + textOf(link).length, 0);
+    if (linkText / text.length > MAX_LINK_DENSITY) continue;
+
+    blocks.push(tag.toLowerCase() === 'li' ? `- ${text}` : text);
+  }
+
+  // Headings with nothing after them are usually navigation
+  return blocks.filter((block, i) => !block.startsWith('#') || (i + 1 < blocks.length && !blocks[i + 1].startsWith('#')));
+}
+
+export function extractMainContent(html: string): ExtractedContent {
+  const title = extractHtmlTitle(html);
+  const cleaned = stripHintedBlocks(stripElements(html.replace(/<!--[\s\S]*?-->/g, ''), BOILERPLATE_ELEMENTS));
+  const root = findContentRoot(cleaned);
+
+  const blocks = extractBlocks(root);
+  const blockText = blocks.join('\n\n');
+
+  // Pages built from bare text or <div>s have few blocks; fall back to all text
+  const text = blockText.length >= 200 ? blockText : htmlToText(root);
+
+  return { title, text };
+}
@@ -0,0 +1,183 @@
+import dns from 'dns';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import config from '@/lib/config';
+import { SearchResult } from '@/types/search';
+import { FixtureServer, startFixtureServer } from '@/test/fixture-server';
+import { fetchResultContents, truncateExcerpt } from './content-fetcher';
+
+const ARTICLE_TEXT = 'Solar panels convert sunlight into electricity using photovoltaic cells made of silicon. '.repeat(6);
+
+const ARTICLE_PAGE = `<!doctype html>
+<html>
+  <head><title>Solar power</title><script>trackVisit();</script></head>
+  <body>
+    <nav><a href="/">Home</a> <a href="/about">About us and our many sponsors</a></nav>
+    <div class="cookie-banner">We use cookies to improve your experience on this website.</div>
+    <article>
+      <h1>How solar panels work</h1>
+      <p>${ARTICLE_TEXT}</p>
+    </article>
+    <footer>Copyright Example Energy. All rights reserved, every one of them.</footer>
+  </body>
+</html>`;
+
+function result(url: string, extra: Partial<SearchResult> = {}): SearchResult {
+  return { id: url, title: url, url, snippet: 'Snippet', source: 'test', relevanceScore: 50, ...extra };
+}
+
+describe('fetchResultContents', () => {
+  let server: FixtureServer;
+  let origin: string;
+
+  beforeAll(async () => {
+    server = await startFixtureServer((request, response) => {
+      switch (request.url) {
+        case '/robots.txt':
+          response.writeHead(200, { 'Content-Type': 'text/plain' });
+          response.end('User-agent: *\nDisallow: /members\nAllow: /members/public\n\nUser-agent: EvaSearchBot\nDisallow: /bots-keep-out\n');
+          return;
+        case '/article':
+        case '/members/public':
+          response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+          response.end(ARTICLE_PAGE);
+          return;
+        case '/plain':
+          response.writeHead(200, { 'Content-Type': 'text/plain' });
+          response.end(ARTICLE_TEXT);
+          return;
+        case '/report.pdf':
+          response.writeHead(200, { 'Content-Type': 'application/pdf' });
+          response.end('%PDF-1.7');
+          return;
+        case '/huge':
+          response.writeHead(200, { 'Content-Type': 'text/html' });
+          response.end(`<p>${'x'.repeat(64 * 1024)}</p>`);
+          return;
+        case '/slow':
+          return; // Never answers
+        case '/redirect-localhost':
+          response.writeHead(302, { Location: `${origin.replace('127.0.0.1', 'localhost')}/article` });
+          response.end();
+          return;
+        case '/redirect-mapped':
+          response.writeHead(302, { Location: `${origin.replace('127.0.0.1', '[::ffff:7f00:1]')}/article` });
+          response.end();
+          return;
+        case '/redirect-metadata':
+          response.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' });
+          response.end();
+          return;
+        case '/redirect-article':
+          response.writeHead(301, { Location: '/article' });
+          response.end();
+          return;
+        default:
+          response.writeHead(404);
+          response.end();
+      }
+    });
+    origin = server.url;
+  });
+
+  afterAll(() => server.close());
+
+  // The fixture server is on a loopback address, which only an allowed host may use
+  beforeEach(() => {
+    config.contentFetch.allowedHosts = ['127.0.0.1'];
+  });
+
+  const fetchOne = async (url: string, options = {}) => {
+    const target = result(url);
+    const [outcome] = await fetchResultContents([target], { timeout: 2000, ...options });
+    return { outcome, content: target.content };
+  };
+
+  it('extracts the article text without navigation, banners or footers', async () => {
+    const { outcome, content } = await fetchOne(`${origin}/article`);
+
+    expect(outcome).toMatchObject({ status: 'ok' });
+    expect(content).toContain('How solar panels work');
+    expect(content).toContain('photovoltaic cells');
+    expect(content).not.toMatch(/About us|cookies|Copyright|trackVisit/);
+    expect(outcome.chars).toBe(content?.length);
+  });
+
+  it('keeps plain text as it is and cuts long excerpts', async () => {
+    const { outcome, content } = await fetchOne(`${origin}/plain`, { maxExcerptChars: 300 });
+
+    expect(outcome.status).toBe('ok');
+    expect(content).toBe(truncateExcerpt(ARTICLE_TEXT.trim(), 300));
+    expect(content!.length).toBeLessThanOrEqual(300);
+  });
+
+  it('follows robots.txt, preferring the group for its own product token', async () => {
+    expect((await fetchOne(`${origin}/bots-keep-out`)).outcome).toMatchObject({ status: 'blocked', reason: 'robots.txt' });
+    // Only the EvaSearchBot group applies, so the wildcard group's rules don't
+    expect((await fetchOne(`${origin}/members/public`)).outcome.status).toBe('ok');
+    expect((await fetchOne(`${origin}/members`)).outcome.status).not.toBe('blocked');
+  });
+
+  it('refuses pages over the size cap', async () => {
+    const { outcome, content } = await fetchOne(`${origin}/huge`, { maxBytes: 16 * 1024 });
+
+    expect(outcome.status).toBe('error');
+    expect(outcome.reason).toMatch(/maxContentLength/);
+    expect(content).toBeUndefined();
+  });
+
+  it('refuses content types other than HTML and plain text', async () => {
+    const { outcome } = await fetchOne(`${origin}/report.pdf`);
+    expect(outcome).toMatchObject({ status: 'error', reason: 'Unsupported content type application/pdf' });
+  });
+
+  it('gives up on slow pages after the timeout', async () => {
+    const { outcome } = await fetchOne(`${origin}/slow`, { timeout: 300 });
+
+    expect(outcome).toMatchObject({ status: 'error', reason: 'timeout' });
+    expect(outcome.processingTime).toBeLessThan(2000);
+  });
+
+  it('follows redirects to public hosts', async () => {
+    expect((await fetchOne(`${origin}/redirect-article`)).outcome.status).toBe('ok');
+  });
+
+  it.each(['/redirect-localhost', '/redirect-mapped', '/redirect-metadata'])('refuses %s to a private host', async path => {
+    const { outcome, content } = await fetchOne(`${origin}${path}`);
+
+    expect(outcome.status).toBe('error');
+    expect(outcome.reason).toMatch(/Refusing to fetch private host/);
+    expect(content).toBeUndefined();
+  });
+
+  it('refuses names that resolve to a private address', async () => {
+    const lookup = vi.spyOn(dns, 'lookup').mockImplementation(((_hostname: string, _options: unknown, callback: (error: null, addresses: dns.LookupAddress[]) => void) => {
+      callback(null, [{ address: '127.0.0.1', family: 4 }]);
+    }) as unknown as typeof dns.lookup);
+
+    const { outcome } = await fetchOne(`${origin.replace('127.0.0.1', 'news.example.com')}/article`);
+
+    expect(lookup).toHaveBeenCalled();
+    expect(outcome.status).toBe('error');
+    expect(outcome.reason).toBe('Refusing to fetch news.example.com: it resolves to private address 127.0.0.1');
+  });
+
+  it('skips private hosts, other protocols and results that already have content without fetching', async () => {
+    config.contentFetch.allowedHosts = [];
+    const requestsBefore = server.requests.length;
+
+    const outcomes = await fetchResultContents([
+      result(`${origin}/article`),
+      result('http://[::ffff:127.0.0.1]/article'),
+      result('ftp://example.com/file.txt'),
+      result('https://example.com/', { content: 'Already fetched' }),
+    ]);
+
+    expect(outcomes.map(outcome => [outcome.status, outcome.reason])).toEqual([
+      ['skipped', 'private host'],
+      ['skipped', 'private host'],
+      ['skipped', 'unsupported protocol'],
+      ['skipped', 'provider returned content'],
+    ]);
+    expect(server.requests.length).toBe(requestsBefore);
+  });
+});
@@ -0,0 +1,134 @@
+import axios from 'axios';
+import { SearchResult } from '@/types/search';
+import config from '@/lib/config';
+import { extractMainContent } from '@/utils/content-extractor';
+import { isAllowedByRobots } from '@/utils/robots';
+import { isPrivateHost, PUBLIC_ONLY_REQUEST } from '@/utils/private-hosts';
+
+const ROBOTS_PRODUCT_TOKEN = 'EvaSearchBot';
+const SUPPORTED_CONTENT_TYPES = ['text/html', 'application/xhtml+xml', 'text/plain'];
+const MIN_EXTRACTED_CHARS = 200;
+
+export type ContentFetchStatus = 'ok' | 'skipped' | 'blocked' | 'error';
+
+export interface ContentFetchOutcome {
+  url: string;
+  status: ContentFetchStatus;
+  reason?: string;
+  chars?: number;
+  processingTime: number;
+}
+
+export interface ContentFetchOptions {
+  maxPages?: number;
+  timeout?: number; // Per URL, covering robots.txt and the page itself
+  maxBytes?: number;
+  maxExcerptChars?: number;
+}
+
+function getSkipReason(result: SearchResult): string | null {
+  if (result.content) return 'provider returned content';
+
+  let url: URL;
+  try {
+    url = new URL(result.url);
+  } catch {
+    return 'invalid url';
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'unsupported protocol';
+  if (url.origin === new URL(config.appUrl).origin) return 'local document';
+  if (isPrivateHost(url.hostname)) return 'private host';
+
+  return null;
+}
+
+// Cut text to at most maxChars, preferring a paragraph or sentence boundary
+export function truncateExcerpt(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+
+  const slice = text.slice(0, maxChars);
+  const paragraphEnd = slice.lastIndexOf('\n\n');
+  if (paragraphEnd > maxChars * 0.6) return slice.slice(0, paragraphEnd).trim();
+
+  const sentenceEnd = Math.max(slice.lastIndexOf('. '), slice.lastIndexOf('.\n'));
+  if (sentenceEnd > maxChars * 0.6) return slice.slice(0, sentenceEnd + 1).trim();
+
+  return `${slice.trim()}…`;
+}
+
+async function fetchPageText(url: string, maxBytes: number, signal: AbortSignal): Promise<string> {
+  const response = await axios.get(url, {
+    headers: {
+      'User-Agent': config.contentFetch.userAgent,
+      'Accept': 'text/html,application/xhtml+xml,text/plain;q=0.9',
+    },
+    responseType: 'text',
+    maxContentLength: maxBytes,
+    maxRedirects: 3,
+    signal,
+    ...PUBLIC_ONLY_REQUEST,
+  });
+
+  const contentType = String(response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+  if (!SUPPORTED_CONTENT_TYPES.includes(contentType)) {
+    throw new Error(`Unsupported content type ${contentType || 'unknown'}`);
+  }
+
+  const body = String(response.data);
+  return contentType === 'text/plain' ? body : extractMainContent(body).text;
+}
+
+async function fetchResultContent(result: SearchResult, options: Required<ContentFetchOptions>): Promise<ContentFetchOutcome> {
+  const startTime = Date.now();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeout);
+
+  try {
+    const allowed = await isAllowedByRobots(result.url, {
+      productToken: ROBOTS_PRODUCT_TOKEN,
+      userAgent: config.contentFetch.userAgent,
+      signal: controller.signal,
+    });
+    if (!allowed) {
+      return { url: result.url, status: 'blocked', reason: 'robots.txt', processingTime: Date.now() - startTime };
+    }
+
+    const text = (await fetchPageText(result.url, options.maxBytes, controller.signal)).trim();
+    if (text.length < MIN_EXTRACTED_CHARS) {
+      return { url: result.url, status: 'skipped', reason: 'no article text', processingTime: Date.now() - startTime };
+    }
+
+    result.content = truncateExcerpt(text, options.maxExcerptChars);
+    return { url: result.url, status: 'ok', chars: result.content.length, processingTime: Date.now() - startTime };
+  } catch (error) {
+    const reason = controller.signal.aborted
+      ? 'timeout'
+      : error instanceof Error ? error.message : 'Unknown error';
+    return { url: result.url, status: 'error', reason, processingTime: Date.now() - startTime };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Download the top results in parallel and attach extracted page text as
+// result.content. Failures leave the result's snippet as the only text.
+export async function fetchResultContents(
+  results: SearchResult[],
+  {
+    maxPages = config.contentFetch.maxPages,
+    timeout = config.contentFetch.timeout,
+    maxBytes = config.contentFetch.maxBytes,
+    maxExcerptChars = config.contentFetch.maxExcerptChars,
+  }: ContentFetchOptions = {}
+): Promise<ContentFetchOutcome[]> {
+  const options = { maxPages, timeout, maxBytes, maxExcerptChars };
+
+  return Promise.all(results.slice(0, maxPages).map(result => {
+    const skipReason = getSkipReason(result);
+    if (skipReason) {
+      return Promise.resolve<ContentFetchOutcome>({ url: result.url, status: 'skipped', reason: skipReason, processingTime: 0 });
+    }
+    return fetchResultContent(result, options);
+  }));
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { SourcePassages } from '@/utils/passage-selector';
+import { findFactConflicts } from './contradiction-detector';
+
+const source = (n: number, ...passages: string[]): SourcePassages => ({
+  result: {
+    id: `source-${n}`,
+    title: `Source ${n}`,
+    url: `https://example${n}.com/`,
+    snippet: passages[0] || '',
+    source: 'searxng',
+    relevanceScore: 50,
+  },
+  passages,
+  tokens: 0,
+});
+
+describe('findFactConflicts', () => {
+  it('finds the same thing dated to different years', () => {
+    const conflicts = findFactConflicts([
+      source(1, 'The first iPhone was released by Apple in 2007 to huge crowds.'),
+      source(2, 'The first iPhone was released by Apple in 2008 to huge crowds.'),
+    ]);
+
+    expect(conflicts).toEqual([{
+      kind: 'date',
+      statements: [
+        { citation: 1, text: 'The first iPhone was released by Apple in 2007 to huge crowds.' },
+        { citation: 2, text: 'The first iPhone was released by Apple in 2008 to huge crowds.' },
+      ],
+    }]);
+  });
+
+  it('compares figures of the same unit, with scales and a small tolerance', () => {
+    const conflicting = findFactConflicts([
+      source(1, 'The global smartphone market shipped 1.2 billion units during the last year.'),
+      source(2, 'The global smartphone market shipped 900 million units during the last year.'),
+    ]);
+    expect(conflicting.map(conflict => conflict.kind)).toEqual(['number']);
+
+    expect(findFactConflicts([
+      source(1, 'The global smartphone market shipped 1.2 billion units during the last year.'),
+      source(2, 'The global smartphone market shipped 1,190 million units during the last year.'),
+    ])).toEqual([]);
+
+    expect(findFactConflicts([
+      source(1, 'The survey found that 40% of adults in the city cycle to work.'),
+      source(2, 'The survey found that 25 adults in the city cycle to work.'),
+    ])).toEqual([]);
+  });
+
+  it('finds one source denying what another asserts', () => {
+    const conflicts = findFactConflicts([
+      source(1, 'Drinking coffee every day causes dehydration in healthy adults.'),
+      source(2, 'Drinking coffee every day does not cause dehydration in healthy adults.'),
+    ]);
+
+    expect(conflicts.map(conflict => conflict.kind)).toEqual(['polarity']);
+  });
+
+  it('ignores sentences about different things and statements within one source', () => {
+    expect(findFactConflicts([
+      source(1, 'The first iPhone was released by Apple in 2007 to huge crowds.'),
+      source(2, 'The Great Fire of London destroyed much of the city in 1666.'),
+    ])).toEqual([]);
+
+    expect(findFactConflicts([
+      source(1, 'The first iPhone was released by Apple in 2007 to huge crowds.', 'The first iPhone was released by Apple in 2008 to huge crowds.'),
+    ])).toEqual([]);
+  });
+
+  it('keeps the most similar conflict for each pair of sources', () => {
+    const conflicts = findFactConflicts([
+      source(1, 'The first iPhone was released by Apple in 2007 to huge crowds. Apple sold the first iPhone for 499 dollars at launch.'),
+      source(2, 'The first iPhone was released by Apple in 2008 to huge crowds. Apple sold the first iPhone for 599 dollars at launch in stores.'),
+    ]);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].kind).toBe('date');
+  });
+});
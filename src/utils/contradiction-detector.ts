@@ -0,0 +1,163 @@
+import { tokenize } from '@/utils/bm25';
+import { SourcePassages } from '@/utils/passage-selector';
+import { QueryIntent } from '@/utils/prompt-engine';
+
+// Finds statements in different sources that look like they disagree on a
+// fact: a different figure or year for the same thing, or one source saying
+// something is so and another that it isn't. The matching is lexical, so the
+// conflicts are candidates for the model to check, not findings.
+
+// Intents where sources are compared for disagreements
+export const CONTRADICTION_INTENTS: ReadonlySet<QueryIntent> = new Set(['research', 'news']);
+
+const MAX_CONFLICTS = 5;
+
+// Statements need this much vocabulary in common to be about the same thing
+const FACT_SIMILARITY = 0.35;
+const POLARITY_SIMILARITY = 0.6;
+const MIN_SHARED_TERMS = 3;
+
+// Figures within this fraction of each other are treated as the same figure
+const NUMBER_TOLERANCE = 0.02;
+
+const NUMBER_PATTERN = /(\d[\d,]*(?:\.\d+)?)\s*(thousand|million|billion|trillion)?\s*(%|percent\b|[a-z]+)?/gi;
+const YEAR_PATTERN = /^(?:1[89]|20)\d{2}$/;
+const NEGATION_TERMS = new Set([
+  'not', 'no', 'never', 'none', 'nor', 'neither', 'isn', 'aren', 'wasn', 'weren', 'doesn', 'don',
+  'didn', 'cannot', 'false', 'denied', 'denies', 'myth', 'unproven',
+]);
+const SCALES: Record<string, number> = { thousand: 1e3, million: 1e6, billion: 1e9, trillion: 1e12 };
+
+export interface FactStatement {
+  citation: number; // Source number as in the prompt
+  text: string;
+}
+
+export interface FactConflict {
+  kind: 'number' | 'date' | 'polarity';
+  statements: [FactStatement, FactStatement];
+}
+
+interface Quantity {
+  value: number;
+  unit: string;
+}
+
+interface Fact {
+  citation: number;
+  sentence: string;
+  terms: Set<string>;
+  years: number[];
+  quantities: Quantity[];
+  negated: boolean;
+}
+
+function readValues(sentence: string): Pick<Fact, 'years' | 'quantities'> {
+  const years: number[] = [];
+  const quantities: Quantity[] = [];
+
+  for (const [, digits, scale, unit = ''] of sentence.matchAll(NUMBER_PATTERN)) {
+    const value = Number(digits.replace(/,/g, ''));
+    if (!Number.isFinite(value)) continue;
+
+    const normalizedUnit = unit.toLowerCase() === 'percent' ? '%' : unit.toLowerCase();
+    if (!scale && normalizedUnit !== '%' && YEAR_PATTERN.test(digits)) {
+      years.push(value);
+    } else {
+      quantities.push({ value: value * (scale ? SCALES[scale.toLowerCase()] : 1), unit: normalizedUnit });
+    }
+  }
+
+  return { years, quantities };
+}
+
+function toFacts({ passages, result }: SourcePassages, citation: number): Fact[] {
+  const text = passages.length > 0 ? passages.join(' ') : result.snippet;
+
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => {
+      const words = sentence.split(/\s+/).length;
+      return words >= 6 && words <= 60;
+    })
+    .map(sentence => {
+      const tokens = tokenize(sentence);
+      return {
+        citation,
+        sentence,
+        terms: new Set(tokens.filter(token => !/\d/.test(token) && !NEGATION_TERMS.has(token))),
+        negated: tokens.some(token => NEGATION_TERMS.has(token)),
+        ...readValues(sentence),
+      };
+    })
+    // A sentence listing many figures can't be matched figure for figure
+    .filter(fact => fact.years.length + fact.quantities.length <= 2);
+}
+
+function similarity(a: Set<string>, b: Set<string>): { shared: number; score: number } {
+  let shared = 0;
+  a.forEach(term => {
+    if (b.has(term)) shared++;
+  });
+  const union = a.size + b.size - shared;
+  return { shared, score: union > 0 ? shared / union : 0 };
+}
+
+const sameFigure = (a: number, b: number) => Math.abs(a - b) <= NUMBER_TOLERANCE * Math.max(Math.abs(a), Math.abs(b));
+
+function conflictKind(a: Fact, b: Fact, score: number): FactConflict['kind'] | null {
+  if (a.years.length > 0 && b.years.length > 0 && !a.years.some(year => b.years.includes(year))) {
+    return 'date';
+  }
+
+  // Only figures of the same unit are compared, "40%" against "25%" but not against "25 people"
+  const comparable = a.quantities.filter(qa => b.quantities.some(qb => qb.unit === qa.unit));
+  if (comparable.length > 0 && !comparable.some(qa =>
+    b.quantities.some(qb => qb.unit === qa.unit && sameFigure(qa.value, qb.value))
+  )) {
+    return 'number';
+  }
+
+  if (a.negated !== b.negated && score >= POLARITY_SIMILARITY) {
+    return 'polarity';
+  }
+  return null;
+}
+
+// The most similar conflicting pair for each pair of sources, best first
+export function findFactConflicts(sources: SourcePassages[]): FactConflict[] {
+  const facts = sources.flatMap((source, i) => toFacts(source, i + 1));
+  const bestByPair = new Map<string, FactConflict & { score: number }>();
+
+  for (let i = 0; i < facts.length; i++) {
+    for (let j = i + 1; j < facts.length; j++) {
+      const a = facts[i];
+      const b = facts[j];
+      if (a.citation === b.citation) continue;
+
+      const { shared, score } = similarity(a.terms, b.terms);
+      if (shared < MIN_SHARED_TERMS || score < FACT_SIMILARITY) continue;
+
+      const kind = conflictKind(a, b, score);
+      if (!kind) continue;
+
+      const pair = `${a.citation}:${b.citation}`;
+      if ((bestByPair.get(pair)?.score ?? 0) < score) {
+        bestByPair.set(pair, {
+          kind,
+          score,
+          statements: [
+            { citation: a.citation, text: a.sentence },
+            { citation: b.citation, text: b.sentence },
+          ],
+        });
+      }
+    }
+  }
+
+  return Array.from(bestByPair.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CONFLICTS)
+    .map(({ kind, statements }) => ({ kind, statements }));
+}
@@ -0,0 +1,115 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildCorpusIndex, extractDocument, isCorpusIndexStale, loadCorpusIndex, readCorpusIndex,
+  resolveCorpusPath, saveCorpusIndex, searchCorpus,
+} from './corpus-index';
+
+describe('extractDocument', () => {
+  it('takes the title from the first Markdown heading and strips markup', () => {
+    const { title, text } = extractDocument('notes/solar.md', '---\ntags: x\n---\n# Solar power\n\nSee **the** [guide](https://x.org) ![img](a.png) `now`.');
+
+    expect(title).toBe('Solar power');
+    expect(text).toBe('# Solar power\n\nSee the guide  now.');
+  });
+
+  it('uses the HTML title, or the file name when there is none', () => {
+    expect(extractDocument('page.html', '<html><head><title>Wind</title></head><body><p>Turbines</p></body></html>').title).toBe('Wind');
+    expect(extractDocument('pdf/annual_report-2023.txt', 'Page one\fPage two')).toEqual({
+      title: 'annual report 2023',
+      text: 'Page one\n\nPage two',
+    });
+  });
+});
+
+describe('corpus index', () => {
+  let root: string;
+  let indexPath: string;
+
+  const write = async (file: string, content: string) => {
+    await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+    await fs.writeFile(path.join(root, file), content);
+  };
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'corpus-'));
+    indexPath = path.join(root, '.cache', 'index.json');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await write('energy/solar.md', '# Solar power\n\nSolar panels turn sunlight into electricity.');
+    await write('energy/wind.html', '<title>Wind power</title><p>Wind turbines turn wind into electricity.</p>');
+    await write('recipes/bread.txt', 'Bread needs flour, water and yeast.');
+    await write('images/diagram.png', 'not text');
+    await write('.hidden/secret.md', 'Solar secrets');
+  });
+
+  afterEach(() => fs.rm(root, { recursive: true, force: true }));
+
+  it('indexes supported files and finds the best chunk per document', async () => {
+    const corpus = await buildCorpusIndex(root);
+
+    expect(corpus.documents.map(document => document.path)).toEqual(['energy/solar.md', 'energy/wind.html', 'recipes/bread.txt']);
+    expect(corpus.documents.map(document => document.title)).toEqual(['Solar power', 'Wind power', 'bread']);
+
+    const hits = searchCorpus(corpus, 'wind electricity');
+    expect(hits.map(hit => hit.document.path)).toEqual(['energy/wind.html', 'energy/solar.md']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+    expect(searchCorpus(corpus, 'electricity', 1)).toHaveLength(1);
+  });
+
+  it('saves and reads the index back, refusing other versions', async () => {
+    const corpus = await buildCorpusIndex(root);
+    await saveCorpusIndex(corpus, indexPath);
+
+    expect(await readCorpusIndex(indexPath)).toEqual(corpus);
+
+    await fs.writeFile(indexPath, JSON.stringify({ ...corpus, version: 0 }));
+    expect(await readCorpusIndex(indexPath)).toBeNull();
+    expect(await readCorpusIndex(path.join(root, 'missing.json'))).toBeNull();
+  });
+
+  it('is stale once a file is added, changed or removed', async () => {
+    const corpus = await buildCorpusIndex(root);
+    expect(await isCorpusIndexStale(corpus, root)).toBe(false);
+
+    const later = new Date(Date.now() + 60_000);
+    await fs.utimes(path.join(root, 'recipes/bread.txt'), later, later);
+    expect(await isCorpusIndexStale(corpus, root)).toBe(true);
+
+    const rebuilt = await buildCorpusIndex(root);
+    await write('energy/hydro.md', '# Hydro');
+    expect(await isCorpusIndexStale(rebuilt, root)).toBe(true);
+
+    await fs.rm(path.join(root, 'energy/hydro.md'));
+    await fs.rm(path.join(root, 'recipes/bread.txt'));
+    expect(await isCorpusIndexStale(rebuilt, root)).toBe(true);
+  });
+
+  it('rebuilds a stale index on load and keeps a fresh one', async () => {
+    const first = await loadCorpusIndex(root, indexPath);
+    expect(await loadCorpusIndex(root, indexPath)).toEqual(first);
+
+    await write('energy/hydro.md', '# Hydro power\n\nDams turn water into electricity.');
+    const rebuilt = await loadCorpusIndex(root, indexPath);
+
+    expect(rebuilt.documents).toHaveLength(4);
+    expect(await readCorpusIndex(indexPath)).toEqual(rebuilt);
+  });
+});
+
+describe('resolveCorpusPath', () => {
+  const root = path.resolve('/srv/corpus');
+
+  it('resolves supported files under the root', () => {
+    expect(resolveCorpusPath(root, 'energy/solar.md')).toBe(path.join(root, 'energy', 'solar.md'));
+  });
+
+  it('refuses paths outside the root and unsupported files', () => {
+    expect(resolveCorpusPath(root, '../secrets.md')).toBeNull();
+    expect(resolveCorpusPath(root, '/etc/passwd.txt')).toBeNull();
+    expect(resolveCorpusPath(`${root}-other`, '../corpus/energy/solar.md')).toBeNull();
+    expect(resolveCorpusPath(root, 'energy/diagram.png')).toBeNull();
+  });
+});
@@ -0,0 +1,217 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { buildInvertedIndex, rankBM25, InvertedIndex } from '@/utils/bm25';
+import { chunkText } from '@/utils/chunker';
+import { htmlToText, extractHtmlTitle } from '@/utils/html-to-text';
+
+// Markdown, HTML and plain text (including text extracted from PDFs)
+const SUPPORTED_EXTENSIONS = new Set(['.md', '.markdown', '.mdx', '.html', '.htm', '.txt']);
+const INDEX_VERSION = 1;
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+export interface CorpusDocument {
+  path: string; // Relative to the corpus root, always '/'-separated
+  title: string;
+  mtimeMs: number;
+  size: number;
+}
+
+export interface CorpusChunk {
+  docIndex: number;
+  text: string;
+  heading?: string;
+}
+
+export interface CorpusIndex {
+  version: number;
+  root: string;
+  createdAt: string;
+  documents: CorpusDocument[];
+  chunks: CorpusChunk[];
+  index: InvertedIndex;
+}
+
+export interface CorpusHit {
+  document: CorpusDocument;
+  chunk: CorpusChunk;
+  score: number;
+}
+
+// Turn a raw file into plain text plus a display title
+export function extractDocument(filePath: string, raw: string): { title: string; text: string } {
+  const ext = path.extname(filePath).toLowerCase();
+  const fallbackTitle = path.basename(filePath, ext).replace(/[-_]+/g, ' ');
+
+  if (ext === '.html' || ext === '.htm') {
+    const text = htmlToText(raw);
+    return { title: extractHtmlTitle(raw) || fallbackTitle, text };
+  }
+
+  if (ext === '.txt') {
+    return { title: fallbackTitle, text: raw.replace(/\f/g, '\n\n') }; // Form feeds separate PDF pages
+  }
+
+  const text = raw
+    .replace(/^---\n[\s\S]*?\n---\n/, '') // Front matter
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '') // Images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // Links keep their text
+    .replace(/```[a-z]*\n?/gi, '')
+    .replace(/(\*\*|\*|`)(\S[\s\S]*?\S|\S)\1/g, '$2') // Emphasis and inline code
+    .replace(/<[^>]+>/g, ' ');
+  const heading = text.match(/^#\s+(.+)$/m);
+
+  return { title: heading ? heading[1].trim() : fallbackTitle, text };
+}
+
+async function listCorpusFiles(root: string, dir: string = root): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue;
+
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listCorpusFiles(root, fullPath));
+    } else if (entry.isFile() && SUPPORTED_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+// Ingest every supported file under root, chunk it and build the BM25 index
+export async function buildCorpusIndex(root: string): Promise<CorpusIndex> {
+  const startTime = Date.now();
+  const resolvedRoot = path.resolve(root);
+  const files = (await listCorpusFiles(resolvedRoot)).sort();
+
+  const documents: CorpusDocument[] = [];
+  const chunks: CorpusChunk[] = [];
+
+  for (const file of files) {
+    try {
+      const stat = await fs.stat(file);
+      if (stat.size > MAX_FILE_BYTES) {
+        console.warn(`Skipping ${file}: larger than ${MAX_FILE_BYTES} bytes`);
+        continue;
+      }
+
+      const raw = await fs.readFile(file, 'utf8');
+      const { title, text } = extractDocument(file, raw);
+      const docIndex = documents.length;
+
+      documents.push({
+        path: path.relative(resolvedRoot, file).split(path.sep).join('/'),
+        title,
+        mtimeMs: stat.mtimeMs,
+        size: stat.size,
+      });
+
+      for (const chunk of chunkText(text)) {
+        chunks.push({ docIndex, text: chunk.text, heading: chunk.heading });
+      }
+    } catch (error) {
+      console.error(`Failed to index ${file}:`, error);
+    }
+  }
+
+  const index = buildInvertedIndex(chunks.map(c => `${c.heading || ''} ${c.text}`));
+
+  console.log(`Corpus indexing completed in ${Date.now() - startTime}ms`);
+  console.log(`Indexed ${documents.length} documents into ${chunks.length} chunks`);
+
+  return {
+    version: INDEX_VERSION,
+    root: resolvedRoot,
+    createdAt: new Date().toISOString(),
+    documents,
+    chunks,
+    index,
+  };
+}
+
+export async function saveCorpusIndex(corpus: CorpusIndex, indexPath: string): Promise<void> {
+  await fs.mkdir(path.dirname(indexPath), { recursive: true });
+  const tmpPath = `${indexPath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(corpus));
+  await fs.rename(tmpPath, indexPath);
+}
+
+export async function readCorpusIndex(indexPath: string): Promise<CorpusIndex | null> {
+  try {
+    const corpus = JSON.parse(await fs.readFile(indexPath, 'utf8')) as CorpusIndex;
+    return corpus.version === INDEX_VERSION ? corpus : null;
+  } catch {
+    return null;
+  }
+}
+
+// An index is stale when files were added, removed or modified since it was built
+export async function isCorpusIndexStale(corpus: CorpusIndex, root: string): Promise<boolean> {
+  const resolvedRoot = path.resolve(root);
+  if (corpus.root !== resolvedRoot) return true;
+
+  const byPath = new Map(corpus.documents.map(d => [d.path, d]));
+  const files = await listCorpusFiles(resolvedRoot);
+  let matched = 0;
+
+  for (const file of files) {
+    const document = byPath.get(path.relative(resolvedRoot, file).split(path.sep).join('/'));
+    const stat = await fs.stat(file);
+
+    if (!document) {
+      // Oversized files are never indexed, so they don't make the index stale
+      if (stat.size <= MAX_FILE_BYTES) return true;
+      continue;
+    }
+
+    if (document.mtimeMs !== stat.mtimeMs) return true;
+    matched++;
+  }
+
+  // Some indexed documents have been deleted
+  return matched < corpus.documents.length;
+}
+
+// Load the on-disk index, rebuilding and persisting it when missing or stale
+export async function loadCorpusIndex(root: string, indexPath: string): Promise<CorpusIndex> {
+  const existing = await readCorpusIndex(indexPath);
+  if (existing && !(await isCorpusIndexStale(existing, root))) {
+    return existing;
+  }
+
+  const corpus = await buildCorpusIndex(root);
+  await saveCorpusIndex(corpus, indexPath);
+  return corpus;
+}
+
+// Best matching chunk per document, best documents first
+export function searchCorpus(corpus: CorpusIndex, query: string, limit: number = 5): CorpusHit[] {
+  const hits: CorpusHit[] = [];
+  const seenDocuments = new Set<number>();
+
+  for (const [chunkIndex, score] of rankBM25(corpus.index, query, limit * 10)) {
+    const chunk = corpus.chunks[chunkIndex];
+    if (seenDocuments.has(chunk.docIndex)) continue;
+
+    seenDocuments.add(chunk.docIndex);
+    hits.push({ document: corpus.documents[chunk.docIndex], chunk, score });
+
+    if (hits.length >= limit) break;
+  }
+
+  return hits;
+}
+
+// Resolve a corpus-relative path, refusing anything outside the root
+export function resolveCorpusPath(root: string, relativePath: string): string | null {
+  const resolvedRoot = path.resolve(root);
+  const resolved = path.resolve(resolvedRoot, relativePath);
+
+  if (!resolved.startsWith(resolvedRoot + path.sep)) return null;
+  if (!SUPPORTED_EXTENSIONS.has(path.extname(resolved).toLowerCase())) return null;
+
+  return resolved;
+}
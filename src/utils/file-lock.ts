@@ -0,0 +1,45 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface FileLockOptions {
+  timeout?: number; // ms to wait for another holder
+  staleAfter?: number; // ms after which a lock is taken to be left by a crashed process
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Run a change to a file while holding `${file}.lock`, so other processes
+// (the server and scripts/api-keys.mjs, which does the same) can't interleave
+// their reads and writes with it. The lock file is created exclusively.
+export async function withFileLock<T>(
+  file: string,
+  run: () => Promise<T>,
+  { timeout = 5000, staleAfter = 10000 }: FileLockOptions = {}
+): Promise<T> {
+  const lock = `${file}.lock`;
+  const deadline = Date.now() + timeout;
+  await fs.mkdir(path.dirname(file), { recursive: true });
+
+  while (true) {
+    try {
+      await (await fs.open(lock, 'wx')).close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+
+      const stat = await fs.stat(lock).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > staleAfter) {
+        await fs.rm(lock, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) throw new Error(`Timed out waiting for ${lock}`);
+      await sleep(10 + Math.random() * 40);
+    }
+  }
+
+  try {
+    return await run();
+  } finally {
+    await fs.rm(lock, { force: true });
+  }
+}
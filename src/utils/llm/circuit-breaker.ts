@@ -0,0 +1,73 @@
+// Skips a model after repeated failures. Once the cooldown has passed a single
+// trial request is let through (half-open); its outcome closes or reopens the circuit.
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface CircuitEntry {
+  failures: number;
+  openedAt: number | null;
+  trialInFlight: boolean;
+}
+
+export class CircuitBreaker {
+  private circuits = new Map<string, CircuitEntry>();
+
+  constructor(private failureThreshold: number, private cooldown: number) {}
+
+  private entry(key: string): CircuitEntry {
+    let entry = this.circuits.get(key);
+    if (!entry) {
+      entry = { failures: 0, openedAt: null, trialInFlight: false };
+      this.circuits.set(key, entry);
+    }
+    return entry;
+  }
+
+  getState(key: string): CircuitState {
+    const entry = this.circuits.get(key);
+    if (!entry || entry.openedAt === null) return 'closed';
+    return Date.now() - entry.openedAt >= this.cooldown ? 'half-open' : 'open';
+  }
+
+  // Whether a request may be sent now. Claims the trial slot when half-open.
+  canAttempt(key: string): boolean {
+    const state = this.getState(key);
+    if (state === 'closed') return true;
+    if (state === 'open') return false;
+
+    const entry = this.entry(key);
+    if (entry.trialInFlight) return false;
+    entry.trialInFlight = true;
+    return true;
+  }
+
+  // Give up a claimed trial slot without judging the model
+  release(key: string) {
+    const entry = this.circuits.get(key);
+    if (entry) entry.trialInFlight = false;
+  }
+
+  recordSuccess(key: string) {
+    this.circuits.delete(key);
+  }
+
+  recordFailure(key: string) {
+    const entry = this.entry(key);
+    entry.failures++;
+    entry.trialInFlight = false;
+
+    // A failed trial reopens immediately
+    if (entry.openedAt !== null || entry.failures >= this.failureThreshold) {
+      entry.openedAt = Date.now();
+    }
+  }
+
+  // Snapshot for diagnostics
+  getStatus(): Record<string, { state: CircuitState; failures: number }> {
+    const status: Record<string, { state: CircuitState; failures: number }> = {};
+    this.circuits.forEach((entry, key) => {
+      status[key] = { state: this.getState(key), failures: entry.failures };
+    });
+    return status;
+  }
+}
@@ -0,0 +1,22 @@
+// Failed call to a language model backend. status is the HTTP status when the
+// backend answered at all.
+export class LLMRequestError extends Error {
+  constructor(message: string, public provider: string, public status?: number) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+export async function toRequestError(provider: string, response: Response): Promise<LLMRequestError> {
+  let detail = '';
+  try {
+    detail = (await response.text()).slice(0, 300);
+  } catch {
+    // Body already consumed or unreadable
+  }
+  return new LLMRequestError(
+    `${provider} request failed with status ${response.status}${detail ? `: ${detail}` : ''}`,
+    provider,
+    response.status
+  );
+}
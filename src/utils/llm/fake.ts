@@ -0,0 +1,58 @@
+import { LLMProvider } from '@/types/llm';
+
+export interface FakeProviderOptions {
+  // Fixed answer, or a function of the prompt. Defaults to echoing the prompt's first line.
+  // A function that throws makes the call fail with its error.
+  response?: string | ((prompt: string) => string);
+  chunkSize?: number; // Characters per streamed chunk
+  model?: string; // Tells several fakes in one chain apart
+  delay?: number; // ms before answering, e.g. to run into an attempt timeout
+}
+
+// Wait for the delay unless the request is aborted first
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  if (ms <= 0) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+// Deterministic provider for tests and offline development. Makes no network calls.
+export function createFakeLLMProvider({ response, chunkSize = 16, model = 'fake', delay = 0 }: FakeProviderOptions = {}): LLMProvider {
+  const answer = (prompt: string) => typeof response === 'function'
+    ? response(prompt)
+    : response ?? `Fake answer for: ${prompt.split('\n')[0].slice(0, 200)}`;
+
+  return {
+    id: 'fake',
+    name: 'Fake (deterministic)',
+    model,
+
+    isConfigured() {
+      return true;
+    },
+
+    async generate(prompt, options = {}) {
+      options.signal?.throwIfAborted();
+      await wait(delay, options.signal);
+      return answer(prompt);
+    },
+
+    async *stream(prompt, options = {}) {
+      await wait(delay, options.signal);
+      const text = answer(prompt);
+      for (let i = 0; i < text.length; i += chunkSize) {
+        options.signal?.throwIfAborted();
+        yield text.slice(i, i + chunkSize);
+      }
+    },
+
+    async countTokens(text) {
+      return text.split(/\s+/).filter(Boolean).length;
+    },
+  };
+}
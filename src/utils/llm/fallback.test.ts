@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import config from '@/lib/config';
+import { createFakeLLMProvider, FakeProviderOptions } from './fake';
+import { LLMRequestError } from './errors';
+import { generateWithFallback, getCircuitStatus, ModelChainError, ModelChainLink, setModelChain, streamWithFallback } from './fallback';
+
+// Circuits are kept per model for the whole module, so every test uses fresh model names
+let models = 0;
+const model = (name: string) => `${name}-${++models}`;
+
+function link(options: FakeProviderOptions, timeout = 1000): ModelChainLink {
+  return { provider: createFakeLLMProvider({ model: model('fake'), ...options }), timeout };
+}
+
+function failing(status?: number) {
+  return () => {
+    throw new LLMRequestError(`request failed with status ${status}`, 'fake', status);
+  };
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) text += chunk;
+  return text;
+}
+
+const statuses = (attempts: { status: string }[]) => attempts.map(attempt => attempt.status);
+
+describe('generateWithFallback', () => {
+  beforeEach(() => {
+    config.llm.retries = 0;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setModelChain(null);
+    vi.useRealTimers();
+  });
+
+  it('answers with the first model in the chain that can', async () => {
+    const unconfigured = link({ response: 'unconfigured' });
+    unconfigured.provider.isConfigured = () => false;
+    const third = vi.fn(() => 'third');
+    setModelChain([unconfigured, link({ response: failing(404) }), link({ response: 'second' }), link({ response: third })]);
+
+    const result = await generateWithFallback('question');
+
+    expect(result.text).toBe('second');
+    expect(statuses(result.attempts)).toEqual(['skipped', 'failed', 'success']);
+    expect(result.attempts[0].error).toBe('Not configured');
+    expect(third).not.toHaveBeenCalled();
+  });
+
+  it('stops the chain on an error every model would give', async () => {
+    const second = vi.fn(() => 'second');
+    setModelChain([link({ response: failing(400) }), link({ response: second })]);
+
+    const error = await generateWithFallback('question').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ModelChainError);
+    expect(statuses(error.attempts)).toEqual(['failed']);
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('retries a transient error on the same model', async () => {
+    config.llm.retries = 1;
+    let calls = 0;
+    const flaky = link({ response: () => (++calls === 1 ? failing(503)() : 'recovered') });
+    setModelChain([flaky]);
+
+    const result = await generateWithFallback('question');
+
+    expect(result.text).toBe('recovered');
+    expect(result.attempts.map(attempt => [attempt.model, attempt.status])).toEqual([
+      [flaky.provider.model, 'failed'],
+      [flaky.provider.model, 'success'],
+    ]);
+  });
+
+  it('moves on to the next model when an attempt times out', async () => {
+    setModelChain([link({ response: 'too late', delay: 500 }, 50), link({ response: 'in time' })]);
+
+    const result = await generateWithFallback('question');
+
+    expect(result.text).toBe('in time');
+    expect(result.attempts[0]).toMatchObject({ status: 'failed', error: expect.stringMatching(/timed out after 50ms/) });
+    expect(result.attempts[0].duration).toBeLessThan(400);
+  });
+
+  it('reports every attempt when all models fail', async () => {
+    setModelChain([link({ response: failing(404) }), link({ response: failing(500) })]);
+
+    await expect(generateWithFallback('question')).rejects.toMatchObject({
+      message: 'All models in the fallback chain failed',
+      attempts: [{ status: 'failed' }, { status: 'failed' }],
+    });
+  });
+
+  it('skips a model whose circuit opened and lets one trial through after the cooldown', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    let healthy = false;
+    const unreliable = link({ response: () => (healthy ? 'unreliable' : failing(404)()), delay: 20 });
+    const key = `fake:${unreliable.provider.model}`;
+    setModelChain([unreliable, link({ response: 'backup' })]);
+
+    for (let i = 0; i < config.llm.circuitFailureThreshold; i++) {
+      expect((await generateWithFallback('question')).text).toBe('backup');
+    }
+    expect(getCircuitStatus()[key]).toEqual({ state: 'open', failures: config.llm.circuitFailureThreshold });
+
+    healthy = true;
+    const whileOpen = await generateWithFallback('question');
+    expect(whileOpen.text).toBe('backup');
+    expect(whileOpen.attempts[0]).toMatchObject({ status: 'skipped', error: 'Circuit open after repeated failures' });
+
+    // Half-open: the first request is the trial and concurrent ones still skip the model
+    vi.setSystemTime(Date.now() + config.llm.circuitCooldown);
+    expect(getCircuitStatus()[key].state).toBe('half-open');
+    const [trial, concurrent] = await Promise.all([generateWithFallback('question'), generateWithFallback('question')]);
+
+    expect(trial.text).toBe('unreliable');
+    expect(concurrent.text).toBe('backup');
+    expect(getCircuitStatus()[key]).toBeUndefined(); // Closed again
+  });
+
+  it('reopens the circuit at once when the trial fails', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const broken = link({ response: failing(404) });
+    const key = `fake:${broken.provider.model}`;
+    setModelChain([broken, link({ response: 'backup' })]);
+
+    for (let i = 0; i < config.llm.circuitFailureThreshold; i++) await generateWithFallback('question');
+    vi.setSystemTime(Date.now() + config.llm.circuitCooldown);
+
+    const trial = await generateWithFallback('question');
+    expect(statuses(trial.attempts)).toEqual(['failed', 'success']);
+    expect(getCircuitStatus()[key].state).toBe('open');
+  });
+});
+
+describe('streamWithFallback', () => {
+  beforeEach(() => {
+    config.llm.retries = 0;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setModelChain(null);
+  });
+
+  it('falls back until a model starts streaming', async () => {
+    const answer = 'A streamed answer that spans several chunks.';
+    setModelChain([link({ response: failing(503) }), link({ response: 'slow', delay: 500 }, 50), link({ response: answer, chunkSize: 8 })]);
+
+    const result = await streamWithFallback('question');
+
+    expect(statuses(result.attempts)).toEqual(['failed', 'failed', 'success']);
+    expect(await collect(result.stream)).toBe(answer);
+  });
+});
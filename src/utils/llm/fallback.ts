@@ -0,0 +1,216 @@
+import { GenerateOptions, LLMProvider, ModelAttempt } from '@/types/llm';
+import config from '@/lib/config';
+import { createLLMProvider } from '@/utils/llm';
+import { CircuitBreaker } from '@/utils/llm/circuit-breaker';
+
+// Answer generation across a chain of models (e.g. pro -> flash -> local).
+// Each attempt gets its own timeout; transient errors are retried, errors
+// specific to one model move on to the next, and errors caused by the
+// request itself stop the chain since every model would reject it.
+
+export type LLMErrorClass = 'transient' | 'unavailable' | 'fatal';
+
+export interface ModelChainLink {
+  provider: LLMProvider;
+  timeout: number;
+}
+
+export interface GenerationResult {
+  text: string;
+  provider: string;
+  model: string;
+  attempts: ModelAttempt[];
+}
+
+export interface StreamResult {
+  stream: AsyncIterable<string>;
+  provider: string;
+  model: string;
+  attempts: ModelAttempt[];
+}
+
+export class ModelChainError extends Error {
+  constructor(message: string, public attempts: ModelAttempt[]) {
+    super(message);
+    this.name = 'ModelChainError';
+  }
+}
+
+class AttemptTimeoutError extends Error {
+  constructor(model: string, timeout: number) {
+    super(`${model} timed out after ${timeout}ms`);
+    this.name = 'AttemptTimeoutError';
+  }
+}
+
+const RETRY_DELAY = 500;
+
+const circuitBreaker = new CircuitBreaker(config.llm.circuitFailureThreshold, config.llm.circuitCooldown);
+
+let configuredChain: ModelChainLink[] | null = null;
+let chainOverride: ModelChainLink[] | null = null;
+
+// Models from LLM_FALLBACK_CHAIN, created once per server instance
+export function getModelChain(): ModelChainLink[] {
+  if (chainOverride) return chainOverride;
+
+  if (!configuredChain) {
+    configuredChain = config.llm.fallbackChain.map(entry => ({
+      provider: createLLMProvider(entry.provider, entry.model),
+      timeout: entry.timeout,
+    }));
+  }
+  return configuredChain;
+}
+
+// Replace the configured chain, e.g. with the fake provider in tests
+export function setModelChain(chain: ModelChainLink[] | null) {
+  chainOverride = chain;
+}
+
+export function getCircuitStatus() {
+  return circuitBreaker.getStatus();
+}
+
+export function classifyLLMError(error: unknown): LLMErrorClass {
+  if (error instanceof AttemptTimeoutError) return 'transient';
+
+  const name = error instanceof Error ? error.name : '';
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number'
+    ? (error as { status: number }).status
+    : undefined;
+
+  if (status !== undefined) {
+    if (status === 408 || status === 429 || status >= 500) return 'transient';
+    if (status === 401 || status === 403 || status === 404) return 'unavailable'; // Bad key or unknown model
+    return 'fatal';
+  }
+
+  // Invalid or blocked prompts fail the same way on every model
+  if (name === 'GoogleGenerativeAIRequestInputError' || name === 'GoogleGenerativeAIResponseError') return 'fatal';
+
+  if (/fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|network/i.test(message)) return 'transient';
+
+  return 'unavailable';
+}
+
+const circuitKey = (provider: LLMProvider) => `${provider.id}:${provider.model}`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Run one attempt with its own timeout, also aborting when the caller aborts.
+// The timeout only covers run(); streams keep the caller's signal afterwards.
+async function runAttempt<T>(
+  link: ModelChainLink,
+  run: (provider: LLMProvider, signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, link.timeout);
+
+  const forwardAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) forwardAbort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  try {
+    return await run(link.provider, controller.signal);
+  } catch (error) {
+    if (timedOut) throw new AttemptTimeoutError(link.provider.model, link.timeout);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function runChain<T>(
+  run: (provider: LLMProvider, signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<{ value: T; provider: LLMProvider; attempts: ModelAttempt[] }> {
+  const attempts: ModelAttempt[] = [];
+
+  for (const link of getModelChain()) {
+    const { provider } = link;
+    const key = circuitKey(provider);
+    const skip = (error: string) => attempts.push({ provider: provider.id, model: provider.model, status: 'skipped', error, duration: 0 });
+
+    if (!provider.isConfigured()) {
+      skip('Not configured');
+      continue;
+    }
+    if (!circuitBreaker.canAttempt(key)) {
+      skip('Circuit open after repeated failures');
+      continue;
+    }
+
+    for (let attempt = 0; attempt <= config.llm.retries; attempt++) {
+      const startTime = Date.now();
+      try {
+        const value = await runAttempt(link, run, signal);
+        circuitBreaker.recordSuccess(key);
+        attempts.push({ provider: provider.id, model: provider.model, status: 'success', duration: Date.now() - startTime });
+        return { value, provider, attempts };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        attempts.push({ provider: provider.id, model: provider.model, status: 'failed', error: message, duration: Date.now() - startTime });
+
+        // The caller went away; nothing was learned about the model
+        if (signal?.aborted) {
+          circuitBreaker.release(key);
+          throw error;
+        }
+
+        const errorClass = classifyLLMError(error);
+        console.warn(`${provider.name} (${provider.model}) failed with a ${errorClass} error:`, message);
+
+        if (errorClass === 'fatal') {
+          circuitBreaker.release(key);
+          throw new ModelChainError(message, attempts);
+        }
+
+        circuitBreaker.recordFailure(key);
+
+        // Timeouts have already used the attempt's budget; try the next model instead
+        const canRetry = errorClass === 'transient' && !(error instanceof AttemptTimeoutError);
+        if (!canRetry || attempt >= config.llm.retries || !circuitBreaker.canAttempt(key)) break;
+
+        await sleep(RETRY_DELAY * (attempt + 1));
+      }
+    }
+  }
+
+  throw new ModelChainError('All models in the fallback chain failed', attempts);
+}
+
+export async function generateWithFallback(prompt: string, options: GenerateOptions = {}): Promise<GenerationResult> {
+  const { value, provider, attempts } = await runChain(
+    (llm, signal) => llm.generate(prompt, { ...options, signal }),
+    options.signal
+  );
+
+  return { text: value, provider: provider.id, model: provider.model, attempts };
+}
+
+// Falls back only until the first chunk arrives; the attempt timeout is the
+// time allowed to start answering. Later failures surface from the stream.
+export async function streamWithFallback(prompt: string, options: GenerateOptions = {}): Promise<StreamResult> {
+  const { value: { iterator, first }, provider, attempts } = await runChain(async (llm, signal) => {
+    const iterator = llm.stream(prompt, { ...options, signal })[Symbol.asyncIterator]();
+    const first = await iterator.next();
+    return { iterator, first };
+  }, options.signal);
+
+  async function* remainder() {
+    let next = first;
+    while (!next.done) {
+      yield next.value;
+      next = await iterator.next();
+    }
+  }
+
+  return { stream: remainder(), provider: provider.id, model: provider.model, attempts };
+}
@@ -0,0 +1,55 @@
+import { GoogleGenerativeAI, GenerationConfig } from '@google/generative-ai';
+import { GenerateOptions, LLMProvider } from '@/types/llm';
+
+export interface GeminiProviderOptions {
+  apiKey: string;
+  model: string;
+}
+
+function toGenerationConfig({ maxOutputTokens, temperature, topP, topK, responseFormat }: GenerateOptions): GenerationConfig {
+  return {
+    maxOutputTokens,
+    temperature,
+    topP,
+    topK,
+    responseMimeType: responseFormat === 'json' ? 'application/json' : undefined,
+  };
+}
+
+// Google Gemini through the official SDK
+export function createGeminiProvider({ apiKey, model }: GeminiProviderOptions): LLMProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return {
+    id: 'gemini',
+    name: 'Google Gemini',
+    model,
+
+    isConfigured() {
+      return Boolean(apiKey);
+    },
+
+    async generate(prompt, options = {}) {
+      const result = await genAI
+        .getGenerativeModel({ model, generationConfig: toGenerationConfig(options) })
+        .generateContent(prompt, { signal: options.signal });
+      return result.response.text();
+    },
+
+    async *stream(prompt, options = {}) {
+      const result = await genAI
+        .getGenerativeModel({ model, generationConfig: toGenerationConfig(options) })
+        .generateContentStream(prompt, { signal: options.signal });
+
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) yield text;
+      }
+    },
+
+    async countTokens(text) {
+      const { totalTokens } = await genAI.getGenerativeModel({ model }).countTokens(text);
+      return totalTokens;
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { LLMProvider } from '@/types/llm';
+import config from '@/lib/config';
+import { createGeminiProvider } from './gemini';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import { createOllamaProvider } from './ollama';
+import { createFakeLLMProvider } from './fake';
+
+export { createGeminiProvider, createOpenAICompatibleProvider, createOllamaProvider, createFakeLLMProvider };
+export { LLMRequestError } from './errors';
+
+export const LLM_PROVIDER_IDS = ['gemini', 'openai', 'ollama', 'fake'] as const;
+
+// Build the provider for an id using its settings from config. model
+// overrides the configured model for that provider.
+export function createLLMProvider(id: string = config.llm.provider, model?: string): LLMProvider {
+  // LLM_MODEL only applies to the selected provider
+  const modelOverride = model || (id === config.llm.provider ? config.llm.model : '');
+
+  switch (id) {
+    case 'gemini':
+      return createGeminiProvider({ apiKey: config.geminiApiKey, model: modelOverride || config.geminiModel });
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: config.llm.openaiBaseUrl,
+        apiKey: config.llm.openaiApiKey,
+        model: modelOverride || config.llm.openaiModel,
+      });
+    case 'ollama':
+      return createOllamaProvider({ url: config.llm.ollamaUrl, model: modelOverride || config.llm.ollamaModel });
+    case 'fake':
+      return createFakeLLMProvider();
+    default:
+      throw new Error(`Unknown LLM provider "${id}". Expected one of: ${LLM_PROVIDER_IDS.join(', ')}`);
+  }
+}
@@ -0,0 +1,62 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { FixtureServer, startFixtureServer } from '@/test/fixture-server';
+import { LLMRequestError } from './errors';
+import { createOllamaProvider } from './ollama';
+
+// Replies of the fixture server, by the prompt sent
+const REPLIES: Record<string, string> = {
+  stream: '{"response":"Hello"}\n{"response":", world"}\n{"done":true}\n',
+  'malformed stream': '{"response":"Hello"}\n{"response": oops\n{"done":true}\n',
+  'error stream': '{"response":"Hello"}\n{"error":"model crashed"}\n',
+  generate: '{"response":"Hello, world","done":true}',
+  'malformed generate': '<html>Bad gateway</html>',
+};
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+describe('createOllamaProvider', () => {
+  let server: FixtureServer;
+  let provider: ReturnType<typeof createOllamaProvider>;
+
+  beforeAll(async () => {
+    server = await startFixtureServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => (body += chunk));
+      request.on('end', () => {
+        response.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+        response.end(REPLIES[JSON.parse(body).prompt]);
+      });
+    });
+    provider = createOllamaProvider({ url: server.url, model: 'llama3' });
+  });
+
+  afterAll(() => server.close());
+
+  it('streams the response text of each NDJSON line', async () => {
+    expect(await collect(provider.stream('stream'))).toEqual(['Hello', ', world']);
+  });
+
+  it('fails a malformed stream line with an LLMRequestError', async () => {
+    const chunks: string[] = [];
+    const error = await (async () => {
+      for await (const chunk of provider.stream('malformed stream')) chunks.push(chunk);
+    })().catch(caught => caught);
+
+    expect(chunks).toEqual(['Hello']);
+    expect(error).toBeInstanceOf(LLMRequestError);
+    expect(error).toMatchObject({ provider: 'ollama', message: expect.stringContaining('malformed JSON') });
+  });
+
+  it('fails on an error line in the stream', async () => {
+    await expect(collect(provider.stream('error stream'))).rejects.toMatchObject({ name: 'LLMRequestError', message: 'model crashed' });
+  });
+
+  it('generates from a single JSON reply and classifies a malformed one', async () => {
+    expect(await provider.generate('generate')).toBe('Hello, world');
+    await expect(provider.generate('malformed generate')).rejects.toBeInstanceOf(LLMRequestError);
+  });
+});
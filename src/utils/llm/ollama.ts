@@ -0,0 +1,104 @@
+import { GenerateOptions, LLMProvider } from '@/types/llm';
+import { estimateTokens } from '@/utils/passage-selector';
+import { toRequestError, LLMRequestError } from '@/utils/llm/errors';
+
+export interface OllamaProviderOptions {
+  url: string; // e.g. http://localhost:11434
+  model: string;
+}
+
+interface OllamaGenerateChunk {
+  response?: string;
+  done?: boolean;
+  error?: string;
+}
+
+// A reply that isn't JSON is a failed request like any other, so the fallback
+// chain can classify it
+function parseChunk(text: string): OllamaGenerateChunk {
+  try {
+    return JSON.parse(text) as OllamaGenerateChunk;
+  } catch {
+    throw new LLMRequestError(`ollama returned malformed JSON: ${text.slice(0, 100)}`, 'ollama');
+  }
+}
+
+// Local models served by Ollama (runs on CPU-only machines)
+export function createOllamaProvider({ url, model }: OllamaProviderOptions): LLMProvider {
+  const endpoint = `${url.replace(/\/+$/, '')}/api/generate`;
+
+  const request = (prompt: string, { maxOutputTokens, temperature, topP, topK, responseFormat, signal }: GenerateOptions, stream: boolean) =>
+    fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        prompt,
+        stream,
+        ...(responseFormat === 'json' ? { format: 'json' } : {}),
+        options: {
+          num_predict: maxOutputTokens,
+          temperature,
+          top_p: topP,
+          top_k: topK,
+        },
+      }),
+      signal,
+    });
+
+  return {
+    id: 'ollama',
+    name: 'Ollama',
+    model,
+
+    isConfigured() {
+      return Boolean(url && model);
+    },
+
+    async generate(prompt, options = {}) {
+      const response = await request(prompt, options, false);
+      if (!response.ok) throw await toRequestError('ollama', response);
+
+      const data = parseChunk(await response.text());
+      if (data.error) throw new LLMRequestError(data.error, 'ollama');
+      return data.response || '';
+    },
+
+    // Streamed responses are newline-delimited JSON objects
+    async *stream(prompt, options = {}) {
+      const response = await request(prompt, options, true);
+      if (!response.ok) throw await toRequestError('ollama', response);
+      if (!response.body) throw new LLMRequestError('ollama returned an empty stream', 'ollama');
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (value) buffer += decoder.decode(value, { stream: true });
+
+          const lines = buffer.split('\n');
+          buffer = done ? '' : lines.pop() || '';
+
+          for (const line of lines) {
+            if (!line.trim()) continue;
+            const chunk = parseChunk(line);
+            if (chunk.error) throw new LLMRequestError(chunk.error, 'ollama');
+            if (chunk.response) yield chunk.response;
+            if (chunk.done) return;
+          }
+
+          if (done) return;
+        }
+      } finally {
+        reader.releaseLock();
+      }
+    },
+
+    async countTokens(text) {
+      return estimateTokens(text);
+    },
+  };
+}
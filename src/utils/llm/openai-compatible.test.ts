@@ -0,0 +1,70 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { FixtureServer, startFixtureServer } from '@/test/fixture-server';
+import { LLMRequestError } from './errors';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+
+const event = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+// Replies of the fixture server, by the prompt sent
+const REPLIES: Record<string, { type: string; body: string }> = {
+  generate: { type: 'application/json', body: '{"choices":[{"message":{"content":"Hello, world"}}]}' },
+  'malformed generate': { type: 'text/html', body: '<html>Bad gateway</html>' },
+  stream: { type: 'text/event-stream', body: `${event('Hello')}${event(', world')}data: [DONE]\n\n` },
+  'malformed stream': { type: 'text/event-stream', body: `${event('Hello')}data: {"choices": oops\n\n` },
+};
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+describe('createOpenAICompatibleProvider', () => {
+  let server: FixtureServer;
+  let provider: ReturnType<typeof createOpenAICompatibleProvider>;
+  let authorization: string | undefined;
+
+  beforeAll(async () => {
+    server = await startFixtureServer((request, response) => {
+      let body = '';
+      authorization = request.headers.authorization;
+      request.on('data', chunk => (body += chunk));
+      request.on('end', () => {
+        const reply = REPLIES[JSON.parse(body).messages[0].content];
+        response.writeHead(200, { 'Content-Type': reply.type });
+        response.end(reply.body);
+      });
+    });
+    provider = createOpenAICompatibleProvider({ baseUrl: `${server.url}/v1/`, apiKey: 'sk-test', model: 'gpt-test' });
+  });
+
+  afterAll(() => server.close());
+
+  it('generates from a chat completion', async () => {
+    expect(await provider.generate('generate')).toBe('Hello, world');
+    expect(server.requests.at(-1)?.pathname).toBe('/v1/chat/completions');
+    expect(authorization).toBe('Bearer sk-test');
+  });
+
+  it('classifies a reply that is not JSON as a failed request', async () => {
+    const error = await provider.generate('malformed generate').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(LLMRequestError);
+    expect(error).toMatchObject({ provider: 'openai', message: expect.stringContaining('malformed JSON: <html>Bad gateway') });
+  });
+
+  it('streams the content of each event until [DONE]', async () => {
+    expect(await collect(provider.stream('stream'))).toEqual(['Hello', ', world']);
+  });
+
+  it('fails a malformed stream event with an LLMRequestError', async () => {
+    const chunks: string[] = [];
+    const error = await (async () => {
+      for await (const chunk of provider.stream('malformed stream')) chunks.push(chunk);
+    })().catch(caught => caught);
+
+    expect(chunks).toEqual(['Hello']);
+    expect(error).toBeInstanceOf(LLMRequestError);
+    expect(error).toMatchObject({ provider: 'openai', message: expect.stringContaining('malformed JSON') });
+  });
+});
@@ -0,0 +1,89 @@
+import { GenerateOptions, LLMProvider } from '@/types/llm';
+import { estimateTokens } from '@/utils/passage-selector';
+import { readServerSentEvents } from '@/utils/sse';
+import { toRequestError, LLMRequestError } from '@/utils/llm/errors';
+
+export interface OpenAICompatibleProviderOptions {
+  baseUrl: string; // e.g. https://api.openai.com/v1
+  apiKey?: string; // Optional for local servers such as llama.cpp or vLLM
+  model: string;
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string }; message?: { content?: string } }[];
+}
+
+// A reply that isn't JSON, such as a proxy's HTML error page, is a failed
+// request like any other, so the fallback chain can classify it
+function malformed(text: string): LLMRequestError {
+  return new LLMRequestError(`openai returned malformed JSON: ${text.slice(0, 100)}`, 'openai');
+}
+
+function parseCompletion(text: string): ChatCompletionChunk {
+  try {
+    return JSON.parse(text) as ChatCompletionChunk;
+  } catch {
+    throw malformed(text);
+  }
+}
+
+// Any server implementing the OpenAI chat completions API
+export function createOpenAICompatibleProvider({ baseUrl, apiKey, model }: OpenAICompatibleProviderOptions): LLMProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const request = (prompt: string, { maxOutputTokens, temperature, topP, responseFormat, signal }: GenerateOptions, stream: boolean) =>
+    fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        max_tokens: maxOutputTokens,
+        temperature,
+        top_p: topP,
+        ...(responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+        stream,
+      }),
+      signal,
+    });
+
+  return {
+    id: 'openai',
+    name: 'OpenAI-compatible',
+    model,
+
+    isConfigured() {
+      return Boolean(baseUrl && model);
+    },
+
+    async generate(prompt, options = {}) {
+      const response = await request(prompt, options, false);
+      if (!response.ok) throw await toRequestError('openai', response);
+
+      const data = parseCompletion(await response.text());
+      return data.choices?.[0]?.message?.content || '';
+    },
+
+    async *stream(prompt, options = {}) {
+      const response = await request(prompt, options, true);
+      if (!response.ok) throw await toRequestError('openai', response);
+      if (!response.body) throw new LLMRequestError('openai returned an empty stream', 'openai');
+
+      for await (const { data } of readServerSentEvents(response.body)) {
+        if (data === '[DONE]') break;
+        if (typeof data === 'string') throw malformed(data); // Events that parsed as JSON aren't strings
+
+        const text = (data as ChatCompletionChunk).choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+
+    // The API has no tokenizer endpoint
+    async countTokens(text) {
+      return estimateTokens(text);
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { SearchResult } from '@/types/search';
+import { estimateTokens, selectPassages } from './passage-selector';
+
+const result = (n: number, snippet: string, content?: string): SearchResult => ({
+  id: `r${n}`,
+  title: `Result ${n}`,
+  url: `https://example${n}.com/`,
+  snippet,
+  content,
+  source: 'searxng',
+  relevanceScore: 50,
+});
+
+// Paragraphs of exactly ten words, one passage each with passageWords 10
+const paragraph = (topic: string, filler = 'plain') =>
+  `${topic} ${Array.from({ length: 9 }, () => filler).join(' ')}`;
+
+const OPTIONS = { tokenBudget: 1000, maxSources: 10, maxPassagesPerSource: 2, passageWords: 10 };
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('selectPassages', () => {
+  it('gives every source its best passage, then fills with matching ones in document order', () => {
+    const sources = selectPassages([
+      result(1, 'intro', [paragraph('history'), paragraph('geothermal'), paragraph('cooking'), paragraph('geothermal', 'energy')].join('\n\n')),
+      result(2, 'short snippet about cooking'),
+    ], 'geothermal energy', OPTIONS);
+
+    expect(sources.map(source => source.result.id)).toEqual(['r1', 'r2']);
+    expect(sources[0].passages).toEqual([paragraph('geothermal'), paragraph('geothermal', 'energy')]);
+    expect(sources[0].tokens).toBe(sources[0].passages.reduce((sum, text) => sum + estimateTokens(text), 0));
+    expect(sources[1].passages).toEqual(['short snippet about cooking']);
+  });
+
+  it('does not add passages that share no term with the query', () => {
+    const [source] = selectPassages([
+      result(1, 'x', [paragraph('geothermal'), paragraph('history'), paragraph('cooking')].join('\n\n')),
+    ], 'geothermal', OPTIONS);
+
+    expect(source.passages).toEqual([paragraph('geothermal')]);
+  });
+
+  it('keeps the selected sources a prefix of the results when the budget runs out', () => {
+    const long = (topic: string) => paragraph(topic, 'padding'.repeat(4));
+    const sources = selectPassages([
+      result(1, long('first')),
+      result(2, long('second')),
+      result(3, 'tiny'),
+    ], 'first second', { ...OPTIONS, tokenBudget: estimateTokens(long('first')) + 5 });
+
+    expect(sources.map(source => source.result.id)).toEqual(['r1']);
+  });
+
+  it('always includes the top result, even over budget', () => {
+    const sources = selectPassages([result(1, paragraph('huge')), result(2, 'small')], 'huge', { ...OPTIONS, tokenBudget: 1 });
+
+    expect(sources).toHaveLength(1);
+    expect(sources[0].passages).toEqual([paragraph('huge')]);
+  });
+
+  it('does not repeat a snippet that the fetched content contains', () => {
+    const [withSnippet, separate] = selectPassages([
+      result(1, 'Geothermal plants tap heat…', 'Geothermal plants tap heat from deep underground.'),
+      result(2, 'Geothermal power in Iceland', 'Most homes are heated this way.'),
+    ], 'geothermal', { ...OPTIONS, passageWords: 50 });
+
+    expect(withSnippet.passages).toEqual(['Geothermal plants tap heat from deep underground.']);
+    expect(separate.passages).toEqual(['Geothermal power in Iceland Most homes are heated this way.']);
+  });
+
+  it('considers at most maxSources results and maxPassagesPerSource passages each', () => {
+    const content = Array.from({ length: 5 }, () => paragraph('geothermal')).join('\n\n');
+    const sources = selectPassages([result(1, 'x', content), result(2, 'geothermal'), result(3, 'geothermal')], 'geothermal', {
+      ...OPTIONS,
+      maxSources: 2,
+      maxPassagesPerSource: 3,
+    });
+
+    expect(sources).toHaveLength(2);
+    expect(sources[0].passages).toHaveLength(3);
+  });
+});
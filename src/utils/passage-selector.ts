@@ -0,0 +1,116 @@
+import { SearchResult } from '@/types/search';
+import config from '@/lib/config';
+import { buildInvertedIndex, scoreBM25 } from '@/utils/bm25';
+import { chunkText } from '@/utils/chunker';
+
+// Budgeted context building: pick the passages of each source that best
+// match the query instead of truncating every source the same way
+
+export interface SourcePassages {
+  result: SearchResult;
+  passages: string[]; // In document order
+  tokens: number;
+}
+
+export interface PassageSelectionOptions {
+  tokenBudget?: number;
+  maxSources?: number;
+  maxPassagesPerSource?: number;
+  passageWords?: number;
+}
+
+interface Passage {
+  sourceIndex: number;
+  order: number; // Position within its source
+  text: string;
+  tokens: number;
+  score: number;
+}
+
+// Rough token count (about four characters per token for English text)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Snippet plus any longer content, without repeating the snippet
+function getSourceText(result: SearchResult): string {
+  const snippet = result.snippet?.trim() || '';
+  const content = result.content?.trim() || '';
+
+  if (!content) return snippet;
+  if (!snippet || content.includes(snippet.replace(/(\.\.\.|…)$/, '').trim())) return content;
+  return `${snippet}\n\n${content}`;
+}
+
+// Every source is first given its best passage, in result order, so that the
+// top results are all represented. Remaining budget goes to the best scoring
+// passages overall.
+export function selectPassages(
+  results: SearchResult[],
+  query: string,
+  {
+    tokenBudget = config.contextBudget.maxTokens,
+    maxSources = config.contextBudget.maxSources,
+    maxPassagesPerSource = config.contextBudget.maxPassagesPerSource,
+    passageWords = config.contextBudget.passageWords,
+  }: PassageSelectionOptions = {}
+): SourcePassages[] {
+  const candidates = results.slice(0, maxSources);
+
+  const passages: Passage[] = [];
+  candidates.forEach((result, sourceIndex) => {
+    chunkText(getSourceText(result), { maxWords: passageWords, overlapWords: 0 }).forEach((chunk, order) => {
+      const text = chunk.heading && order > 0 ? `${chunk.heading}: ${chunk.text}` : chunk.text;
+      passages.push({ sourceIndex, order, text, tokens: estimateTokens(text), score: 0 });
+    });
+  });
+
+  // Scored together so term weights reflect the whole result set
+  const scores = scoreBM25(buildInvertedIndex(passages.map(p => p.text)), query);
+  passages.forEach((passage, i) => {
+    passage.score = scores.get(i) || 0;
+  });
+
+  const ranked = [...passages].sort((a, b) => b.score - a.score || a.order - b.order);
+  const selected = candidates.map(() => [] as Passage[]);
+  const chosen = new Set<Passage>();
+  let remaining = tokenBudget;
+
+  // Coverage pass; stops at the first source that no longer fits so the
+  // selected sources stay a prefix of the results and keep their numbering.
+  // The top result is always included, even over budget.
+  for (let sourceIndex = 0; sourceIndex < candidates.length; sourceIndex++) {
+    const best = ranked.find(p => p.sourceIndex === sourceIndex);
+    if (!best) continue;
+    if (best.tokens > remaining && chosen.size > 0) break;
+
+    selected[sourceIndex].push(best);
+    chosen.add(best);
+    remaining -= best.tokens;
+  }
+
+  const firstUncovered = selected.findIndex((s, i) => s.length === 0 && passages.some(p => p.sourceIndex === i));
+  const sourceLimit = firstUncovered === -1 ? candidates.length : firstUncovered;
+
+  // Fill pass over passages that actually match the query
+  for (const passage of ranked) {
+    if (passage.score <= 0 || remaining <= 0) break;
+    if (chosen.has(passage) || passage.sourceIndex >= sourceLimit) continue;
+    if (selected[passage.sourceIndex].length >= maxPassagesPerSource || passage.tokens > remaining) continue;
+
+    selected[passage.sourceIndex].push(passage);
+    chosen.add(passage);
+    remaining -= passage.tokens;
+  }
+
+  return candidates
+    .map((result, sourceIndex) => {
+      const sourcePassages = selected[sourceIndex].sort((a, b) => a.order - b.order);
+      return {
+        result,
+        passages: sourcePassages.map(p => p.text),
+        tokens: sourcePassages.reduce((sum, p) => sum + p.tokens, 0),
+      };
+    })
+    .slice(0, sourceLimit);
+}
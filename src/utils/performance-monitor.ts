@@ -269,45 +269,3 @@ export class ErrorTracker {
     };
   }
 }
-
-// Rate limiting tracker
-export class RateLimitTracker {
-  private static limits = new Map<string, {
-    count: number;
-    resetTime: number;
-    limit: number;
-  }>();
-  
-  static checkLimit(key: string, limit: number, windowMs: number): boolean {
-    const now = Date.now();
-    const current = this.limits.get(key);
-    
-    if (!current || now > current.resetTime) {
-      this.limits.set(key, {
-        count: 1,
-        resetTime: now + windowMs,
-        limit,
-      });
-      return true;
-    }
-    
-    if (current.count >= limit) {
-      return false;
-    }
-    
-    current.count++;
-    return true;
-  }
-  
-  static getRemainingRequests(key: string): number {
-    const current = this.limits.get(key);
-    if (!current) return 0;
-    
-    return Math.max(0, current.limit - current.count);
-  }
-  
-  static getResetTime(key: string): number {
-    const current = this.limits.get(key);
-    return current?.resetTime || 0;
-  }
-}
@@ -0,0 +1,35 @@
+import { PipelineProgressEvent, PipelineStage } from '@/types/search';
+
+type StageDetails = Pick<PipelineProgressEvent, 'provider' | 'label'>;
+type StageOutcome = Pick<PipelineProgressEvent, 'label' | 'resultsCount' | 'error'>;
+
+export interface ProgressTracker {
+  // Reports the stage as started and returns a function that reports how it ended
+  startStage(stage: PipelineStage, details?: StageDetails): (success: boolean, outcome?: StageOutcome) => void;
+}
+
+// Publishes stage events with timings relative to the start of the request.
+// Without a listener the tracker does nothing.
+export function createProgressTracker(
+  listener?: (event: PipelineProgressEvent) => void,
+  startedAt: number = Date.now()
+): ProgressTracker {
+  return {
+    startStage(stage, details = {}) {
+      const stageStart = Date.now();
+      listener?.({ stage, status: 'started', elapsed: stageStart - startedAt, ...details });
+
+      return (success, outcome = {}) => {
+        const now = Date.now();
+        listener?.({
+          stage,
+          status: success ? 'completed' : 'failed',
+          elapsed: now - startedAt,
+          duration: now - stageStart,
+          ...details,
+          ...outcome,
+        });
+      };
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import dns from 'dns';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import config from '@/lib/config';
+import { isPrivateAddress, isPrivateHost, lookupPublicAddress, PrivateAddressError } from './private-hosts';
+
+// Resolve every name to these addresses
+function stubDns(addresses: dns.LookupAddress[]) {
+  vi.spyOn(dns, 'lookup').mockImplementation(((_hostname: string, _options: unknown, callback: (error: null, addresses: dns.LookupAddress[]) => void) => {
+    callback(null, addresses);
+  }) as unknown as typeof dns.lookup);
+}
+
+function lookup(hostname: string, options: dns.LookupOptions = {}) {
+  return new Promise<{ error: Error | null; address: string | dns.LookupAddress[] }>(resolve =>
+    lookupPublicAddress(hostname, options, (error, address) => resolve({ error, address }))
+  );
+}
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1',
+    '::1', '::', 'fd00::1', 'fe80::1', 'ff02::1',
+    '::ffff:127.0.0.1', '::ffff:7f00:1', '[::ffff:a9fe:a9fe]', '::ffff:10.0.0.1', '64:ff9b::7f00:1', '::127.0.0.1',
+  ])('treats %s as private', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '8.8.8.8', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8', '64:ff9b::808:808'])(
+    'treats %s as public',
+    address => {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  );
+});
+
+describe('isPrivateHost', () => {
+  afterEach(() => {
+    config.contentFetch.allowedHosts = [];
+  });
+
+  it('refuses local names and private IP literals as URLs spell them', () => {
+    for (const url of ['http://localhost/', 'http://printer.local/', 'http://2130706433/', 'http://[::ffff:127.0.0.1]/', 'http://[::ffff:7f00:1]/']) {
+      expect(isPrivateHost(new URL(url).hostname)).toBe(true);
+    }
+    expect(isPrivateHost('example.org')).toBe(false);
+  });
+
+  it('lets allowed hosts through', () => {
+    config.contentFetch.allowedHosts = ['wiki.internal'];
+    expect(isPrivateHost('wiki.internal')).toBe(false);
+  });
+});
+
+describe('lookupPublicAddress', () => {
+  afterEach(() => {
+    config.contentFetch.allowedHosts = [];
+  });
+
+  it('refuses names that resolve to a private address', async () => {
+    stubDns([{ address: '93.184.216.34', family: 4 }, { address: '::ffff:169.254.169.254', family: 6 }]);
+    const { error } = await lookup('metadata.example.com');
+
+    expect(error).toBeInstanceOf(PrivateAddressError);
+    expect(error?.message).toContain('::ffff:169.254.169.254');
+  });
+
+  it('returns the checked addresses in the form asked for', async () => {
+    stubDns([{ address: '93.184.216.34', family: 4 }]);
+
+    expect((await lookup('example.com')).address).toBe('93.184.216.34');
+    expect((await lookup('example.com', { all: true })).address).toEqual([{ address: '93.184.216.34', family: 4 }]);
+  });
+
+  it('lets allowed hosts resolve to private addresses', async () => {
+    config.contentFetch.allowedHosts = ['wiki.corp.example'];
+    stubDns([{ address: '10.0.0.5', family: 4 }]);
+
+    expect(await lookup('wiki.corp.example')).toEqual({ error: null, address: '10.0.0.5' });
+  });
+});
@@ -0,0 +1,120 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import config from '@/lib/config';
+
+// Guards for fetching URLs that came from search results: they must never
+// reach the machine itself or the network it runs in
+
+export class PrivateAddressError extends Error {
+  constructor(public hostname: string, public address?: string) {
+    super(address
+      ? `Refusing to fetch ${hostname}: it resolves to private address ${address}`
+      : `Refusing to fetch private host ${hostname}`);
+    this.name = 'PrivateAddressError';
+  }
+}
+
+// Axios wraps errors from connecting and redirecting, keeping the original as the cause
+export function isPrivateAddressError(error: unknown): boolean {
+  return error instanceof PrivateAddressError
+    || (error instanceof Error && error.cause instanceof PrivateAddressError);
+}
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 198 && (b === 18 || b === 19))
+    || a >= 224; // Multicast and reserved
+}
+
+// The eight 16-bit groups of an IPv6 address
+function ipv6Groups(address: string): number[] {
+  let text = address;
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted[1].split('.').map(Number);
+    text = `${text.slice(0, -dotted[1].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split('::');
+  const parse = (part?: string) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  const [start, end] = [parse(head), parse(tail)];
+  return tail === undefined ? start : [...start, ...new Array(8 - start.length - end.length).fill(0), ...end];
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const groups = ipv6Groups(address);
+  const embeddedIPv4 = () => `${groups[6] >> 8}.${groups[6] & 255}.${groups[7] >> 8}.${groups[7] & 255}`;
+
+  // IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible (::a.b.c.d) and NAT64 (64:ff9b::a.b.c.d)
+  // addresses reach the IPv4 address they carry
+  if (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0xffff || groups[5] === 0)) {
+    return groups[5] === 0 && groups[6] === 0 ? groups[7] <= 1 : isPrivateIPv4(embeddedIPv4());
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isPrivateIPv4(embeddedIPv4());
+  }
+
+  return (groups[0] & 0xfe00) === 0xfc00 // Unique local
+    || (groups[0] & 0xffc0) === 0xfe80    // Link-local
+    || (groups[0] & 0xff00) === 0xff00;   // Multicast
+}
+
+// Loopback, private, link-local and other non-public IP addresses
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '');
+  switch (net.isIP(ip)) {
+    case 4:
+      return isPrivateIPv4(ip);
+    case 6:
+      return isPrivateIPv6(ip.toLowerCase());
+    default:
+      return false;
+  }
+}
+
+// Hostnames that must never be fetched on behalf of a search query, judged
+// by the name or IP address alone. Names that resolve to private addresses
+// are refused when they are looked up.
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (config.contentFetch.allowedHosts.includes(host)) return false;
+
+  return host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')
+    || isPrivateAddress(host);
+}
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void;
+
+// dns.lookup that fails when any address of the host is private. Connections
+// use the addresses checked here, so the name can't be rebound in between.
+export function lookupPublicAddress(hostname: string, options: dns.LookupOptions, callback: LookupCallback): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+
+    const allowed = config.contentFetch.allowedHosts.includes(hostname.toLowerCase());
+    const blocked = allowed ? undefined : addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) return callback(new PrivateAddressError(hostname, blocked.address), '');
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+// Axios options that keep every hop of a request, redirects included, to
+// public hosts: names are checked when resolved, IP addresses before redirecting
+export const PUBLIC_ONLY_REQUEST = {
+  httpAgent: new http.Agent({ lookup: lookupPublicAddress }),
+  httpsAgent: new https.Agent({ lookup: lookupPublicAddress }),
+  beforeRedirect: (options: { hostname?: string }) => {
+    if (options.hostname && isPrivateHost(options.hostname)) {
+      throw new PrivateAddressError(options.hostname);
+    }
+  },
+};
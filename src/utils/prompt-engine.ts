@@ -9,6 +9,7 @@ export interface PromptContext {
   previousQueries?: string[];
   userContext?: string;
   complexity?: 'simple' | 'detailed' | 'expert';
+  maxWords?: number; // Length limit of the caller's API tier
 }
 
 export class PromptEngine {
@@ -62,7 +63,7 @@ export class PromptEngine {
   
   // Generate contextual prompt based on intent
   static generateSearchPrompt(context: PromptContext): string {
-    const { query, results, intent, previousQueries, complexity = 'detailed' } = context;
+    const { query, results, intent, previousQueries, complexity = 'detailed', maxWords } = context;
     
     const basePrompt = this.getBasePrompt(complexity);
     const intentSpecificPrompt = this.getIntentSpecificPrompt(intent, complexity);
@@ -92,7 +93,7 @@ Response format:
 - Use personal pronouns and natural language to maintain a human-like tone
 - Provide relevant examples, context, or steps when helpful
 - End with a conversational conclusion offering personal perspective
-- Include follow-up questions that feel natural`;
+- Include follow-up questions that feel natural${maxWords ? `\n\nKeep the whole response under ${maxWords} words.` : ''}`;
   }
   
   private static getBasePrompt(complexity: string): string {
@@ -110,9 +111,9 @@ Response format:
   private static getIntentSpecificPrompt(intent: QueryIntent, complexity: string): string {
     const prompts = {
       research: {
-        simple: `Focus on providing factual information with clear, friendly explanations, like you're helping a curious friend understand the topic.`,
-        detailed: `Provide a conversational yet analytical response with proper citations. Balance accuracy and depth with a friendly, approachable tone, presenting multiple perspectives where relevant.`,
-        expert: `Deliver a scholarly yet accessible analysis with critical evaluation of sources and academic rigor, while maintaining a warm, engaging tone that makes complex information approachable.`
+        simple: `Focus on providing factual information with clear, friendly explanations, like you're helping a curious friend understand the topic. When a source is an academic paper, mention its authors and year, e.g. "Smith et al. (2023) [2]".`,
+        detailed: `Provide a conversational yet analytical response with proper citations. Balance accuracy and depth with a friendly, approachable tone, presenting multiple perspectives where relevant. Cite academic papers by author and year alongside the source number, e.g. "Smith et al. (2023) [2] found...".`,
+        expert: `Deliver a scholarly yet accessible analysis with critical evaluation of sources and academic rigor, while maintaining a warm, engaging tone that makes complex information approachable. Cite academic papers by author and year alongside the source number, e.g. "Smith et al. (2023) [2]", and note where findings are preprints.`
       },
       
       technical: {
@@ -156,6 +157,7 @@ Source: ${result.source}
 Relevance: ${result.relevanceScore}%
 Summary: ${result.snippet}
 ${result.publishedDate ? `Published: ${result.publishedDate}` : ''}
+${result.authors?.length ? this.formatAuthorLine(result) : ''}
 ---`;
     }).join('\n');
     
@@ -163,6 +165,30 @@ ${result.publishedDate ? `Published: ${result.publishedDate}` : ''}
 ${sourcesText}`;
   }
   
+  // "Smith", "Smith and Jones" or "Smith et al." style author lists
+  static formatAuthors(authors: string[]): string {
+    const surnames = authors.map(name => name.trim().split(/\s+/).pop() || name);
+    
+    if (surnames.length === 1) return surnames[0];
+    if (surnames.length === 2) return `${surnames[0]} and ${surnames[1]}`;
+    return `${surnames[0]} et al.`;
+  }
+  
+  // Author/year label for academic sources, e.g. "Smith et al. (2023)"
+  static formatPaperCitation(result: SearchResult): string {
+    const year = result.publishedDate ? new Date(result.publishedDate).getFullYear() : NaN;
+    const authors = this.formatAuthors(result.authors || []);
+    return Number.isNaN(year) ? authors : `${authors} (${year})`;
+  }
+  
+  // Prompt line listing a paper's authors (capped, large collaborations list hundreds)
+  static formatAuthorLine(result: SearchResult): string {
+    const authors = result.authors || [];
+    const listed = authors.slice(0, 5).join(', ');
+    const others = authors.length > 5 ? ` and ${authors.length - 5} others` : '';
+    return `Authors: ${listed}${others} (cite as ${this.formatPaperCitation(result)})`;
+  }
+  
   private static formatConversationContext(previousQueries?: string[]): string {
     if (!previousQueries || previousQueries.length === 0) {
       return '';
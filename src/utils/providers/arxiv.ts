@@ -0,0 +1,132 @@
+import axios from 'axios';
+import { SearchResult, SearchApiResponse, SearchProvider, SearchOptions } from '@/types/search';
+import config from '@/lib/config';
+import { consumeQuota } from '@/utils/quota';
+import { tokenize } from '@/utils/bm25';
+import { decodeEntities } from '@/utils/html-to-text';
+
+interface ArxivEntry {
+  id: string;
+  title: string;
+  summary: string;
+  published?: string;
+  authors: string[];
+  categories: string[];
+  pdfUrl?: string;
+}
+
+function getTagText(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeEntities(match[1]).replace(/\s+/g, ' ').trim() : undefined;
+}
+
+// Minimal Atom parsing; the arXiv feed is regular enough not to need an XML parser
+function parseArxivFeed(xml: string): { entries: ArxivEntry[]; totalResults: number } {
+  const entries = (xml.match(/<entry>[\s\S]*?<\/entry>/g) || []).map(entry => {
+    const authors = (entry.match(/<author>[\s\S]*?<\/author>/g) || [])
+      .map(author => getTagText(author, 'name'))
+      .filter((name): name is string => Boolean(name));
+    const categories = Array.from(entry.matchAll(/<category[^>]*term="([^"]+)"/g), m => m[1]);
+    const pdfLink = entry.match(/<link[^>]*title="pdf"[^>]*href="([^"]+)"/) || entry.match(/<link[^>]*href="([^"]+)"[^>]*title="pdf"/);
+
+    return {
+      id: getTagText(entry, 'id') || '',
+      title: getTagText(entry, 'title') || 'No title',
+      summary: getTagText(entry, 'summary') || '',
+      published: getTagText(entry, 'published'),
+      authors,
+      categories: [...new Set(categories)],
+      pdfUrl: pdfLink?.[1],
+    };
+  });
+
+  const total = parseInt(getTagText(xml, 'opensearch:totalResults') || '', 10);
+  return { entries, totalResults: Number.isFinite(total) ? total : entries.length };
+}
+
+function transformArxivEntry(entry: ArxivEntry, index: number): SearchResult {
+  const url = entry.id.replace(/^http:/, 'https:');
+  
+  return {
+    id: `arxiv_${index}_${Date.now()}`,
+    title: entry.title,
+    url,
+    snippet: entry.summary || 'No abstract available',
+    source: 'arxiv',
+    relevanceScore: Math.max(0, Math.min(100, 100 - (index * 5))), // Decreasing relevance
+    publishedDate: entry.published,
+    domain: new URL(url).hostname,
+    authors: entry.authors,
+    categories: entry.categories,
+    pdfUrl: entry.pdfUrl?.replace(/^http:/, 'https:'),
+  };
+}
+
+// arXiv Atom API (routed to research questions by default)
+export const arxivProvider: SearchProvider = {
+  id: 'arxiv',
+  name: 'arXiv',
+  capabilities: {
+    timeRange: false,
+    language: false,
+    region: false,
+    maxResults: 5,
+  },
+  weight: 90,
+
+  isConfigured() {
+    return Boolean(config.arxivApiUrl);
+  },
+
+  async search(query: string, options: SearchOptions, signal?: AbortSignal): Promise<SearchApiResponse> {
+    const startTime = Date.now();
+    
+    try {
+      if (!(await consumeQuota('arxiv'))) {
+        throw new Error('Quota exhausted for arXiv');
+      }
+
+      // Require every meaningful term to appear somewhere in the paper metadata
+      const terms = tokenize(query).slice(0, 6);
+      const searchQuery = terms.length > 0
+        ? terms.map(term => `all:${term}`).join(' AND ')
+        : `all:"${query.replace(/"/g, '')}"`;
+
+      const response = await axios.get(config.arxivApiUrl, {
+        params: {
+          search_query: searchQuery,
+          start: 0,
+          max_results: Math.min(options.maxResults ?? config.maxResultsPerSource, arxivProvider.capabilities.maxResults),
+          sortBy: 'relevance',
+        },
+        headers: {
+          'User-Agent': 'EvaSearchGPT/1.0',
+        },
+        responseType: 'text',
+        timeout: config.searchTimeout,
+        signal: signal, // Support for AbortController
+      });
+
+      const { entries, totalResults } = parseArxivFeed(response.data);
+      const transformedResults = entries.filter(entry => entry.id).map(transformArxivEntry);
+
+      return {
+        results: transformedResults,
+        totalResults,
+        processingTime: Date.now() - startTime,
+        source: 'arxiv',
+        success: true,
+      };
+    } catch (error) {
+      console.error('arXiv error:', error);
+      return {
+        results: [],
+        totalResults: 0,
+        processingTime: Date.now() - startTime,
+        source: 'arxiv',
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  },
+};
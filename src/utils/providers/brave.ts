@@ -0,0 +1,120 @@
+import axios from 'axios';
+import { SearchResult, SearchApiResponse, SearchProvider, SearchOptions } from '@/types/search';
+import config from '@/lib/config';
+import { consumeQuota } from '@/utils/quota';
+import { SearchFilters } from '@/utils/search-filters';
+
+const BRAVE_FRESHNESS: Record<string, string> = {
+  day: 'pd',
+  week: 'pw',
+  month: 'pm',
+  year: 'py',
+};
+
+// Brave's native freshness/country/search_lang parameters for the request filters
+function getFilterParams(filters: SearchFilters = {}): Record<string, string> {
+  const params: Record<string, string> = {};
+  
+  if (filters.timeRange && BRAVE_FRESHNESS[filters.timeRange]) {
+    params.freshness = BRAVE_FRESHNESS[filters.timeRange];
+  }
+  if (filters.language) {
+    params.search_lang = filters.language.toLowerCase();
+  }
+  if (filters.region) {
+    params.country = filters.region.toUpperCase();
+  }
+  
+  return params;
+}
+
+interface BraveSearchResult {
+  title?: string;
+  url?: string;
+  link?: string;
+  description?: string;
+  snippet?: string;
+  published_date?: string;
+  age?: string;
+  date?: string;
+  thumbnail?: { src?: string };
+  page_rank?: number;
+}
+
+function transformBraveResult(result: BraveSearchResult, index: number): SearchResult {
+  return {
+    id: `brave_${index}_${Date.now()}`,
+    title: result.title || 'No title',
+    url: result.url || result.link || '',
+    snippet: result.description || result.snippet || 'No description available',
+    source: 'brave',
+    relevanceScore: Math.max(0, Math.min(100, 100 - (index * 3))), // Decreasing relevance
+    publishedDate: result.published_date || result.age || result.date,
+    imageUrl: result.thumbnail?.src || undefined,
+    domain: result.url ? new URL(result.url).hostname : (result.link ? new URL(result.link).hostname : undefined),
+  };
+}
+
+// Brave Search API via RapidAPI
+export const braveProvider: SearchProvider = {
+  id: 'brave',
+  name: 'Brave Search',
+  capabilities: {
+    timeRange: true,
+    language: true,
+    region: true,
+    maxResults: 5, // Limit results for faster response
+  },
+  weight: 85,
+
+  isConfigured() {
+    return Boolean(config.braveRapidApiKey && config.braveRapidApiHost);
+  },
+
+  async search(query: string, options: SearchOptions, signal?: AbortSignal): Promise<SearchApiResponse> {
+    const startTime = Date.now();
+    
+    try {
+      if (!(await consumeQuota('brave'))) {
+        throw new Error('Quota exhausted for Brave Search');
+      }
+
+      const response = await axios.get(`https://${config.braveRapidApiHost}/search`, {
+        params: {
+          q: query,
+          count: Math.min(options.maxResults ?? config.maxResultsPerSource, braveProvider.capabilities.maxResults),
+          ...getFilterParams(options.filters),
+          ...options.params,
+        },
+        headers: {
+          'x-rapidapi-host': config.braveRapidApiHost,
+          'x-rapidapi-key': config.braveRapidApiKey,
+          'User-Agent': 'EvaSearchGPT/1.0',
+        },
+        timeout: 24000, // Doubled timeout for better reliability
+        signal: signal, // Support for AbortController
+      });
+
+      const results = response.data.results || response.data.web?.results || [];
+      const transformedResults = results.map(transformBraveResult);
+
+      return {
+        results: transformedResults,
+        totalResults: response.data.total_results || response.data.web?.totalResults || results.length,
+        processingTime: Date.now() - startTime,
+        source: 'brave',
+        success: true,
+      };
+    } catch (error) {
+      console.error('Brave Search error:', error);
+      return {
+        results: [],
+        totalResults: 0,
+        processingTime: Date.now() - startTime,
+        source: 'brave',
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  },
+};
@@ -0,0 +1,23 @@
+import { SearchProvider } from '@/types/search';
+import { ProviderRegistry } from './registry';
+import { braveProvider } from './brave';
+import { serpApiProvider } from './serpapi';
+import { searxngProvider } from './searxng';
+import { localCorpusProvider } from './local-corpus';
+import { mediawikiProvider } from './mediawiki';
+import { arxivProvider } from './arxiv';
+
+// Built-in search backends. To add a new one, create a module exporting a
+// SearchProvider and list it here.
+export const builtinProviders: SearchProvider[] = [
+  braveProvider,
+  serpApiProvider,
+  searxngProvider,
+  localCorpusProvider,
+  mediawikiProvider,
+  arxivProvider,
+];
+
+builtinProviders.forEach(provider => ProviderRegistry.register(provider));
+
+export { ProviderRegistry } from './registry';
@@ -0,0 +1,42 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import config from '@/lib/config';
+import { localCorpusProvider } from './local-corpus';
+
+describe('localCorpusProvider', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'local-corpus-'));
+    await fs.mkdir(path.join(root, 'energy plans'));
+    await fs.writeFile(path.join(root, 'energy plans', 'solar.md'), '# Solar power\n\nPanels turn sunlight into electricity.\n\n## Costs\n\nSolar panels cost less every year.');
+    await fs.writeFile(path.join(root, 'wind.md'), '# Wind power\n\nTurbines turn wind into electricity.');
+    config.corpusDir = root;
+    config.corpusIndexPath = path.join(root, '.cache', 'index.json');
+    config.appUrl = 'https://search.example.com/';
+  });
+
+  afterAll(() => fs.rm(root, { recursive: true, force: true }));
+
+  it('is configured only with a corpus directory', () => {
+    expect(localCorpusProvider.isConfigured()).toBe(true);
+  });
+
+  it('returns the best chunk of each matching document, linked through /api/corpus', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const response = await localCorpusProvider.search('solar panel costs', { maxResults: 5 });
+
+    expect(response).toMatchObject({ success: true, source: 'local', totalResults: 1 });
+    expect(response.results[0]).toMatchObject({
+      title: 'Solar power — Costs',
+      url: 'https://search.example.com/api/corpus/energy%20plans/solar.md',
+      snippet: 'Solar panels cost less every year.',
+      source: 'local',
+      relevanceScore: 100,
+      domain: 'local documents',
+    });
+    expect(await fs.stat(config.corpusIndexPath)).toBeTruthy();
+  });
+});
@@ -0,0 +1,100 @@
+import { SearchResult, SearchApiResponse, SearchProvider, SearchOptions } from '@/types/search';
+import config from '@/lib/config';
+import { loadCorpusIndex, searchCorpus, CorpusIndex, CorpusHit } from '@/utils/corpus-index';
+
+// How often to re-check the corpus directory for changes
+const STALE_CHECK_INTERVAL = 60000;
+
+let cachedCorpus: CorpusIndex | null = null;
+let lastCheckedAt = 0;
+let loading: Promise<CorpusIndex> | null = null;
+
+async function getCorpus(): Promise<CorpusIndex> {
+  if (cachedCorpus && Date.now() - lastCheckedAt < STALE_CHECK_INTERVAL) {
+    return cachedCorpus;
+  }
+
+  // Share one load between concurrent searches
+  if (!loading) {
+    loading = loadCorpusIndex(config.corpusDir, config.corpusIndexPath)
+      .then(corpus => {
+        cachedCorpus = corpus;
+        lastCheckedAt = Date.now();
+        return corpus;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+
+  return loading;
+}
+
+// Internal URL served by /api/corpus so citations stay clickable
+function getDocumentUrl(documentPath: string): string {
+  const encodedPath = documentPath.split('/').map(encodeURIComponent).join('/');
+  return `${config.appUrl.replace(/\/+$/, '')}/api/corpus/${encodedPath}`;
+}
+
+function transformCorpusHit(hit: CorpusHit, index: number, topScore: number): SearchResult {
+  const { document, chunk } = hit;
+  
+  return {
+    id: `local_${index}_${Date.now()}`,
+    title: chunk.heading && chunk.heading !== document.title
+      ? `${document.title} — ${chunk.heading}`
+      : document.title,
+    url: getDocumentUrl(document.path),
+    snippet: chunk.text,
+    source: 'local',
+    relevanceScore: topScore > 0 ? Math.round((hit.score / topScore) * 100) : 0,
+    publishedDate: new Date(document.mtimeMs).toISOString(),
+    domain: 'local documents',
+  };
+}
+
+// BM25 search over a local directory of Markdown/HTML/text documents
+export const localCorpusProvider: SearchProvider = {
+  id: 'local',
+  name: 'Local documents',
+  capabilities: {
+    timeRange: false,
+    language: false,
+    region: false,
+    maxResults: 5,
+  },
+  weight: 90,
+
+  isConfigured() {
+    return Boolean(config.corpusDir);
+  },
+
+  async search(query: string, options: SearchOptions): Promise<SearchApiResponse> {
+    const startTime = Date.now();
+    
+    try {
+      const corpus = await getCorpus();
+      const maxResults = Math.min(options.maxResults ?? config.maxResultsPerSource, localCorpusProvider.capabilities.maxResults);
+      const hits = searchCorpus(corpus, query, maxResults);
+      const topScore = hits[0]?.score || 0;
+
+      return {
+        results: hits.map((hit, index) => transformCorpusHit(hit, index, topScore)),
+        totalResults: hits.length,
+        processingTime: Date.now() - startTime,
+        source: 'local',
+        success: true,
+      };
+    } catch (error) {
+      console.error('Local corpus search error:', error);
+      return {
+        results: [],
+        totalResults: 0,
+        processingTime: Date.now() - startTime,
+        source: 'local',
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  },
+};
@@ -0,0 +1,108 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import config from '@/lib/config';
+import { createMemoryQuotaStore, setQuotaStore } from '@/utils/quota';
+import { FixtureServer, sendJson, startFixtureServer } from '@/test/fixture-server';
+import { ProviderRegistry } from './index';
+import { mediawikiProvider } from './mediawiki';
+
+const EXTRACTS: Record<string, string> = {
+  '101': [
+    'Solar power is the conversion of sunlight into electricity.',
+    '== History ==',
+    'The photovoltaic effect was discovered in 1839.',
+    '== Costs ==',
+    'Panel costs fell by 90 percent over the last decade. Installation costs fell more slowly.',
+    '=== Subsidies ===',
+    'Many countries subsidise rooftop panels.',
+    '== References ==',
+    'Smith, J. (2020). Solar costs.',
+  ].join('\n'),
+  '202': 'Wind power uses turbines.',
+};
+
+describe('mediawikiProvider', () => {
+  let server: FixtureServer;
+  let failing = false;
+
+  beforeAll(async () => {
+    server = await startFixtureServer((request, response) => {
+      const params = new URL(request.url || '/', 'http://localhost').searchParams;
+      if (failing) return sendJson(response, { error: 'down' }, 503);
+
+      if (params.get('generator') === 'search') {
+        return sendJson(response, {
+          query: {
+            searchinfo: { totalhits: 57 },
+            pages: [
+              { pageid: 202, title: 'Wind power', index: 2 },
+              { pageid: 101, title: 'Solar power', index: 1, fullurl: 'https://wiki.example.org/wiki/Solar_power' },
+              { pageid: 303, title: 'Deleted page', index: 3, missing: true },
+            ],
+          },
+        });
+      }
+      sendJson(response, { query: { pages: [{ pageid: Number(params.get('pageids')), extract: EXTRACTS[params.get('pageids')!] }] } });
+    });
+    config.mediawikiApiUrl = `${server.url}/w/api.php`;
+  });
+
+  afterAll(() => server.close());
+
+  beforeEach(() => {
+    failing = false;
+    server.requests.length = 0;
+    setQuotaStore(createMemoryQuotaStore());
+  });
+
+  it('is enabled by default', () => {
+    expect(ProviderRegistry.isEnabled('mediawiki')).toBe(true);
+  });
+
+  it('searches, then fetches each article as plain text with its sections', async () => {
+    const response = await mediawikiProvider.search('solar panel costs', {});
+
+    expect(response).toMatchObject({ success: true, source: 'mediawiki', totalResults: 57 });
+    expect(server.requests[0].pathname).toBe('/w/api.php');
+    expect(Object.fromEntries(server.requests[0].searchParams)).toMatchObject({
+      action: 'query',
+      format: 'json',
+      formatversion: '2',
+      generator: 'search',
+      gsrsearch: 'solar panel costs',
+      gsrlimit: '3',
+      gsrnamespace: '0',
+    });
+    expect(server.requests.slice(1).map(url => url.searchParams.get('exsectionformat'))).toEqual(['wiki', 'wiki']);
+
+    expect(response.results.map(result => result.title)).toEqual(['Solar power', 'Wind power']);
+    expect(response.results[0]).toMatchObject({
+      url: 'https://wiki.example.org/wiki/Solar_power',
+      domain: 'wiki.example.org',
+      snippet: 'Solar power is the conversion of sunlight into electricity.',
+      relevanceScore: 100,
+    });
+    expect(response.results[1]).toMatchObject({
+      url: `${server.url}/w/index.php?curid=202`,
+      snippet: 'Wind power uses turbines.',
+      relevanceScore: 95,
+    });
+  });
+
+  it('keeps the intro and the sections matching the query, in article order, without references', async () => {
+    const [solar] = (await mediawikiProvider.search('panel costs subsidies', {})).results;
+
+    expect(solar.content).toBe([
+      'Solar power is the conversion of sunlight into electricity.',
+      '## Costs\nPanel costs fell by 90 percent over the last decade. Installation costs fell more slowly.',
+      '## Subsidies\nMany countries subsidise rooftop panels.',
+    ].join('\n\n'));
+  });
+
+  it('reports a failing API without throwing', async () => {
+    failing = true;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await mediawikiProvider.search('solar', {});
+    expect(response).toMatchObject({ success: false, results: [], error: expect.stringContaining('503') });
+  });
+});
@@ -0,0 +1,173 @@
+import axios from 'axios';
+import { SearchResult, SearchApiResponse, SearchProvider, SearchOptions } from '@/types/search';
+import config from '@/lib/config';
+import { consumeQuota } from '@/utils/quota';
+import { rankBM25, buildInvertedIndex } from '@/utils/bm25';
+
+// Bound the article text carried on each result
+const MAX_SNIPPET_CHARS = 500;
+const MAX_CONTENT_CHARS = 6000;
+const MAX_SECTIONS = 3;
+
+// Sections that never carry article content
+const SKIPPED_SECTIONS = new Set([
+  'references', 'external links', 'see also', 'notes', 'further reading',
+  'bibliography', 'sources', 'citations', 'footnotes',
+]);
+
+interface MediaWikiPage {
+  pageid: number;
+  title: string;
+  index?: number;
+  extract?: string;
+  fullurl?: string;
+  missing?: boolean;
+}
+
+interface ArticleSection {
+  heading: string;
+  text: string;
+}
+
+// Split a plain-text extract (exsectionformat=wiki) into intro + sections
+function splitSections(extract: string): { intro: string; sections: ArticleSection[] } {
+  const parts = extract.split(/^(={2,6})\s*(.+?)\s*\1\s*$/m);
+  const intro = parts[0].trim();
+  const sections: ArticleSection[] = [];
+
+  for (let i = 1; i + 2 < parts.length; i += 3) {
+    const heading = parts[i + 1]?.trim();
+    const text = parts[i + 2]?.trim();
+    if (heading && text && !SKIPPED_SECTIONS.has(heading.toLowerCase())) {
+      sections.push({ heading, text });
+    }
+  }
+
+  return { intro, sections };
+}
+
+function truncateAtSentence(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+
+  const cut = text.slice(0, maxChars);
+  const lastSentence = cut.lastIndexOf('. ');
+  return lastSentence > maxChars * 0.5 ? cut.slice(0, lastSentence + 1) : `${cut.trimEnd()}…`;
+}
+
+// Intro plus the sections most relevant to the query, in article order
+function buildArticleContent(query: string, intro: string, sections: ArticleSection[]): string {
+  const ranked = rankBM25(
+    buildInvertedIndex(sections.map(s => `${s.heading} ${s.text}`)),
+    query,
+    MAX_SECTIONS
+  ).map(([sectionIndex]) => sectionIndex).sort((a, b) => a - b);
+
+  let content = intro;
+  for (const sectionIndex of ranked) {
+    const { heading, text } = sections[sectionIndex];
+    const remaining = MAX_CONTENT_CHARS - content.length;
+    if (remaining < 200) break;
+    content += `\n\n## ${heading}\n${truncateAtSentence(text, remaining)}`;
+  }
+
+  return truncateAtSentence(content, MAX_CONTENT_CHARS);
+}
+
+function apiGet(params: Record<string, string | number>, signal?: AbortSignal) {
+  return axios.get(config.mediawikiApiUrl, {
+    params: { action: 'query', format: 'json', formatversion: 2, ...params },
+    headers: {
+      'User-Agent': `EvaSearchGPT/1.0 (${config.appUrl})`,
+    },
+    timeout: config.searchTimeout,
+    signal: signal, // Support for AbortController
+  });
+}
+
+// MediaWiki action API (Wikipedia by default, or any MediaWiki install)
+export const mediawikiProvider: SearchProvider = {
+  id: 'mediawiki',
+  name: 'Wikipedia',
+  capabilities: {
+    timeRange: false,
+    language: false,
+    region: false,
+    maxResults: 3, // One full-article request per result
+  },
+  weight: 90,
+
+  isConfigured() {
+    return Boolean(config.mediawikiApiUrl);
+  },
+
+  async search(query: string, options: SearchOptions, signal?: AbortSignal): Promise<SearchApiResponse> {
+    const startTime = Date.now();
+    
+    try {
+      if (!(await consumeQuota('mediawiki'))) {
+        throw new Error('Quota exhausted for MediaWiki');
+      }
+
+      const maxResults = Math.min(options.maxResults ?? config.maxResultsPerSource, mediawikiProvider.capabilities.maxResults);
+
+      // Search and resolve canonical URLs in one call
+      const searchResponse = await apiGet({
+        generator: 'search',
+        gsrsearch: query,
+        gsrlimit: maxResults,
+        gsrnamespace: 0,
+        prop: 'info',
+        inprop: 'url',
+      }, signal);
+
+      const pages: MediaWikiPage[] = (searchResponse.data.query?.pages || [])
+        .filter((page: MediaWikiPage) => !page.missing)
+        .sort((a: MediaWikiPage, b: MediaWikiPage) => (a.index ?? 0) - (b.index ?? 0));
+
+      // Full plain-text extracts can only be fetched one page per request
+      const extracts = await Promise.all(pages.map(async page => {
+        const extractResponse = await apiGet({
+          prop: 'extracts',
+          explaintext: 1,
+          exsectionformat: 'wiki',
+          pageids: page.pageid,
+        }, signal);
+        return (extractResponse.data.query?.pages?.[0]?.extract as string | undefined) || '';
+      }));
+
+      const transformedResults: SearchResult[] = pages.map((page, index) => {
+        const { intro, sections } = splitSections(extracts[index]);
+        const url = page.fullurl || `${config.mediawikiApiUrl.replace(/\/api\.php$/, '')}/index.php?curid=${page.pageid}`;
+
+        return {
+          id: `mediawiki_${index}_${Date.now()}`,
+          title: page.title,
+          url,
+          snippet: truncateAtSentence(intro || 'No description available', MAX_SNIPPET_CHARS),
+          content: buildArticleContent(query, intro, sections),
+          source: 'mediawiki',
+          relevanceScore: Math.max(0, Math.min(100, 100 - (index * 5))), // Decreasing relevance
+          domain: new URL(url).hostname,
+        };
+      });
+
+      return {
+        results: transformedResults,
+        totalResults: searchResponse.data.query?.searchinfo?.totalhits || transformedResults.length,
+        processingTime: Date.now() - startTime,
+        source: 'mediawiki',
+        success: true,
+      };
+    } catch (error) {
+      console.error('MediaWiki error:', error);
+      return {
+        results: [],
+        totalResults: 0,
+        processingTime: Date.now() - startTime,
+        source: 'mediawiki',
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  },
+};
@@ -0,0 +1,40 @@
+import { SearchProvider } from '@/types/search';
+import config from '@/lib/config';
+
+// Registry of available search backends
+export class ProviderRegistry {
+  private static providers = new Map<string, SearchProvider>();
+
+  static register(provider: SearchProvider) {
+    if (this.providers.has(provider.id)) {
+      console.warn(`Search provider "${provider.id}" is already registered, replacing it`);
+    }
+
+    this.providers.set(provider.id, provider);
+  }
+
+  static unregister(id: string) {
+    this.providers.delete(id);
+  }
+
+  static get(id: string): SearchProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  static list(): SearchProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  // Providers listed in config.searchProviders that have their credentials set,
+  // in the configured order
+  static getEnabled(): SearchProvider[] {
+    return config.searchProviders
+      .map(id => this.providers.get(id))
+      .filter((provider): provider is SearchProvider => Boolean(provider && provider.isConfigured()));
+  }
+
+  static isEnabled(id: string): boolean {
+    const provider = this.providers.get(id);
+    return Boolean(provider && config.searchProviders.includes(id) && provider.isConfigured());
+  }
+}
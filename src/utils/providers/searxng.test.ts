@@ -0,0 +1,101 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import config from '@/lib/config';
+import { createMemoryQuotaStore, setQuotaStore } from '@/utils/quota';
+import { FixtureServer, sendJson, startFixtureServer } from '@/test/fixture-server';
+import { searxngProvider } from './searxng';
+
+const RESULTS = [
+  {
+    url: 'https://example.org/ai',
+    title: 'Artificial intelligence',
+    content: 'An overview of AI.',
+    engines: ['duckduckgo', 'bing'],
+    publishedDate: '2024-05-01T00:00:00',
+    thumbnail: 'https://example.org/ai.png',
+  },
+  { title: 'Result without a URL', content: 'Dropped' },
+  { url: 'https://news.example.com/story', engine: 'google' },
+];
+
+describe('searxngProvider', () => {
+  let server: FixtureServer;
+  let status = 200;
+
+  beforeAll(async () => {
+    server = await startFixtureServer((request, response) =>
+      sendJson(response, status === 200 ? { results: RESULTS, number_of_results: 42 } : { error: 'down' }, status)
+    );
+    config.searxngUrl = `${server.url}/`;
+  });
+
+  afterAll(() => server.close());
+
+  beforeEach(() => {
+    status = 200;
+    server.requests.length = 0;
+    setQuotaStore(createMemoryQuotaStore());
+  });
+
+  it('maps SearXNG results and skips those without a URL', async () => {
+    const response = await searxngProvider.search('artificial intelligence', {});
+
+    expect(response).toMatchObject({ success: true, source: 'searxng', totalResults: 42 });
+    expect(response.results).toHaveLength(2);
+    expect(response.results[0]).toMatchObject({
+      title: 'Artificial intelligence',
+      url: 'https://example.org/ai',
+      snippet: 'An overview of AI.',
+      source: 'searxng',
+      domain: 'example.org',
+      engines: ['duckduckgo', 'bing'],
+      publishedDate: '2024-05-01T00:00:00',
+      imageUrl: 'https://example.org/ai.png',
+    });
+    expect(response.results[1]).toMatchObject({
+      title: 'No title',
+      snippet: 'No description available',
+      domain: 'news.example.com',
+      engines: ['google'],
+    });
+    expect(response.results[0].relevanceScore).toBeGreaterThan(response.results[1].relevanceScore!);
+  });
+
+  it('requests JSON for the query from the instance without a doubled slash', async () => {
+    await searxngProvider.search('artificial intelligence', {});
+
+    const [request] = server.requests;
+    expect(request.pathname).toBe('/search');
+    expect(request.searchParams.get('q')).toBe('artificial intelligence');
+    expect(request.searchParams.get('format')).toBe('json');
+    expect(request.searchParams.has('time_range')).toBe(false);
+    expect(request.searchParams.has('language')).toBe(false);
+  });
+
+  it('sends filters as time_range and language, with the region as a locale', async () => {
+    await searxngProvider.search('elections', { filters: { timeRange: 'week', language: 'EN', region: 'us' } });
+    await searxngProvider.search('wahlen', { filters: { timeRange: 'all', language: 'de' } });
+
+    const [withRegion, withoutRegion] = server.requests;
+    expect(withRegion.searchParams.get('time_range')).toBe('week');
+    expect(withRegion.searchParams.get('language')).toBe('en-US');
+    expect(withoutRegion.searchParams.has('time_range')).toBe(false);
+    expect(withoutRegion.searchParams.get('language')).toBe('de');
+  });
+
+  it('passes provider-specific parameters and caps the results', async () => {
+    const response = await searxngProvider.search('laptops', { params: { categories: 'shopping' }, maxResults: 1 });
+
+    expect(server.requests[0].searchParams.get('categories')).toBe('shopping');
+    expect(response.results).toHaveLength(1);
+  });
+
+  it('reports a failed request instead of throwing', async () => {
+    status = 500;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const response = await searxngProvider.search('anything', {});
+
+    expect(response.success).toBe(false);
+    expect(response.results).toEqual([]);
+    expect(response.error).toMatch(/500/);
+  });
+});
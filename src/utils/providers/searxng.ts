@@ -0,0 +1,116 @@
+import axios from 'axios';
+import { SearchResult, SearchApiResponse, SearchProvider, SearchOptions } from '@/types/search';
+import config from '@/lib/config';
+import { consumeQuota } from '@/utils/quota';
+import { SearchFilters } from '@/utils/search-filters';
+
+// SearXNG's time_range/language parameters; region is expressed as a locale (en-US)
+function getFilterParams(filters: SearchFilters = {}): Record<string, string> {
+  const params: Record<string, string> = {};
+  
+  if (filters.timeRange && filters.timeRange !== 'all') {
+    params.time_range = filters.timeRange;
+  }
+  if (filters.language) {
+    params.language = filters.region
+      ? `${filters.language.toLowerCase()}-${filters.region.toUpperCase()}`
+      : filters.language.toLowerCase();
+  }
+  
+  return params;
+}
+
+interface SearxngResult {
+  url?: string;
+  title?: string;
+  content?: string;
+  engine?: string;
+  engines?: string[];
+  score?: number;
+  publishedDate?: string | null;
+  pubdate?: string;
+  img_src?: string;
+  thumbnail?: string;
+}
+
+function transformSearxngResult(result: SearxngResult, index: number): SearchResult {
+  const engines = result.engines?.length ? result.engines : (result.engine ? [result.engine] : undefined);
+  
+  return {
+    id: `searxng_${index}_${Date.now()}`,
+    title: result.title || 'No title',
+    url: result.url || '',
+    snippet: result.content || 'No description available',
+    source: 'searxng',
+    relevanceScore: Math.max(0, Math.min(100, 100 - (index * 4))), // Decreasing relevance
+    publishedDate: result.publishedDate || result.pubdate || undefined,
+    imageUrl: result.thumbnail || result.img_src || undefined,
+    domain: result.url ? new URL(result.url).hostname : undefined,
+    engines,
+  };
+}
+
+// Self-hosted SearXNG metasearch instance (JSON output must be enabled in its settings.yml)
+export const searxngProvider: SearchProvider = {
+  id: 'searxng',
+  name: 'SearXNG',
+  capabilities: {
+    timeRange: true,
+    language: true,
+    region: false,
+    maxResults: 10,
+  },
+  weight: 80,
+
+  isConfigured() {
+    return Boolean(config.searxngUrl);
+  },
+
+  async search(query: string, options: SearchOptions, signal?: AbortSignal): Promise<SearchApiResponse> {
+    const startTime = Date.now();
+    
+    try {
+      if (!(await consumeQuota('searxng'))) {
+        throw new Error('Quota exhausted for SearXNG');
+      }
+
+      const response = await axios.get(`${config.searxngUrl.replace(/\/+$/, '')}/search`, {
+        params: {
+          q: query,
+          format: 'json',
+          pageno: 1,
+          safesearch: 1,
+          ...getFilterParams(options.filters),
+          ...options.params, // e.g. categories, engines
+        },
+        headers: {
+          'User-Agent': 'EvaSearchGPT/1.0',
+        },
+        timeout: config.searchTimeout,
+        signal: signal, // Support for AbortController
+      });
+
+      const maxResults = Math.min(options.maxResults ?? config.maxResultsPerSource, searxngProvider.capabilities.maxResults);
+      const results: SearxngResult[] = (response.data.results || []).filter((r: SearxngResult) => r.url);
+      const transformedResults = results.slice(0, maxResults).map(transformSearxngResult);
+
+      return {
+        results: transformedResults,
+        totalResults: response.data.number_of_results || results.length,
+        processingTime: Date.now() - startTime,
+        source: 'searxng',
+        success: true,
+      };
+    } catch (error) {
+      console.error('SearXNG error:', error);
+      return {
+        results: [],
+        totalResults: 0,
+        processingTime: Date.now() - startTime,
+        source: 'searxng',
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  },
+};
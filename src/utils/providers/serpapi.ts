@@ -0,0 +1,129 @@
+import axios from 'axios';
+import { SearchResult, SearchApiResponse, SearchProvider, SearchOptions } from '@/types/search';
+import config from '@/lib/config';
+import { consumeQuota } from '@/utils/quota';
+import { SearchFilters } from '@/utils/search-filters';
+
+const SERP_TIME_RANGES: Record<string, string> = {
+  day: 'qdr:d',
+  week: 'qdr:w',
+  month: 'qdr:m',
+  year: 'qdr:y',
+};
+
+// Google's native tbs/hl/gl parameters for the request filters
+function getFilterParams(filters: SearchFilters = {}): Record<string, string> {
+  const params: Record<string, string> = {
+    hl: filters.language?.toLowerCase() || 'en',
+    gl: filters.region?.toLowerCase() || 'us',
+  };
+  
+  if (filters.timeRange && SERP_TIME_RANGES[filters.timeRange]) {
+    params.tbs = SERP_TIME_RANGES[filters.timeRange];
+  }
+  
+  return params;
+}
+
+interface SerpSearchResult {
+  title?: string;
+  link?: string;
+  product_link?: string;
+  snippet?: string;
+  date?: string;
+  thumbnail?: string;
+  displayed_link?: string;
+  source?: string; // Publisher (news) or merchant (shopping)
+  price?: string;
+  rating?: number;
+  reviews?: number;
+}
+
+// Shopping results have no snippet, so describe the offer instead
+function describeShoppingResult(result: SerpSearchResult): string | undefined {
+  const parts = [
+    result.price && `Price: ${result.price}`,
+    result.source && `Sold by ${result.source}`,
+    result.rating && `Rated ${result.rating}/5${result.reviews ? ` (${result.reviews} reviews)` : ''}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : undefined;
+}
+
+function transformSerpResult(result: SerpSearchResult, index: number): SearchResult {
+  const url = result.link || result.product_link || '';
+  
+  return {
+    id: `serp_${index}_${Date.now()}`,
+    title: result.title || 'No title',
+    url,
+    snippet: result.snippet || describeShoppingResult(result) || 'No description available',
+    source: 'serpapi',
+    relevanceScore: Math.max(0, Math.min(100, 100 - (index * 5))), // Decreasing relevance
+    publishedDate: result.date,
+    imageUrl: result.thumbnail,
+    domain: result.displayed_link || (url ? new URL(url).hostname : undefined),
+  };
+}
+
+// SerpAPI (Google results). Route params are passed straight through, so
+// { tbm: 'nws' } returns Google News and { engine: 'google_shopping' } Shopping.
+export const serpApiProvider: SearchProvider = {
+  id: 'serpapi',
+  name: 'SerpAPI',
+  capabilities: {
+    timeRange: true,
+    language: true,
+    region: true,
+    maxResults: 5, // Limit results for faster response
+  },
+  weight: 90,
+
+  isConfigured() {
+    return Boolean(config.serpApiKey);
+  },
+
+  async search(query: string, options: SearchOptions, signal?: AbortSignal): Promise<SearchApiResponse> {
+    const startTime = Date.now();
+    
+    try {
+      if (!(await consumeQuota('serpapi'))) {
+        throw new Error('Quota exhausted for SerpAPI');
+      }
+
+      const response = await axios.get('https://serpapi.com/search', {
+        params: {
+          q: query,
+          engine: 'google',
+          api_key: config.serpApiKey,
+          num: Math.min(options.maxResults ?? config.maxResultsPerSource, serpApiProvider.capabilities.maxResults),
+          safe: 'active',
+          ...getFilterParams(options.filters),
+          ...options.params,
+        },
+        timeout: 24000, // Doubled timeout for better reliability
+        signal: signal, // Support for AbortController
+      });
+
+      const results = response.data.organic_results || response.data.news_results || response.data.shopping_results || [];
+      const transformedResults = results.map(transformSerpResult);
+
+      return {
+        results: transformedResults,
+        totalResults: response.data.search_information?.total_results || 0,
+        processingTime: Date.now() - startTime,
+        source: 'serpapi',
+        success: true,
+      };
+    } catch (error) {
+      console.error('SerpAPI error:', error);
+      return {
+        results: [],
+        totalResults: 0,
+        processingTime: Date.now() - startTime,
+        source: 'serpapi',
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  },
+};
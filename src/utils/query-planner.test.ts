@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import config from '@/lib/config';
+import { createFakeLLMProvider } from './llm/fake';
+import { setModelChain } from './llm/fallback';
+import { needsDecomposition, planQuery } from './query-planner';
+
+const MODEL_PLAN = JSON.stringify({
+  subQueries: [
+    { query: 'Stripe founders', purpose: 'Who founded Stripe' },
+    { query: 'Stripe IPO date', purpose: 'When Stripe went public' },
+  ],
+});
+
+describe('needsDecomposition', () => {
+  it('splits comparisons, several questions and long lists of aspects', () => {
+    expect(needsDecomposition('rust vs go')).toBe(true);
+    expect(needsDecomposition('differences between TCP and UDP')).toBe(true);
+    expect(needsDecomposition('Who founded Stripe? When did it go public?')).toBe(true);
+    expect(needsDecomposition('solar panel prices and efficiency and lifespan in Germany 2024')).toBe(true);
+  });
+
+  it('leaves single questions alone', () => {
+    expect(needsDecomposition('how do solar panels work')).toBe(false);
+    expect(needsDecomposition('bread and butter pudding recipe')).toBe(false);
+    expect(needsDecomposition('What is Rust? ok?')).toBe(false);
+  });
+});
+
+describe('planQuery', () => {
+  let prompts: string[];
+
+  beforeEach(() => {
+    prompts = [];
+    config.queryPlanning.enabled = true;
+    config.queryPlanning.useLLM = true;
+    config.queryPlanning.maxSubQueries = 4;
+    config.llm.retries = 0;
+    setModelChain([{
+      provider: createFakeLLMProvider({
+        response: prompt => {
+          prompts.push(prompt);
+          return MODEL_PLAN;
+        },
+      }),
+      timeout: 1000,
+    }]);
+  });
+
+  afterEach(() => setModelChain(null));
+
+  it('splits "X vs Y" into each side and the comparison itself', async () => {
+    expect(await planQuery('Compare Rust vs Go?')).toEqual({
+      method: 'rules',
+      subQueries: [
+        { query: 'Rust', purpose: 'About Rust' },
+        { query: 'Go', purpose: 'About Go' },
+        { query: 'Compare Rust vs Go?', purpose: 'Direct comparisons' },
+      ],
+    });
+    expect(prompts).toEqual([]);
+  });
+
+  it('splits independent questions by rule', async () => {
+    expect(await planQuery('Who founded Stripe? How big is the Irish economy?')).toEqual({
+      method: 'rules',
+      subQueries: [{ query: 'Who founded Stripe?' }, { query: 'How big is the Irish economy?' }],
+    });
+  });
+
+  it('asks the model when a later question refers back to an earlier one', async () => {
+    const plan = await planQuery('Who founded Stripe? When did it go public?');
+
+    expect(plan).toEqual({
+      method: 'llm',
+      subQueries: [
+        { query: 'Stripe founders', purpose: 'Who founded Stripe' },
+        { query: 'Stripe IPO date', purpose: 'When Stripe went public' },
+      ],
+    });
+    expect(prompts[0]).toContain('QUERY: "Who founded Stripe? When did it go public?"');
+  });
+
+  it('searches the query as-is when the model may not be used or fails', async () => {
+    config.queryPlanning.useLLM = false;
+    expect(await planQuery('Who founded Stripe? When did it go public?')).toEqual({
+      method: 'single',
+      subQueries: [{ query: 'Who founded Stripe? When did it go public?' }],
+    });
+
+    config.queryPlanning.useLLM = true;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    setModelChain([{ provider: createFakeLLMProvider({ response: 'no plan here' }), timeout: 1000 }]);
+    expect(await planQuery('Who founded Stripe? When did it go public?')).toMatchObject({
+      method: 'single',
+      error: 'The query plan is not a JSON object',
+    });
+  });
+
+  it('keeps at most the configured number of sub-queries, without repeats', async () => {
+    config.queryPlanning.maxSubQueries = 2;
+    const plan = await planQuery('What is Rust? What is Go? What is Zig?');
+
+    expect(plan.subQueries.map(subQuery => subQuery.query)).toEqual(['What is Rust?', 'What is Go?']);
+
+    expect((await planQuery('What is Rust? what is  rust?')).subQueries).toEqual([{ query: 'What is Rust?' }]);
+  });
+
+  it('does not split when planning is off', async () => {
+    config.queryPlanning.enabled = false;
+    expect((await planQuery('rust vs go')).method).toBe('single');
+  });
+});
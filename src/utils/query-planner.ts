@@ -0,0 +1,133 @@
+import { QueryPlan, SubQuery } from '@/types/search';
+import { queryPlanSchema } from '@/lib/validations';
+import config from '@/lib/config';
+import { generateWithFallback } from '@/utils/llm/fallback';
+
+// Splits complex questions ("compare X and Y pricing and adoption in 2024")
+// into sub-queries that are searched in parallel. Simple cases are split by
+// rules, the rest by the model; anything else is searched as-is.
+
+const COMPARISON_PATTERN = /\b(?:compare|comparison|comparing|vs\.?|versus|differences? between|better than)\b/i;
+const VERSUS_PATTERN = /^(?:compare\s+)?(.+?)\s+(?:vs\.?|versus)\s+(.+?)\??$/i;
+const CONJUNCTION_PATTERN = /\b(?:and|as well as|along with)\b/gi;
+// Later questions referring back to an earlier one ("When did it go public?") can't be searched alone
+const BACK_REFERENCE_PATTERN = /\b(?:it|its|they|them|their|this|that|these|those|he|she|his|her)\b/i;
+
+// Sides of an "X vs Y" query short enough to be searched on their own
+const MAX_RULE_ENTITY_WORDS = 4;
+
+const wordCount = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+const single = (query: string, error?: string): QueryPlan => ({ subQueries: [{ query }], method: 'single', error });
+
+// Questions that can't be answered from the results of one search
+export function needsDecomposition(query: string): boolean {
+  const questions = query.split('?').filter(part => wordCount(part) >= 3).length;
+  const conjunctions = query.match(CONJUNCTION_PATTERN)?.length || 0;
+
+  return COMPARISON_PATTERN.test(query)
+    || questions > 1
+    || (wordCount(query) >= 8 && conjunctions >= 2);
+}
+
+// Several questions in one, or a bare "X vs Y"
+function planWithRules(query: string): SubQuery[] | null {
+  const questions = query
+    .split('?')
+    .map(part => part.trim())
+    .filter(part => wordCount(part) >= 3);
+  if (questions.length > 1) {
+    if (questions.slice(1).some(question => BACK_REFERENCE_PATTERN.test(question))) return null;
+    return questions.map(question => ({ query: `${question}?` }));
+  }
+
+  const versus = query.trim().match(VERSUS_PATTERN);
+  if (versus) {
+    const [, left, right] = versus;
+    if (wordCount(left) <= MAX_RULE_ENTITY_WORDS && wordCount(right) <= MAX_RULE_ENTITY_WORDS && !/\band\b/i.test(right)) {
+      return [
+        { query: left, purpose: `About ${left}` },
+        { query: right, purpose: `About ${right}` },
+        { query, purpose: 'Direct comparisons' },
+      ];
+    }
+  }
+
+  return null;
+}
+
+const buildPlanningPrompt = (query: string, maxSubQueries: number) => `Split this search query into at most ${maxSubQueries} focused web search queries that together find everything needed to answer it.
+
+QUERY: "${query}"
+
+- Give each entity, aspect or time period that needs separate information its own search, e.g. "compare X and Y pricing and adoption in 2024" becomes "X pricing 2024", "Y pricing 2024", "X adoption 2024", "Y adoption 2024"
+- Keep each search short, the way a person would type it into a search engine
+- Keep names, versions and dates from the query
+- If the query is already a single focused search, return it unchanged as the only search
+
+RESPOND WITH A SINGLE JSON OBJECT (no Markdown, no code fences) in exactly this shape:
+{
+  "subQueries": [
+    { "query": "A web search query", "purpose": "What this search finds out" }
+  ]
+}`;
+
+async function planWithModel(query: string, maxSubQueries: number): Promise<SubQuery[]> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.queryPlanning.timeout);
+
+  try {
+    const { text } = await generateWithFallback(buildPlanningPrompt(query, maxSubQueries), {
+      maxOutputTokens: 500,
+      temperature: 0,
+      responseFormat: 'json',
+      signal: controller.signal,
+    });
+
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end < start) {
+      throw new Error('The query plan is not a JSON object');
+    }
+    return queryPlanSchema.parse(JSON.parse(text.slice(start, end + 1))).subQueries;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Drop repeated sub-queries and keep at most maxSubQueries
+function limitSubQueries(subQueries: SubQuery[], maxSubQueries: number): SubQuery[] {
+  const seen = new Set<string>();
+  return subQueries
+    .filter(subQuery => {
+      const key = subQuery.query.toLowerCase().replace(/\s+/g, ' ').trim();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, maxSubQueries);
+}
+
+export async function planQuery(query: string): Promise<QueryPlan> {
+  const { enabled, useLLM, maxSubQueries } = config.queryPlanning;
+  if (!enabled || maxSubQueries < 2 || !needsDecomposition(query)) {
+    return single(query);
+  }
+
+  const ruled = planWithRules(query);
+  if (ruled) {
+    return { subQueries: limitSubQueries(ruled, maxSubQueries), method: 'rules' };
+  }
+  if (!useLLM) {
+    return single(query);
+  }
+
+  try {
+    const subQueries = limitSubQueries(await planWithModel(query, maxSubQueries), maxSubQueries);
+    return subQueries.length > 1 ? { subQueries, method: 'llm' } : single(query);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.warn('Query planning failed, searching the query as-is:', message);
+    return single(query, message);
+  }
+}
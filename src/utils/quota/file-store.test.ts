@@ -0,0 +1,65 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createFileQuotaStore } from './file-store';
+import { quotaWindow } from './windows';
+
+describe('createFileQuotaStore', () => {
+  let root: string;
+  let file: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'quota-'));
+    file = path.join(root, 'nested', 'quota.json');
+  });
+
+  afterEach(() => fs.rm(root, { recursive: true, force: true }));
+
+  it('reads nothing before the first request', async () => {
+    expect(await createFileQuotaStore({ file }).read()).toEqual({});
+  });
+
+  it('counts every window and keeps the counts for the next process', async () => {
+    const month = quotaWindow('month');
+    const day = quotaWindow('day');
+
+    await createFileQuotaStore({ file }).increment('brave', [month, day]);
+    const { counted, usage } = await createFileQuotaStore({ file }).increment('brave', [month, day]);
+
+    expect(counted).toBe(true);
+    expect(usage).toEqual({ brave: { [month]: 2, [day]: 2 } });
+    expect(JSON.parse(await fs.readFile(file, 'utf-8'))).toEqual(usage);
+    expect(await fs.readdir(path.dirname(file))).toEqual(['quota.json']);
+  });
+
+  it('refuses once the first window reaches its limit', async () => {
+    const store = createFileQuotaStore({ file });
+    const window = quotaWindow('minute');
+
+    const results = await Promise.all([1, 2, 3].map(() => store.increment('gemini', [window], 2)));
+
+    expect(results.map(result => result.counted)).toEqual([true, true, false]);
+    expect((await store.read()).gemini[window]).toBe(2);
+  });
+
+  it('drops windows older than the retained months', async () => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify({ brave: { '2000-01': 9 } }));
+
+    const { usage } = await createFileQuotaStore({ file }).increment('brave', [quotaWindow('month')]);
+
+    expect(usage.brave).toEqual({ [quotaWindow('month')]: 1 });
+  });
+
+  it('rejects a corrupt file without blocking later writes', async () => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, '{');
+    const store = createFileQuotaStore({ file });
+
+    await expect(store.increment('brave', ['2026-10'])).rejects.toThrow(SyntaxError);
+
+    await fs.writeFile(file, '{}');
+    expect((await store.increment('brave', ['2026-10'])).counted).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { QuotaStore, QuotaUsage } from '@/types/quota';
+import { pruneWindows } from './windows';
+
+export interface FileQuotaStoreOptions {
+  file: string;
+}
+
+// All counts in one JSON file, so they survive restarts. Increments within a
+// process are applied one at a time; separate processes sharing the file can
+// lose each other's counts when they write at the same moment.
+export function createFileQuotaStore({ file }: FileQuotaStoreOptions): QuotaStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<QuotaUsage> => {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf-8')) as QuotaUsage;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+  };
+
+  // Write then rename so readers never see a partial file
+  const write = async (usage: QuotaUsage) => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(usage), 'utf-8');
+    await fs.rename(temp, file);
+  };
+
+  return {
+    id: 'file',
+
+    read,
+
+    increment(provider, windows, limit) {
+      const result = queue.then(async () => {
+        const usage = await read();
+        const counts = usage[provider] ??= {};
+        if (limit !== undefined && (counts[windows[0]] || 0) >= limit) return { counted: false, usage };
+
+        for (const window of windows) counts[window] = (counts[window] || 0) + 1;
+        await write(pruneWindows(usage));
+        return { counted: true, usage };
+      });
+      queue = result.catch(() => undefined); // A failed write doesn't block later ones
+      return result;
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import config from '@/lib/config';
+import { QuotaStore } from '@/types/quota';
+import { consumeQuota, createMemoryQuotaStore, getQuotas, isQuotaLow, setQuotaStore } from './index';
+
+const quotaOf = async (provider: string) => (await getQuotas()).find(quota => quota.provider === provider)!;
+
+describe('consumeQuota', () => {
+  const rateLimits = config.rateLimits;
+  const enableRateLimiting = config.features.enableRateLimiting;
+  let store: QuotaStore;
+  let warn: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T13:45:10Z'));
+    warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    config.rateLimits = { search: { requests: 20, period: 'minute' } };
+    config.features.enableRateLimiting = true;
+    store = createMemoryQuotaStore();
+    setQuotaStore(store);
+  });
+
+  afterEach(() => {
+    config.rateLimits = rateLimits;
+    config.features.enableRateLimiting = enableRateLimiting;
+    vi.useRealTimers();
+  });
+
+  const consume = (times: number) => Promise.all(Array.from({ length: times }, () => consumeQuota('search')));
+
+  it('always allows providers without a budget', async () => {
+    expect(await consumeQuota('unbudgeted')).toBe(true);
+    expect(await store.read()).toEqual({});
+  });
+
+  it('counts the window and the day, and refuses once the quota is exhausted', async () => {
+    expect(await consume(20)).toEqual(Array(20).fill(true));
+    expect(await consumeQuota('search')).toBe(false);
+
+    expect(await store.read()).toEqual({ search: { '2026-10-19T13:45': 20, '2026-10-19': 20 } });
+    expect(await quotaOf('search')).toMatchObject({ used: 20, remaining: 0, state: 'exhausted', resetsAt: '2026-10-19T13:46:00.000Z' });
+    expect(isQuotaLow('search')).toBe(true);
+  });
+
+  it('counts past the limit when rate limiting is turned off', async () => {
+    config.features.enableRateLimiting = false;
+
+    expect(await consume(21)).toEqual(Array(21).fill(true));
+  });
+
+  it('starts afresh when the window rolls over', async () => {
+    await consume(20);
+    vi.setSystemTime(new Date('2026-10-19T13:46:00Z'));
+
+    expect(isQuotaLow('search')).toBe(false);
+    expect(await consumeQuota('search')).toBe(true);
+    expect(await quotaOf('search')).toMatchObject({ window: '2026-10-19T13:46', used: 1, state: 'ok' });
+    expect((await store.read()).search['2026-10-19']).toBe(21);
+  });
+
+  it('logs each threshold once, on the request that reaches it', async () => {
+    await consume(15);
+    expect(warn).not.toHaveBeenCalled();
+
+    await consume(1);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenLastCalledWith(expect.stringContaining('search has used 16 of 20 requests this minute (80% threshold)'));
+    expect((await quotaOf('search')).state).toBe('warning');
+
+    await consume(3);
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenLastCalledWith(expect.stringContaining('used 19 of 20 requests this minute (95% threshold)'));
+
+    await consume(2);
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('allows the request when the store fails', async () => {
+    vi.spyOn(store, 'increment').mockRejectedValue(new Error('disk full'));
+
+    expect(await consumeQuota('search')).toBe(true);
+    expect(warn).toHaveBeenCalledWith('Quota accounting for search failed:', 'disk full');
+  });
+});
@@ -0,0 +1,150 @@
+import { DailyQuotaUsage, ProviderQuota, QuotaLimit, QuotaState, QuotaStore, QuotaUsage } from '@/types/quota';
+import config from '@/lib/config';
+import { createMemoryQuotaStore } from './memory-store';
+import { createFileQuotaStore } from './file-store';
+import { quotaWindow, windowResetsAt } from './windows';
+
+export { createMemoryQuotaStore, createFileQuotaStore, quotaWindow, windowResetsAt };
+
+export const QUOTA_STORE_IDS = ['file', 'memory'] as const;
+
+export function createQuotaStore(id: string = config.quota.store): QuotaStore {
+  switch (id) {
+    case 'file':
+      return createFileQuotaStore({ file: config.quota.file });
+    case 'memory':
+      return createMemoryQuotaStore();
+    default:
+      throw new Error(`Unknown quota store "${id}". Expected one of: ${QUOTA_STORE_IDS.join(', ')}`);
+  }
+}
+
+let store: QuotaStore | undefined;
+
+// The last known quota of each provider, so routing can check it without
+// waiting on the store. Updated whenever usage is read or counted.
+const latest = new Map<string, ProviderQuota>();
+
+// A misconfigured store falls back to counting in memory
+export function getQuotaStore(): QuotaStore {
+  if (!store) {
+    try {
+      store = createQuotaStore();
+    } catch (error) {
+      console.warn('Counting provider quotas in memory:', error instanceof Error ? error.message : error);
+      store = createMemoryQuotaStore();
+    }
+  }
+  return store;
+}
+
+export function setQuotaStore(next: QuotaStore): void {
+  store = next;
+  latest.clear();
+}
+
+const describeError = (error: unknown) => error instanceof Error ? error.message : 'Unknown error';
+
+function quotaState(used: number, limit: number): QuotaState {
+  if (used >= limit) return 'exhausted';
+  if (used >= limit * config.quota.routingReserve) return 'low';
+  if (config.quota.warnAt.length > 0 && used >= limit * config.quota.warnAt[0]) return 'warning';
+  return 'ok';
+}
+
+function describeQuota(provider: string, limit: QuotaLimit, usage: QuotaUsage, now: Date): ProviderQuota {
+  const window = quotaWindow(limit.period, now);
+  const used = usage[provider]?.[window] || 0;
+  return {
+    provider,
+    limit: limit.requests,
+    period: limit.period,
+    window,
+    used,
+    remaining: Math.max(0, limit.requests - used),
+    resetsAt: windowResetsAt(limit.period, now).toISOString(),
+    state: quotaState(used, limit.requests),
+  };
+}
+
+function remember(usage: QuotaUsage, now: Date): ProviderQuota[] {
+  const quotas = Object.entries(config.rateLimits).map(([provider, limit]) => describeQuota(provider, limit, usage, now));
+  quotas.forEach(quota => latest.set(quota.provider, quota));
+  return quotas;
+}
+
+// Current usage of every provider with a budget
+export async function getQuotas(): Promise<ProviderQuota[]> {
+  const now = new Date();
+  return remember(await getQuotaStore().read(), now);
+}
+
+// Reload usage before routing; a failing store leaves the last known quotas
+export async function refreshQuotas(): Promise<void> {
+  try {
+    await getQuotas();
+  } catch (error) {
+    console.warn('Reading provider quotas failed:', describeError(error));
+  }
+}
+
+// Requests per provider with a budget for each day of the current month so far
+export async function getDailyQuotaUsage(): Promise<DailyQuotaUsage[]> {
+  const usage = await getQuotaStore().read();
+  const today = new Date();
+  const days: DailyQuotaUsage[] = [];
+
+  for (let day = 1; day <= today.getUTCDate(); day++) {
+    const date = quotaWindow('day', new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), day)));
+    days.push({
+      date,
+      usage: Object.fromEntries(Object.keys(config.rateLimits).map(provider => [provider, usage[provider]?.[date] || 0])),
+    });
+  }
+  return days;
+}
+
+// Whether routing should pass over a provider: past the routing reserve or
+// out of quota, as of the last time its usage was seen
+export function isQuotaLow(provider: string): boolean {
+  const quota = latest.get(provider);
+  if (!quota) return false;
+  if (quota.window !== quotaWindow(quota.period)) return false; // A new window has started
+  return quota.state === 'low' || quota.state === 'exhausted';
+}
+
+// Count a request to a provider, or refuse it when its quota is used up.
+// Providers without a budget are always allowed. Accounting failures are
+// logged and never block a search.
+export async function consumeQuota(provider: string): Promise<boolean> {
+  const limit = config.rateLimits[provider];
+  if (!limit) return true;
+
+  const now = new Date();
+  const window = quotaWindow(limit.period, now);
+  const day = quotaWindow('day', now);
+
+  try {
+    // Daily counts are kept for every budget so usage can be charted
+    const { counted, usage } = await getQuotaStore().increment(
+      provider,
+      window === day ? [window] : [window, day],
+      config.features.enableRateLimiting ? limit.requests : undefined
+    );
+    const quota = remember(usage, now).find(current => current.provider === provider);
+    if (!counted || !quota) return counted;
+
+    // Only the request that reaches a threshold logs it
+    const reached = config.quota.warnAt.filter(threshold => quota.used === Math.ceil(limit.requests * threshold));
+    if (reached.length > 0) {
+      console.warn(
+        `${provider} has used ${quota.used} of ${limit.requests} requests this ${limit.period} ` +
+        `(${Math.round(Math.max(...reached) * 100)}% threshold); resets ${quota.resetsAt}`
+      );
+    }
+    return true;
+  } catch (error) {
+    console.warn(`Quota accounting for ${provider} failed:`, describeError(error));
+    return true;
+  }
+}
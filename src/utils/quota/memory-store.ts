@@ -0,0 +1,24 @@
+import { QuotaStore, QuotaUsage } from '@/types/quota';
+import { pruneWindows } from './windows';
+
+// Counts kept in process memory; they reset whenever the server restarts
+export function createMemoryQuotaStore(): QuotaStore {
+  const usage: QuotaUsage = {};
+
+  return {
+    id: 'memory',
+
+    async read() {
+      return structuredClone(usage);
+    },
+
+    async increment(provider, windows, limit) {
+      const counts = usage[provider] ??= {};
+      const counted = limit === undefined || (counts[windows[0]] || 0) < limit;
+      if (counted) {
+        for (const window of windows) counts[window] = (counts[window] || 0) + 1;
+      }
+      return { counted, usage: structuredClone(pruneWindows(usage)) };
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { pruneWindows, quotaWindow, windowResetsAt } from './windows';
+
+const NOW = new Date('2026-10-19T13:45:30Z');
+
+describe('quotaWindow', () => {
+  it('names calendar windows in UTC', () => {
+    expect(quotaWindow('month', NOW)).toBe('2026-10');
+    expect(quotaWindow('day', NOW)).toBe('2026-10-19');
+    expect(quotaWindow('minute', NOW)).toBe('2026-10-19T13:45');
+  });
+
+  it('rolls over at the end of each window', () => {
+    expect(quotaWindow('minute', new Date('2026-10-19T13:45:59.999Z'))).toBe('2026-10-19T13:45');
+    expect(quotaWindow('minute', new Date('2026-10-19T13:46:00Z'))).toBe('2026-10-19T13:46');
+    expect(quotaWindow('day', new Date('2026-10-31T23:59:59Z'))).toBe('2026-10-31');
+    expect(quotaWindow('month', new Date('2026-11-01T00:00:00Z'))).toBe('2026-11');
+  });
+});
+
+describe('windowResetsAt', () => {
+  it('returns the start of the next window', () => {
+    expect(windowResetsAt('minute', NOW).toISOString()).toBe('2026-10-19T13:46:00.000Z');
+    expect(windowResetsAt('day', NOW).toISOString()).toBe('2026-10-20T00:00:00.000Z');
+    expect(windowResetsAt('month', NOW).toISOString()).toBe('2026-11-01T00:00:00.000Z');
+    expect(windowResetsAt('month', new Date('2026-12-15T00:00:00Z')).toISOString()).toBe('2027-01-01T00:00:00.000Z');
+  });
+});
+
+describe('pruneWindows', () => {
+  it('keeps windows from the month 62 days back onwards and drops older ones', () => {
+    const usage = {
+      brave: { '2026-07': 5, '2026-07-31': 1, '2026-08': 7, '2026-08-01': 2, '2026-10': 3 },
+      gemini: { '2026-06-30T10:00': 1, '2026-10-19T13:45': 4 },
+    };
+
+    expect(pruneWindows(usage, NOW)).toEqual({
+      brave: { '2026-08': 7, '2026-08-01': 2, '2026-10': 3 },
+      gemini: { '2026-10-19T13:45': 4 },
+    });
+  });
+});
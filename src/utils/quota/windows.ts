@@ -0,0 +1,41 @@
+import { QuotaPeriod, QuotaUsage } from '@/types/quota';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Calendar windows in UTC: "2026-10" for a month, "2026-10-19" for a day and
+// "2026-10-19T13:45" for a minute. Every window starts with its month.
+export function quotaWindow(period: QuotaPeriod, date: Date = new Date()): string {
+  const month = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}`;
+  if (period === 'month') return month;
+
+  const day = `${month}-${pad(date.getUTCDate())}`;
+  if (period === 'day') return day;
+
+  return `${day}T${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`;
+}
+
+// When the window containing `date` ends
+export function windowResetsAt(period: QuotaPeriod, date: Date = new Date()): Date {
+  const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()];
+  switch (period) {
+    case 'month':
+      return new Date(Date.UTC(year, month + 1, 1));
+    case 'day':
+      return new Date(Date.UTC(year, month, day + 1));
+    case 'minute':
+      return new Date(Date.UTC(year, month, day, date.getUTCHours(), date.getUTCMinutes() + 1));
+  }
+}
+
+// Windows are kept long enough to chart the previous month
+const RETAIN_DAYS = 62;
+
+export function pruneWindows(usage: QuotaUsage, now: Date = new Date()): QuotaUsage {
+  const oldestMonth = quotaWindow('month', new Date(now.getTime() - RETAIN_DAYS * 86400000));
+  for (const counts of Object.values(usage)) {
+    for (const window of Object.keys(counts)) {
+      if (window.slice(0, 7) < oldestMonth) delete counts[window];
+    }
+  }
+  return usage;
+}
@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import config from '@/lib/config';
+import { clientAddress, createMemoryRateLimitStore, findRouteLimit, limitRequest, rateLimitHeaders, setRateLimitStore } from './index';
+
+const headers = (values: Record<string, string>) => new Headers(values);
+
+describe('clientAddress', () => {
+  it('takes the address appended by the trusted proxy, not what the client sent', () => {
+    const spoofed = headers({ 'x-forwarded-for': '10.0.0.1, 198.51.100.4, 203.0.113.7' });
+
+    expect(clientAddress(spoofed, 1)).toBe('203.0.113.7');
+    expect(clientAddress(spoofed, 2)).toBe('198.51.100.4');
+    expect(clientAddress(headers({ 'x-forwarded-for': '203.0.113.7' }), 3)).toBe('203.0.113.7');
+  });
+
+  it('falls back to X-Real-IP, and believes neither header without a trusted proxy', () => {
+    expect(clientAddress(headers({ 'x-real-ip': ' 203.0.113.7 ' }), 1)).toBe('203.0.113.7');
+    expect(clientAddress(headers({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.8' }), 0)).toBe('unknown');
+    expect(clientAddress(headers({}), 1)).toBe('unknown');
+  });
+});
+
+describe('findRouteLimit', () => {
+  beforeEach(() => {
+    config.apiRateLimits.routes = {
+      '/api/search': { requests: 20, period: 'minute' },
+      '/api/search/stream': { requests: 5, period: 'minute' },
+    };
+  });
+
+  it('matches the longest route prefix on path boundaries', () => {
+    expect(findRouteLimit('/api/search/stream')?.route).toBe('/api/search/stream');
+    expect(findRouteLimit('/api/search')?.route).toBe('/api/search');
+    expect(findRouteLimit('/api/searches')).toBeUndefined();
+  });
+});
+
+describe('limitRequest', () => {
+  beforeEach(() => {
+    config.apiRateLimits.enabled = true;
+    config.apiRateLimits.trustedProxies = 1;
+    config.apiRateLimits.routes = { '/api/search': { requests: 2, period: 'minute' } };
+    setRateLimitStore(createMemoryRateLimitStore({ maxClients: 100 }));
+  });
+
+  it('limits a client that sends a different X-Forwarded-For each time', async () => {
+    const results = [];
+    for (let i = 0; i < 3; i++) {
+      results.push(await limitRequest('/api/search', headers({ 'x-forwarded-for': `10.0.0.${i}, 203.0.113.7` })));
+    }
+
+    expect(results.map(result => result?.allowed)).toEqual([true, true, false]);
+    expect(results[2]?.route).toBe('/api/search');
+  });
+
+  it('keeps separate buckets per client', async () => {
+    await limitRequest('/api/search', headers({ 'x-forwarded-for': '203.0.113.7' }));
+    await limitRequest('/api/search', headers({ 'x-forwarded-for': '203.0.113.7' }));
+
+    expect((await limitRequest('/api/search', headers({ 'x-forwarded-for': '203.0.113.8' })))?.allowed).toBe(true);
+  });
+
+  it('leaves unlimited routes alone, and everything when turned off', async () => {
+    expect(await limitRequest('/api/health', headers({}))).toBeUndefined();
+
+    config.apiRateLimits.enabled = false;
+    expect(await limitRequest('/api/search', headers({}))).toBeUndefined();
+  });
+});
+
+describe('rateLimitHeaders', () => {
+  it('reports the limit, and Retry-After only when refused', () => {
+    expect(rateLimitHeaders({ allowed: true, limit: 20, remaining: 19, retryAfter: 0, reset: 3 })).toEqual({
+      'X-RateLimit-Limit': '20',
+      'X-RateLimit-Remaining': '19',
+      'X-RateLimit-Reset': '3',
+    });
+    expect(rateLimitHeaders({ allowed: false, limit: 20, remaining: 0, retryAfter: 3, reset: 60 })).toMatchObject({
+      'X-RateLimit-Remaining': '0',
+      'Retry-After': '3',
+    });
+  });
+});
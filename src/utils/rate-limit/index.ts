@@ -0,0 +1,95 @@
+import { RateLimitResult, RateLimitStore, RouteRateLimit } from '@/types/rate-limit';
+import config from '@/lib/config';
+import { createMemoryRateLimitStore } from './memory-store';
+
+// Runs in middleware (the Edge runtime), so nothing here may use Node modules
+
+export { createMemoryRateLimitStore };
+export { takeToken } from './token-bucket';
+
+export const RATE_LIMIT_STORE_IDS = ['memory'] as const;
+
+export function createRateLimitStore(id: string = config.apiRateLimits.store): RateLimitStore {
+  switch (id) {
+    case 'memory':
+      return createMemoryRateLimitStore({ maxClients: config.apiRateLimits.maxClients });
+    default:
+      throw new Error(`Unknown rate limit store "${id}". Expected one of: ${RATE_LIMIT_STORE_IDS.join(', ')}`);
+  }
+}
+
+let store: RateLimitStore | undefined;
+
+// A misconfigured store falls back to limiting in memory
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    try {
+      store = createRateLimitStore();
+    } catch (error) {
+      console.warn('Rate limiting in memory:', error instanceof Error ? error.message : error);
+      store = createMemoryRateLimitStore({ maxClients: config.apiRateLimits.maxClients });
+    }
+  }
+  return store;
+}
+
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+// The limit of the longest configured route that the path falls under
+export function findRouteLimit(pathname: string): { route: string; limit: RouteRateLimit } | undefined {
+  const route = Object.keys(config.apiRateLimits.routes)
+    .filter(prefix => pathname === prefix || pathname.startsWith(prefix === '/' ? '/' : `${prefix}/`))
+    .sort((a, b) => b.length - a.length)[0];
+  return route ? { route, limit: config.apiRateLimits.routes[route] } : undefined;
+}
+
+// The API key sent as X-API-Key or a bearer token, if any
+export function requestApiKey(headers: Headers): string | undefined {
+  const bearer = headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  return headers.get('x-api-key')?.trim() || bearer || undefined;
+}
+
+// The address the outermost trusted proxy saw the request come from. Clients
+// can send their own X-Forwarded-For, so only the entries our proxies appended
+// are believed: with n trusted proxies, the nth from the end. Without a
+// proxy no header can be believed, and every client shares one bucket.
+export function clientAddress(headers: Headers, trustedProxies: number = config.apiRateLimits.trustedProxies): string {
+  if (trustedProxies <= 0) return 'unknown';
+
+  const forwarded = (headers.get('x-forwarded-for') || '').split(',').map(entry => entry.trim()).filter(Boolean);
+  if (forwarded.length > 0) return forwarded[Math.max(0, forwarded.length - trustedProxies)];
+  return headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+export interface RouteRateLimitResult extends RateLimitResult {
+  route: string;
+}
+
+// Take a token for a request to the path from the client address's bucket.
+// Returns undefined when the path isn't limited. A failing store lets
+// requests through.
+export async function limitRequest(pathname: string, headers: Headers): Promise<RouteRateLimitResult | undefined> {
+  if (!config.apiRateLimits.enabled) return undefined;
+
+  const match = findRouteLimit(pathname);
+  if (!match) return undefined;
+
+  try {
+    const result = await getRateLimitStore().take(`${match.route}|ip:${clientAddress(headers)}`, match.limit);
+    return { ...result, route: match.route };
+  } catch (error) {
+    console.warn('Rate limit check failed:', error instanceof Error ? error.message : error);
+    return undefined;
+  }
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.reset),
+    ...(result.allowed ? {} : { 'Retry-After': String(result.retryAfter) }),
+  };
+}
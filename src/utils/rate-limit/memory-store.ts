@@ -0,0 +1,30 @@
+import { RateLimitStore } from '@/types/rate-limit';
+import { takeToken, TokenBucket } from './token-bucket';
+
+export interface MemoryRateLimitStoreOptions {
+  maxClients: number;
+}
+
+// Buckets in process memory, so each server instance limits on its own.
+// Least recently seen clients are dropped first; a dropped client starts
+// again with a full bucket.
+export function createMemoryRateLimitStore({ maxClients }: MemoryRateLimitStoreOptions): RateLimitStore {
+  const buckets = new Map<string, TokenBucket>();
+
+  return {
+    id: 'memory',
+
+    async take(key, limit) {
+      const { bucket, result } = takeToken(buckets.get(key), limit);
+      buckets.delete(key);
+      buckets.set(key, bucket);
+
+      while (buckets.size > maxClients) {
+        const oldest = buckets.keys().next().value;
+        if (oldest === undefined) break;
+        buckets.delete(oldest);
+      }
+      return result;
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { takeToken, TokenBucket } from './token-bucket';
+
+const LIMIT = { requests: 3, period: 'minute' as const }; // A token every 20 seconds
+
+// Take tokens one after another at the given times (ms), returning each result
+function takeAt(times: number[], bucket?: TokenBucket) {
+  return times.map(now => {
+    const taken = takeToken(bucket, LIMIT, now);
+    bucket = taken.bucket;
+    return taken.result;
+  });
+}
+
+describe('takeToken', () => {
+  it('starts full and allows a burst of the whole limit', () => {
+    const results = takeAt([0, 0, 0, 0]);
+
+    expect(results.map(result => result.allowed)).toEqual([true, true, true, false]);
+    expect(results.map(result => result.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results.every(result => result.limit === 3)).toBe(true);
+  });
+
+  it('tells a refused client when the next token arrives and when the bucket is full', () => {
+    const [, , , refused] = takeAt([0, 0, 0, 5000]);
+
+    expect(refused).toMatchObject({ allowed: false, remaining: 0, retryAfter: 15 });
+    expect(refused.reset).toBe(55);
+  });
+
+  it('refills evenly over the period', () => {
+    const results = takeAt([0, 0, 0, 19_000, 20_000, 40_000]);
+
+    expect(results.map(result => result.allowed)).toEqual([true, true, true, false, true, true]);
+  });
+
+  it('never refills beyond the limit', () => {
+    const [first] = takeAt([0]);
+    const later = takeAt([3_600_000, 3_600_000, 3_600_000, 3_600_000], { tokens: first.remaining, updatedAt: 0 });
+
+    expect(later.map(result => result.allowed)).toEqual([true, true, true, false]);
+  });
+
+  it('reports allowed requests with no wait and the time to refill', () => {
+    const [result] = takeAt([0]);
+    expect(result).toEqual({ allowed: true, limit: 3, remaining: 2, retryAfter: 0, reset: 20 });
+  });
+
+  it('ignores a clock that went backwards', () => {
+    const results = takeAt([10_000, 10_000, 10_000, 0]);
+    expect(results[3]).toMatchObject({ allowed: false, retryAfter: 20 });
+  });
+});
@@ -0,0 +1,39 @@
+import { RateLimitPeriod, RateLimitResult, RouteRateLimit } from '@/types/rate-limit';
+
+const PERIOD_SECONDS: Record<RateLimitPeriod, number> = {
+  second: 1,
+  minute: 60,
+  hour: 3600,
+  day: 86400,
+};
+
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number; // ms
+}
+
+// Refill a bucket for the time since it was last used, then take a token if
+// one is available. Stores persist the returned bucket under the client's key.
+export function takeToken(
+  bucket: TokenBucket | undefined,
+  { requests, period }: RouteRateLimit,
+  now: number = Date.now()
+): { bucket: TokenBucket; result: RateLimitResult } {
+  const perSecond = requests / PERIOD_SECONDS[period];
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) / 1000 : 0;
+  const available = bucket ? Math.min(requests, bucket.tokens + elapsed * perSecond) : requests;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: requests,
+      remaining: Math.floor(tokens),
+      retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / perSecond),
+      reset: Math.ceil((requests - tokens) / perSecond),
+    },
+  };
+}
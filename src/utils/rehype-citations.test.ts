@@ -0,0 +1,66 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { describe, expect, it } from 'vitest';
+import { SearchResult } from '@/types/search';
+import { verifyCitations } from './citation-verifier';
+import { rehypeCitations } from './rehype-citations';
+
+const source = (n: number, snippet: string): SearchResult => ({
+  id: `source-${n}`,
+  title: `Source ${n}`,
+  url: `https://example${n}.com/`,
+  snippet,
+  source: 'searxng',
+  relevanceScore: 50,
+});
+
+const SOURCES = [
+  source(1, 'Paris is the capital of France. Marseille is a large port city.'),
+  source(2, 'Lyon is the third largest city in France.'),
+];
+
+// The marker's citation number and its occurrence, if it has one, in rendered order
+function renderMarkers(markdown: string): [number, number | undefined][] {
+  const html = renderToStaticMarkup(createElement(ReactMarkdown, { remarkPlugins: [remarkGfm], rehypePlugins: [rehypeCitations] }, markdown));
+  return Array.from(html.matchAll(/<cite data-citation="(\d+)"(?: data-occurrence="(\d+)")?>/g), match =>
+    [Number(match[1]), match[2] === undefined ? undefined : Number(match[2])]);
+}
+
+// The sentence of the check each marker's hovercard shows, as ChatMessage looks it up
+function hovercardSentences(markdown: string): (string | undefined)[] {
+  const { checks } = verifyCitations(markdown, SOURCES);
+  return renderMarkers(markdown).map(([citation, occurrence]) =>
+    occurrence === undefined ? undefined : checks.filter(check => check.citation === citation)[occurrence]?.sentence);
+}
+
+describe('rehypeCitations', () => {
+  it('numbers markers the way the citation verifier checks them', () => {
+    const answer = [
+      'Paris is the capital of France [1][1].',
+      '[2] opens this line with nothing before it.',
+      'Lyon is the third largest city in France [2].',
+      '',
+      '- [1] starts a list item',
+      '- Marseille is a large port city [1] [2].',
+    ].join('\n');
+
+    expect(hovercardSentences(answer)).toEqual([
+      'Paris is the capital of France',
+      'Paris is the capital of France',
+      undefined,
+      'Lyon is the third largest city in France',
+      undefined,
+      'Marseille is a large port city',
+      'Marseille is a large port city',
+    ]);
+  });
+
+  it('leaves headings, code and the sources list alone', () => {
+    const answer = '## Overview [1]\n\nUse `list[2]` here [1]. Lyon is the third largest city [2].\n\n## Sources\n\n[1] Source 1';
+
+    expect(renderMarkers(answer)).toEqual([[1, 0], [2, 0]]);
+    expect(hovercardSentences(answer)[1]).toBe('Lyon is the third largest city');
+  });
+});
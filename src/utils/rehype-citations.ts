@@ -0,0 +1,110 @@
+// Rehype plugin that turns [n] markers in answer text into <cite> elements
+// for ChatMessage to render as citation hovercards. Headings, links and code
+// are left alone, as is everything from the "Sources" heading on, which lists
+// the sources rather than citing them.
+//
+// Markers are counted the way the server-side citation verifier counts them,
+// so the nth counted [k] here is the nth check for k there: a number repeated
+// within one group of markers is the same check, and a group with no text
+// before it on its line has no check (its markers get no occurrence).
+
+interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+}
+
+const MARKER_PATTERN = /\[(\d+)\]/g;
+const SKIPPED_TAGS = new Set(['a', 'code', 'pre', 'cite', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+// Elements that start a new line of the markdown the verifier reads
+const BLOCK_TAGS = new Set(['p', 'li', 'ul', 'ol', 'blockquote', 'pre', 'table', 'tr', 'div', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+// Table cells follow a "|" on their row, which the verifier reads as text
+const CELL_TAGS = new Set(['td', 'th']);
+
+const textOf = (node: HastNode): string =>
+  node.type === 'text' ? node.value || '' : (node.children || []).map(textOf).join('');
+
+const isSourcesHeading = (node: HastNode) =>
+  node.type === 'element' && /^h[1-6]$/.test(node.tagName || '') && /^Sources\b/.test(textOf(node).trim());
+
+export function rehypeCitations() {
+  return (tree: HastNode) => {
+    const occurrences = new Map<number, number>();
+    let inSources = false;
+    let textBefore = false; // Text since the last group of markers on this line
+
+    const readText = (text: string) => {
+      const lines = text.split('\n');
+      if (lines.length > 1) textBefore = /\S/.test(lines[lines.length - 1]);
+      else if (/\S/.test(text)) textBefore = true;
+    };
+
+    const splitText = (value: string): HastNode[] => {
+      const nodes: HastNode[] = [];
+      let last = 0;
+      let group: Map<number, number | undefined> | undefined; // citation -> occurrence
+      let counted = false;
+
+      for (const match of value.matchAll(MARKER_PATTERN)) {
+        const index = match.index ?? 0;
+        const gap = value.slice(last, index);
+
+        // Markers separated only by spaces on the same line form one group
+        if (!group || /\S|\n/.test(gap)) {
+          readText(gap);
+          group = new Map();
+          counted = textBefore;
+        }
+
+        const citation = Number(match[1]);
+        if (!group.has(citation)) {
+          const occurrence = occurrences.get(citation) || 0;
+          if (counted) occurrences.set(citation, occurrence + 1);
+          group.set(citation, counted ? occurrence : undefined);
+        }
+        const occurrence = group.get(citation);
+        textBefore = false;
+
+        if (index > last) nodes.push({ type: 'text', value: gap });
+        nodes.push({
+          type: 'element',
+          tagName: 'cite',
+          properties: occurrence === undefined ? { dataCitation: citation } : { dataCitation: citation, dataOccurrence: occurrence },
+          children: [{ type: 'text', value: match[0] }],
+        });
+        last = index + match[0].length;
+      }
+
+      readText(value.slice(last));
+      if (last < value.length) nodes.push({ type: 'text', value: value.slice(last) });
+      return nodes;
+    };
+
+    const visit = (node: HastNode) => {
+      if (!node.children) return;
+
+      node.children = node.children.flatMap(child => {
+        if (inSources || isSourcesHeading(child)) {
+          inSources = true;
+          return [child];
+        }
+        if (child.type === 'text') return splitText(child.value || '');
+        if (child.type !== 'element') return [child];
+
+        const tag = child.tagName || '';
+        if (BLOCK_TAGS.has(tag)) textBefore = false;
+        if (CELL_TAGS.has(tag)) textBefore = true;
+
+        if (SKIPPED_TAGS.has(tag)) readText(textOf(child));
+        else visit(child);
+
+        if (BLOCK_TAGS.has(tag)) textBefore = false;
+        return [child];
+      });
+    };
+
+    visit(tree);
+  };
+}
@@ -0,0 +1,84 @@
+import { createHash } from 'crypto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SearchApiResponse, SearchResult } from '@/types/search';
+import { deduplicateResults, mergeSearchResults } from './result-merger';
+
+let count = 0;
+
+// Results differ enough in URL and title not to be taken for duplicates
+function result(subQuery: string, relevanceScore: number, overrides: Partial<SearchResult> = {}): SearchResult {
+  const id = createHash('sha1').update(String(++count)).digest('hex');
+  return {
+    id,
+    title: `Page ${id}`,
+    url: `https://${id.slice(0, 12)}.example.com/`,
+    snippet: 'A snippet',
+    source: 'searxng',
+    relevanceScore,
+    subQueries: [subQuery],
+    ...overrides,
+  };
+}
+
+const response = (results: SearchResult[]): SearchApiResponse =>
+  ({ results, totalResults: results.length, processingTime: 1, source: 'searxng', success: true });
+
+const bySubQuery = (results: SearchResult[]) =>
+  results.reduce<Record<string, number>>((counts, { subQueries = [] }) => {
+    subQueries.forEach(subQuery => (counts[subQuery] = (counts[subQuery] || 0) + 1));
+    return counts;
+  }, {});
+
+describe('mergeSearchResults', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('records every sub-query that found a duplicate result', () => {
+    const shared = result('rust memory safety', 80);
+    const merged = mergeSearchResults([
+      response([shared]),
+      response([{ ...shared, id: 'again', relevanceScore: 60, subQueries: ['go garbage collection'] }]),
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].subQueries).toEqual(['rust memory safety', 'go garbage collection']);
+  });
+
+  it('keeps the best two results of a sub-query that others outscore', () => {
+    const strong = Array.from({ length: 20 }, (_, i) => result('rust', 100 - i));
+    const weak = [result('go', 10), result('go', 9), result('go', 8)];
+
+    const merged = mergeSearchResults([response([...strong, ...weak])]);
+
+    expect(merged).toHaveLength(15);
+    expect(bySubQuery(merged)).toEqual({ rust: 13, go: 2 });
+    expect(merged.slice(-2).map(r => r.id)).toEqual([weak[0].id, weak[1].id]);
+  });
+
+  it('keeps fewer per sub-query when reserving two each would overflow the list', () => {
+    const subQueries = Array.from({ length: 10 }, (_, i) => `aspect ${i}`);
+    const results = subQueries.flatMap((subQuery, i) => [0, 1, 2].map(j => result(subQuery, 100 - i * 3 - j)));
+
+    const merged = mergeSearchResults([response(results)]);
+
+    expect(merged).toHaveLength(15);
+    expect(Object.keys(bySubQuery(merged)).sort()).toEqual([...subQueries].sort());
+  });
+
+  it('ranks purely by score without sub-queries', () => {
+    const results = Array.from({ length: 20 }, (_, i) => result('only', 50 + i, { subQueries: undefined }));
+    const merged = mergeSearchResults([response(results)]);
+
+    expect(merged.map(r => r.id)).toEqual(results.slice(-15).reverse().map(r => r.id));
+  });
+});
+
+describe('deduplicateResults', () => {
+  it('keeps the higher scored of two results with the same title', () => {
+    const low = result('a', 40, { title: 'Rust ownership explained' });
+    const high = result('b', 70, { title: 'Rust ownership explained' });
+
+    expect(deduplicateResults([low, high])).toEqual([{ ...high, subQueries: ['a', 'b'] }]);
+  });
+});
@@ -1,4 +1,5 @@
 import { SearchResult, SearchApiResponse } from '@/types/search';
+import { ProviderRegistry } from '@/utils/providers/registry';
 
 // URL similarity calculation
 function calculateUrlSimilarity(url1: string, url2: string): number {
@@ -62,6 +63,12 @@ function calculateTitleSimilarity(title1: string, title2: string): number {
   return calculateStringSimilarity(t1, t2);
 }
 
+// Sub-queries that found either of two duplicate results
+function mergeSubQueries(a: SearchResult, b: SearchResult): string[] | undefined {
+  if (!a.subQueries && !b.subQueries) return undefined;
+  return [...new Set([...(a.subQueries || []), ...(b.subQueries || [])])];
+}
+
 // Remove duplicate results
 export function deduplicateResults(results: SearchResult[]): SearchResult[] {
   const uniqueResults: SearchResult[] = [];
@@ -73,6 +80,8 @@ export function deduplicateResults(results: SearchResult[]): SearchResult[] {
     // Check for exact URL match
     if (seenUrls.has(result.url)) {
       isDuplicate = true;
+      const index = uniqueResults.findIndex(existing => existing.url === result.url);
+      uniqueResults[index] = { ...uniqueResults[index], subQueries: mergeSubQueries(uniqueResults[index], result) };
     } else {
       // Check for similar URLs and titles
       for (const existing of uniqueResults) {
@@ -83,11 +92,14 @@ export function deduplicateResults(results: SearchResult[]): SearchResult[] {
           isDuplicate = true;
           
           // Keep the result with higher relevance score
+          const index = uniqueResults.indexOf(existing);
+          const subQueries = mergeSubQueries(existing, result);
           if (result.relevanceScore > existing.relevanceScore) {
-            const index = uniqueResults.indexOf(existing);
-            uniqueResults[index] = result;
+            uniqueResults[index] = { ...result, subQueries };
             seenUrls.delete(existing.url);
             seenUrls.add(result.url);
+          } else {
+            uniqueResults[index] = { ...existing, subQueries };
           }
           break;
         }
@@ -126,7 +138,14 @@ function calculateDomainAuthority(domain: string): number {
     'pubmed.ncbi.nlm.nih.gov': 95,
   };
   
-  return authorityDomains[domain] || 50;
+  // Match subdomains too (en.wikipedia.org -> wikipedia.org)
+  const labels = domain.toLowerCase().replace(/^www\./, '').split('.');
+  for (let i = 0; i < labels.length - 1; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (authorityDomains[candidate]) return authorityDomains[candidate];
+  }
+  
+  return 50;
 }
 
 // Calculate freshness score
@@ -173,12 +192,33 @@ export function scoreResults(results: SearchResult[]): SearchResult[] {
 }
 
 function getSourceWeight(source: string): number {
-  const weights: Record<string, number> = {
-    'brave': 85,
-    'serpapi': 90,
-  };
+  return ProviderRegistry.get(source)?.weight ?? 50;
+}
+
+// Results of each sub-query kept in the merged list even when others score higher
+const RESERVED_PER_SUB_QUERY = 2;
+
+// When the query was split, every sub-query keeps its best results in the
+// list so that one side of a comparison can't crowd out the other. With many
+// sub-queries each keeps fewer, so the reserved results all fit in the limit.
+function selectTopResults(sorted: SearchResult[], limit: number): SearchResult[] {
+  const subQueries = new Set(sorted.flatMap(result => result.subQueries || []));
+  if (subQueries.size < 2) return sorted.slice(0, limit);
+  
+  const reserved = Math.min(RESERVED_PER_SUB_QUERY, Math.floor(limit / subQueries.size));
+  const selected = new Set<SearchResult>();
+  subQueries.forEach(subQuery => {
+    sorted
+      .filter(result => result.subQueries?.includes(subQuery))
+      .slice(0, reserved)
+      .forEach(result => selected.add(result));
+  });
+  for (const result of sorted) {
+    if (selected.size >= limit) break;
+    selected.add(result);
+  }
   
-  return weights[source] || 50;
+  return sorted.filter(result => selected.has(result)).slice(0, limit);
 }
 
 // Main result merging function
@@ -207,9 +247,10 @@ export function mergeSearchResults(apiResponses: SearchApiResponse[]): SearchRes
   const scoredResults = scoreResults(uniqueResults);
   
   // Sort by relevance score and return top 15
-  const finalResults = scoredResults
-    .sort((a, b) => b.relevanceScore - a.relevanceScore)
-    .slice(0, 15);
+  const finalResults = selectTopResults(
+    scoredResults.sort((a, b) => b.relevanceScore - a.relevanceScore),
+    15
+  );
   
   console.log(`Result merging completed in ${Date.now() - startTime}ms`);
   console.log(`Merged ${allResults.length} results into ${finalResults.length} unique results`);
@@ -0,0 +1,139 @@
+import axios from 'axios';
+import { isPrivateAddressError, PUBLIC_ONLY_REQUEST } from '@/utils/private-hosts';
+
+// robots.txt handling following RFC 9309
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+}
+
+const ALLOW_ALL: RobotsRules = { allow: [], disallow: [] };
+const DISALLOW_ALL: RobotsRules = { allow: [], disallow: ['/'] };
+
+const ROBOTS_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+const MAX_ROBOTS_BYTES = 500 * 1024;
+
+const robotsCache = new Map<string, { rules: RobotsRules; expires: number }>();
+
+// Rules from the groups that name our product token, falling back to "*"
+export function parseRobotsTxt(text: string, productToken: string): RobotsRules {
+  const token = productToken.toLowerCase();
+  const specific: RobotsRules = { allow: [], disallow: [] };
+  const wildcard: RobotsRules = { allow: [], disallow: [] };
+  let hasSpecificGroup = false;
+
+  let groupAgents: string[] = [];
+  let inRules = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // A user-agent line after rules starts a new group
+      if (inRules) {
+        groupAgents = [];
+        inRules = false;
+      }
+      groupAgents.push(value.toLowerCase());
+      continue;
+    }
+
+    if (field !== 'allow' && field !== 'disallow') continue;
+    inRules = true;
+
+    const matchesUs = groupAgents.some(agent => agent !== '*' && token.includes(agent));
+    const targets: RobotsRules[] = [];
+    if (matchesUs) {
+      hasSpecificGroup = true;
+      targets.push(specific);
+    }
+    if (groupAgents.includes('*')) targets.push(wildcard);
+
+    // An empty Disallow means "allow everything" and adds no rule
+    if (!value) continue;
+
+    for (const target of targets) {
+      target[field].push(value);
+    }
+  }
+
+  return hasSpecificGroup ? specific : wildcard;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+// Longest matching rule wins; Allow wins a tie
+export function isPathAllowed(rules: RobotsRules, path: string): boolean {
+  let bestLength = -1;
+  let allowed = true;
+
+  for (const pattern of rules.disallow) {
+    if (pattern.length > bestLength && patternToRegExp(pattern).test(path)) {
+      bestLength = pattern.length;
+      allowed = false;
+    }
+  }
+
+  for (const pattern of rules.allow) {
+    if (pattern.length >= bestLength && patternToRegExp(pattern).test(path)) {
+      bestLength = pattern.length;
+      allowed = true;
+    }
+  }
+
+  return allowed;
+}
+
+async function fetchRobotsRules(origin: string, productToken: string, userAgent: string, signal?: AbortSignal): Promise<RobotsRules> {
+  try {
+    const response = await axios.get(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': userAgent },
+      responseType: 'text',
+      maxContentLength: MAX_ROBOTS_BYTES,
+      maxRedirects: 5,
+      validateStatus: () => true,
+      signal,
+      ...PUBLIC_ONLY_REQUEST,
+    });
+
+    // 4xx means there are no restrictions; 5xx means the site is unreachable
+    if (response.status >= 400 && response.status < 500) return ALLOW_ALL;
+    if (response.status >= 500) return DISALLOW_ALL;
+
+    return parseRobotsTxt(String(response.data), productToken);
+  } catch (error) {
+    if (axios.isCancel(error) || isPrivateAddressError(error)) throw error;
+    return DISALLOW_ALL;
+  }
+}
+
+export async function isAllowedByRobots(
+  url: string,
+  { productToken, userAgent, signal }: { productToken: string; userAgent: string; signal?: AbortSignal }
+): Promise<boolean> {
+  const { origin, pathname, search } = new URL(url);
+  const cached = robotsCache.get(origin);
+
+  let rules: RobotsRules;
+  if (cached && cached.expires > Date.now()) {
+    rules = cached.rules;
+  } else {
+    rules = await fetchRobotsRules(origin, productToken, userAgent, signal);
+    robotsCache.set(origin, { rules, expires: Date.now() + ROBOTS_CACHE_TTL });
+  }
+
+  return isPathAllowed(rules, `${pathname}${search}`);
+}
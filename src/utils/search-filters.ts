@@ -0,0 +1,30 @@
+import { SearchQuery, SearchResult } from '@/types/search';
+
+export type SearchFilters = NonNullable<SearchQuery['filters']>;
+export type TimeRange = NonNullable<SearchFilters['timeRange']>;
+
+const TIME_RANGE_DAYS: Record<Exclude<TimeRange, 'all'>, number> = {
+  day: 1,
+  week: 7,
+  month: 31,
+  year: 366,
+};
+
+// Earliest publication time inside the window, or null when unrestricted
+export function getTimeRangeStart(timeRange?: TimeRange, now: number = Date.now()): number | null {
+  if (!timeRange || timeRange === 'all') return null;
+  return now - TIME_RANGE_DAYS[timeRange] * 24 * 60 * 60 * 1000;
+}
+
+// Post-hoc time filtering for providers that can't restrict dates natively.
+// Results without a parseable date are kept since they can't be placed.
+export function filterByTimeRange(results: SearchResult[], timeRange?: TimeRange): SearchResult[] {
+  const start = getTimeRangeStart(timeRange);
+  if (start === null) return results;
+
+  return results.filter(result => {
+    if (!result.publishedDate) return true;
+    const published = new Date(result.publishedDate).getTime();
+    return Number.isNaN(published) || published >= start;
+  });
+}
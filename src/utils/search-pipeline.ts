@@ -0,0 +1,422 @@
+import {
+  SearchResult, SearchQuery, SearchApiResponse, CitedSource, QueryPlan, AIResponse,
+  StructuredAnswer, CitationReport, ConfidenceBreakdown, ReusedAnswer,
+} from '@/types/search';
+import { CacheOutcome } from '@/types/cache';
+import { GenerateOptions } from '@/types/llm';
+import config from '@/lib/config';
+import { ProviderRegistry } from '@/utils/providers';
+import { getModelChain } from '@/utils/llm/fallback';
+import { executeSearch } from '@/utils/search-apis';
+import { routeQuery } from '@/utils/search-router';
+import { buildCacheKey, cacheTTL, getCacheStore, readCache, writeCache } from '@/utils/cache';
+import { findSimilarQuery, rememberQuery } from '@/utils/cache/similar-queries';
+import { mergeSearchResults, assessResultQuality } from '@/utils/result-merger';
+import { PromptEngine, QueryIntent } from '@/utils/prompt-engine';
+import { PerformanceMonitor } from '@/utils/performance-monitor';
+import { fetchResultContents, ContentFetchOutcome } from '@/utils/content-fetcher';
+import { selectPassages, SourcePassages } from '@/utils/passage-selector';
+import { createProgressTracker, ProgressTracker } from '@/utils/pipeline-progress';
+import { createSourceSet, previewSources, SourceSet } from '@/utils/source-set';
+import { ANSWER_JSON_FORMAT, DISAGREEMENTS_JSON_FORMAT } from '@/utils/structured-answer';
+import { CONTRADICTION_INTENTS, FactConflict, findFactConflicts } from '@/utils/contradiction-detector';
+import { planQuery } from '@/utils/query-planner';
+
+// The retrieval half of answering a query, shared by the JSON and streaming
+// search endpoints: search, merge, fetch pages and build the prompt context
+
+// Validate runtime environment (only when API is called)
+export function validateRuntimeEnv() {
+  // At least one model in the fallback chain must be usable
+  if (!getModelChain().some(link => link.provider.isConfigured())) {
+    console.error('Runtime environment validation failed: no LLM in the fallback chain is configured');
+    throw new Error('Missing required API keys. Please check your environment configuration.');
+  }
+  
+  if (ProviderRegistry.getEnabled().length === 0) {
+    console.error('No search providers are enabled. Configured providers:', config.searchProviders);
+    throw new Error('Missing required API keys for every configured search provider. Please check your environment configuration.');
+  }
+}
+
+// Set a strict timeout for each external API call
+const API_TIMEOUT = 24000; // 24 seconds (doubled for better reliability)
+
+// Sampling settings for answer synthesis
+export const ANSWER_GENERATION_OPTIONS: GenerateOptions = {
+  maxOutputTokens: config.geminiMaxTokens || 2000,  // Increased token limit for more detailed responses
+  temperature: 0.2,        // Lower temperature for more factual responses
+  topP: 0.90,              // Slightly lower top_p for more focused responses
+  topK: 40,                // Keep diverse token selection
+  responseFormat: 'json',  // Answers follow ANSWER_JSON_FORMAT
+};
+
+// Output tokens for an answer of at most this many words, leaving room for
+// citations and the JSON structure around them
+export const wordLimitTokens = (maxWords: number) => maxWords * 3 + 600;
+
+// Answer settings with the output capped to fit a word limit
+export function answerGenerationOptions(maxWords?: number): GenerateOptions {
+  if (!maxWords) return ANSWER_GENERATION_OPTIONS;
+  const maxOutputTokens = Math.min(ANSWER_GENERATION_OPTIONS.maxOutputTokens || Infinity, wordLimitTokens(maxWords));
+  return { ...ANSWER_GENERATION_OPTIONS, maxOutputTokens };
+}
+
+// A finished answer as stored in the response cache and served again for the
+// same or a similar query. Only answers the model generated successfully are cached.
+export type CachedAnswer = Omit<AIResponse, 'processingTime' | 'reusedFrom'> & {
+  query: string;
+  structuredAnswer: StructuredAnswer;
+  citations: CitationReport;
+  confidenceBreakdown: ConfidenceBreakdown;
+  plan: QueryPlan;
+};
+
+// What an answer depends on besides the query and its intent
+export interface AnswerScope {
+  filters?: SearchQuery['filters'];
+  maxWords?: number; // Length limit of the caller's API tier
+}
+
+// Answers depend on the query and its filters, the length limit, the
+// providers its intent is routed to and the models that write them
+function answerCacheScope(intent: QueryIntent, { filters, maxWords }: AnswerScope) {
+  return {
+    intent,
+    filters,
+    maxWords,
+    providers: routeQuery(intent).map(route => route.provider.id),
+    models: getModelChain().map(link => `${link.provider.id}:${link.provider.model}`),
+  };
+}
+
+export function answerCacheKey(query: string, intent: QueryIntent, scope: AnswerScope = {}): string {
+  return buildCacheKey('answer', { query, ...answerCacheScope(intent, scope) });
+}
+
+// One index of questions per scope, so only answers that could have been
+// generated for the new question are considered
+const similarQueryIndexKey = (intent: QueryIntent, scope: AnswerScope) =>
+  buildCacheKey('similar', { query: '', ...answerCacheScope(intent, scope) });
+
+export interface CachedAnswerLookup {
+  value?: CachedAnswer;
+  outcome: CacheOutcome;
+  reusedFrom?: ReusedAnswer;
+}
+
+// The cached answer to the same query or, failing that, to the most similar
+// one. `fresh` skips the cache so the answer is regenerated and replaces it.
+export async function readCachedAnswer(
+  query: string,
+  intent: QueryIntent,
+  scope: AnswerScope = {},
+  fresh = false
+): Promise<CachedAnswerLookup> {
+  if (fresh) return { outcome: { status: 'bypass', store: getCacheStore()?.id || 'none' } };
+
+  const exact = await readCache<CachedAnswer>(answerCacheKey(query, intent, scope));
+  if (exact.value) {
+    return { ...exact, reusedFrom: { query: exact.value.query, similarity: 1, age: exact.outcome.age || 0 } };
+  }
+  if (exact.outcome.status !== 'miss' || !config.semanticCache.enabled) return exact;
+
+  const match = await findSimilarQuery(similarQueryIndexKey(intent, scope), query);
+  if (!match) return exact;
+
+  const similar = await readCache<CachedAnswer>(match.key);
+  if (!similar.value) return exact;
+
+  const similarity = Math.round(match.similarity * 100) / 100;
+  return {
+    value: similar.value,
+    outcome: { ...similar.outcome, similarity },
+    reusedFrom: { query: similar.value.query, similarity, age: similar.outcome.age || 0 },
+  };
+}
+
+// Store an answer and remember its question for similar queries
+export async function writeCachedAnswer(
+  query: string,
+  intent: QueryIntent,
+  scope: AnswerScope,
+  answer: Omit<CachedAnswer, 'query'>
+): Promise<CacheOutcome> {
+  const key = answerCacheKey(query, intent, scope);
+  const ttl = cacheTTL(intent);
+  const outcome = await writeCache<CachedAnswer>(key, { ...answer, query }, ttl);
+
+  if (outcome.status === 'miss' && config.semanticCache.enabled) {
+    await rememberQuery(similarQueryIndexKey(intent, scope), query, key, ttl);
+  }
+  return outcome;
+}
+
+// Cache activity for the debug block of a response
+export function describeCacheUse(answer: CacheOutcome, apiResponses: SearchApiResponse[]) {
+  return {
+    answer,
+    providers: apiResponses
+      .filter(response => response.cache)
+      .map(response => ({ provider: response.source, status: response.cache })),
+  };
+}
+
+export interface SearchContext {
+  plan: QueryPlan;
+  apiResponses: SearchApiResponse[];
+  mergedResults: SearchResult[];
+  quality: { quality: string; confidence: number };
+  contentFetches: ContentFetchOutcome[];
+  sourceSet: SourceSet;
+  conflicts?: FactConflict[]; // Set for intents where sources are checked for disagreements
+}
+
+export interface SearchContextOptions {
+  intent: QueryIntent;
+  filters?: SearchQuery['filters'];
+  onPlan?: (plan: QueryPlan) => void;
+  onSources?: (sources: CitedSource[]) => void; // Called once results are merged, then with the final set
+  progress?: ProgressTracker;
+}
+
+export async function gatherSearchContext(
+  query: string,
+  { intent, filters, onPlan, onSources, progress = createProgressTracker() }: SearchContextOptions
+): Promise<SearchContext> {
+  // Complex questions are split into sub-queries that are searched side by side
+  const planTimer = PerformanceMonitor.startTimer('search_api_query_planning');
+  const planStage = progress.startStage('plan');
+  const plan = await planQuery(query);
+  planTimer(true, { method: plan.method, subQueries: plan.subQueries.length });
+  planStage(true, { label: plan.method, resultsCount: plan.subQueries.length });
+  onPlan?.(plan);
+  const isSplit = plan.subQueries.length > 1;
+  
+  // ULTRA AGGRESSIVE TIMEOUT HANDLING FOR VERCEL
+  const searchTimer = PerformanceMonitor.startTimer('search_api_external_calls');
+  const searchStage = progress.startStage('search');
+  let apiResponses: SearchApiResponse[];
+  
+  // Fan out to every enabled provider; each call gets its own strict timeout
+  // and failures come back as unsuccessful responses
+  try {
+    const responsesBySubQuery = await Promise.all(plan.subQueries.map(async ({ query: subQuery }, i) => {
+      const providerStages = new Map<string, ReturnType<ProgressTracker['startStage']>>();
+      const stageDetails = (provider: { id: string; name: string }) => isSplit
+        ? { provider: `${provider.id}:${i + 1}`, label: `${provider.name} (${i + 1})` }
+        : { provider: provider.id, label: provider.name };
+      
+      const responses = await executeSearch(subQuery, { intent, filters }, {
+        timeout: API_TIMEOUT,
+        onProviderStart: provider => {
+          providerStages.set(provider.id, progress.startStage('search', stageDetails(provider)));
+        },
+        onProviderComplete: (provider, response) => {
+          providerStages.get(provider.id)?.(response.success, {
+            resultsCount: response.results.length,
+            error: response.error,
+          });
+        },
+      });
+      
+      // Record which sub-query found each result
+      return isSplit
+        ? responses.map(response => ({
+          ...response,
+          results: response.results.map(result => ({ ...result, subQueries: [subQuery] })),
+        }))
+        : responses;
+    }));
+    apiResponses = responsesBySubQuery.flat();
+    
+    // If no search APIs responded successfully, create a fallback response
+    if (!apiResponses.some(r => r.success)) {
+      apiResponses.push({
+        results: [],
+        totalResults: 0,
+        processingTime: 0,
+        source: 'fallback',
+        success: false,
+        error: 'All search APIs timed out or failed'
+      });
+    }
+  } catch (searchError) {
+    console.error('Search error:', searchError);
+    // Continue with empty results if all searches fail
+    apiResponses = [
+      {
+        results: [],
+        totalResults: 0,
+        processingTime: 0,
+        source: 'error',
+        success: false,
+        error: searchError instanceof Error ? searchError.message : 'Unknown search error'
+      }
+    ];
+  }
+  searchTimer(true, { sourcesCount: apiResponses.length });
+  searchStage(apiResponses.some(r => r.success), {
+    resultsCount: apiResponses.reduce((sum, r) => sum + r.results.length, 0),
+  });
+  
+  // Merge and deduplicate results
+  const mergeTimer = PerformanceMonitor.startTimer('search_api_merge_results');
+  const mergeStage = progress.startStage('merge');
+  const mergedResults = mergeSearchResults(apiResponses);
+  mergeTimer(true, { resultsCount: mergedResults.length });
+  mergeStage(true, { resultsCount: mergedResults.length });
+  onSources?.(previewSources(mergedResults));
+  
+  // Assess result quality
+  const quality = assessResultQuality(mergedResults);
+  
+  // Replace snippets of the top results with extracted page text
+  let contentFetches: ContentFetchOutcome[] = [];
+  if (config.contentFetch.enabled) {
+    const fetchTimer = PerformanceMonitor.startTimer('search_api_content_fetch');
+    const fetchStage = progress.startStage('content_fetch');
+    contentFetches = await fetchResultContents(mergedResults);
+    const fetched = contentFetches.filter(f => f.status === 'ok').length;
+    fetchTimer(true, { fetched });
+    fetchStage(true, { resultsCount: fetched });
+  }
+  
+  // Fit the most query-relevant passages of each source into the token budget.
+  // Passages answering any of the sub-queries count as relevant.
+  const passageQuery = [query, ...(isSplit ? plan.subQueries.map(subQuery => subQuery.query) : [])].join(' ');
+  const sourceSet = createSourceSet(mergedResults, selectPassages(mergedResults, passageQuery));
+  onSources?.(sourceSet.sources);
+  
+  // Statements in different sources that look contradictory, for the model to check
+  const conflicts = CONTRADICTION_INTENTS.has(intent) ? findFactConflicts(sourceSet.promptSources) : undefined;
+  
+  return { plan, apiResponses, mergedResults, quality, contentFetches, sourceSet, conflicts };
+}
+
+// Asks for disagreements, pointing out the statements that look contradictory
+function buildDisagreementInstructions(conflicts: FactConflict[]): string {
+  if (conflicts.length === 0) return `\n\n${DISAGREEMENTS_JSON_FORMAT}`;
+  
+  const candidates = conflicts.map(({ statements: [a, b] }) =>
+    `- Source [${a.citation}]: "${a.text}"\n  Source [${b.citation}]: "${b.text}"`
+  ).join('\n');
+  
+  return `\n\n${DISAGREEMENTS_JSON_FORMAT}
+
+These statements may conflict. Check each pair against its sources and list the ones that really disagree:
+${candidates}`;
+}
+
+export interface AnswerPromptOptions {
+  plan?: QueryPlan; // Sub-queries the answer has to cover, when the query was split
+  conflicts?: FactConflict[]; // With a list (even an empty one), the answer reports where sources disagree
+  maxWords?: number; // Length limit that overrides the usual answer length
+}
+
+// Prompt asking the model to answer from the selected source passages
+export function buildAnswerPrompt(
+  query: string,
+  contextSources: SourcePassages[],
+  { plan, conflicts, maxWords }: AnswerPromptOptions = {}
+): string {
+  const limitedResults = contextSources.map(source => source.result);
+  const subQueries = plan && plan.subQueries.length > 1 ? plan.subQueries : [];
+  
+  // Create an enhanced source format with more context and metadata
+  const sourcesText = contextSources.map(({ result, passages }, index) => {
+    // Extract domain for context
+    let domain = '';
+    try {
+      domain = new URL(result.url).hostname;
+    } catch {
+      domain = result.source || 'Unknown source';
+    }
+    
+    // Add relevance indicator
+    const relevance = result.relevanceScore ? `${result.relevanceScore}%` : 'Unknown';
+    
+    // Format date if available
+    const dateInfo = result.publishedDate 
+      ? `Published: ${result.publishedDate}`
+      : '';
+    
+    // Academic papers carry their authors for author/year citations
+    const authorInfo = result.authors?.length
+      ? `\n${PromptEngine.formatAuthorLine(result)}`
+      : '';
+    
+    // Which of the sub-queries the source was found for
+    const subQueryInfo = result.subQueries?.length
+      ? `\nFound for: ${result.subQueries.join('; ')}`
+      : '';
+      
+    // Enhanced source format with better structure
+    return `Source [${index + 1}]: ${result.title}
+URL: ${result.url}
+Domain: ${domain}
+Relevance: ${relevance}
+${dateInfo}${authorInfo}${subQueryInfo}
+
+CONTENT:
+${passages.join('\n\n[...]\n\n') || result.snippet}
+
+---`;
+  }).join('\n\n');
+  
+  const disagreementInstructions = conflicts ? buildDisagreementInstructions(conflicts) : '';
+  
+  // A split query is answered as a whole, covering each of its parts
+  const subQueryInstructions = subQueries.length > 0
+    ? `\n\nThe search was split into these parts. Answer the query as a whole, making sure each part is covered:\n${subQueries.map(subQuery => `- ${subQuery.query}${subQuery.purpose ? ` (${subQuery.purpose})` : ''}`).join('\n')}`
+    : '';
+  
+  // A length limit wins over the word counts asked for below
+  const lengthInstructions = maxWords
+    ? `\n\nLENGTH LIMIT: Keep the whole answer under ${maxWords} words, whatever the instructions above say about length. Cover the most important points briefly rather than exceeding it.`
+    : '';
+  
+  // Create a prompt for detailed, source-rich responses
+  let directPrompt = '';
+  
+  if (config.useSimplifiedPrompt) {
+    // Simplified prompt for challenging environments
+    directPrompt = `Answer this question: "${query}"${subQueryInstructions}
+    
+Here's information from search results:
+${limitedResults.map((r, i) => `[${i+1}] ${r.title}\n${r.url}\n${r.snippet}`).join('\n\n')}
+
+Write a clear, comprehensive answer that cites its sources by number. Include specific details from each source.
+
+${ANSWER_JSON_FORMAT}${disagreementInstructions}${lengthInstructions}`;
+  } else {
+    // Ultra-comprehensive prompt for extremely detailed, reference-rich responses
+    directPrompt = `You are a FRIENDLY, KNOWLEDGEABLE EXPERT with a PhD-level understanding of the subject matter. Your task is to create a CONVERSATIONAL yet COMPREHENSIVE answer to the following query using ONLY the sources provided:
+
+QUERY: "${query}"${subQueryInstructions}
+
+SEARCH RESULTS:
+${sourcesText}
+
+CRITICAL REQUIREMENTS:
+1. Start with a FRIENDLY, CONVERSATIONAL summary written in HUMAN-LIKE language (approx. 150-200 words)
+2. Then provide an EXCEPTIONALLY COMPREHENSIVE, IN-DEPTH research report (minimum 800-1000 words total)
+3. For EACH claim, fact, or statement, provide EXPLICIT citations using the source numbers
+4. EXTRACT EVERY RELEVANT detail, statistic, figure, date, name, and quote from the sources
+5. SYNTHESIZE information across sources to form a complete picture
+6. ANALYZE implications, significance, and context for each major point
+7. EXPLAIN complex concepts with clear, detailed explanations
+8. Organize the report into several focused sections, each made of individual claims
+9. End with a NATURAL, HUMAN-LIKE conclusion section with actionable insights and personal perspective
+10. NEVER invent facts or data not present in the sources - rely EXCLUSIVELY on provided materials
+${limitedResults.some(r => r.authors?.length) ? `11. When citing an ACADEMIC PAPER (a source with Authors), name it by author and year in the claim text, e.g. "Smith et al. (2023) found...", and cite its number
+` : ''}
+${ANSWER_JSON_FORMAT}${disagreementInstructions}
+
+Suggested sections: "Background and Context", "Key Developments and Insights", "Important Considerations", "Expert Analysis" and "In Conclusion". Include around five takeaways.
+
+REMEMBER: The summary and conclusion should be FRIENDLY and CONVERSATIONAL like a helpful human expert would write, while the sections in between should be COMPREHENSIVE, extensively cited, and analyze the topic from multiple angles.${lengthInstructions}`;
+  }
+  
+  return directPrompt;
+}
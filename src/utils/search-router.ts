@@ -0,0 +1,49 @@
+import { SearchProvider, SearchQuery, ProviderParams } from '@/types/search';
+import { ProviderRegistry } from '@/utils/providers';
+import config from '@/lib/config';
+import { isQuotaLow } from '@/utils/quota';
+
+export interface RoutedProvider {
+  provider: SearchProvider;
+  params?: ProviderParams;
+  sites?: string[];
+}
+
+function resolveRoutes(intent: SearchQuery['intent']): RoutedProvider[] {
+  const seen = new Set<string>();
+  const routes: RoutedProvider[] = [];
+
+  for (const route of config.searchRouting[intent] || []) {
+    const provider = ProviderRegistry.get(route.provider);
+    if (!provider || seen.has(provider.id) || !ProviderRegistry.isEnabled(provider.id) || isQuotaLow(provider.id)) continue;
+
+    seen.add(provider.id);
+    routes.push({ provider, params: route.params, sites: route.sites });
+  }
+
+  return routes;
+}
+
+// Ordered providers (with provider-specific parameters) for a query intent.
+// Providers running out of quota are left out. Falls back to the general
+// route, then to every enabled provider with quota left, then to every enabled
+// provider, so a query is never left without a backend.
+export function routeQuery(intent: SearchQuery['intent'] = 'general'): RoutedProvider[] {
+  const routes = resolveRoutes(intent);
+  if (routes.length > 0) return routes;
+
+  const generalRoutes = intent === 'general' ? [] : resolveRoutes('general');
+  if (generalRoutes.length > 0) return generalRoutes;
+
+  const enabled = ProviderRegistry.getEnabled();
+  const withQuota = enabled.filter(provider => !isQuotaLow(provider.id));
+  return (withQuota.length > 0 ? withQuota : enabled).map(provider => ({ provider }));
+}
+
+// Restrict a query to a set of sites using search-engine operators
+export function applySiteFilter(query: string, sites?: string[]): string {
+  if (!sites || sites.length === 0) return query;
+
+  const siteClause = sites.map(site => `site:${site}`).join(' OR ');
+  return `${query} (${siteClause})`;
+}
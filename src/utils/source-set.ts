@@ -0,0 +1,54 @@
+import { CitationReport, CitedSource, SearchResult, SourceDisagreement } from '@/types/search';
+import { SourcePassages } from '@/utils/passage-selector';
+
+// The sources of one request, numbered once from the merged ranking so that
+// [n] means the same result in the prompt, the answer, the response payload
+// and the UI. Sources that didn't fit in the prompt, or that the answer
+// doesn't cite, are kept and flagged rather than dropped.
+
+// Number of sources returned to the client alongside the answer, at least
+export const MAX_SOURCES_TO_DISPLAY = 6;
+
+export interface SourceSet {
+  sources: CitedSource[]; // sources[n - 1] has citation number n
+  promptSources: SourcePassages[]; // The first sources, with the passages given to the model
+  promptResults: SearchResult[];
+  contextTokens: number;
+  // The sources flagged with whether the answer cites them, in its text or its disagreements
+  withCitations(report?: CitationReport, disagreements?: SourceDisagreement[]): CitedSource[];
+}
+
+const numbered = (results: SearchResult[], count: number): CitedSource[] =>
+  results.slice(0, count).map((result, i) => ({ ...result, citationNumber: i + 1 }));
+
+// The top results as soon as they are merged, before the prompt is built.
+// Numbers match the SourceSet created later from the same ranking.
+export function previewSources(mergedResults: SearchResult[]): CitedSource[] {
+  return numbered(mergedResults, MAX_SOURCES_TO_DISPLAY);
+}
+
+// promptSources comes from selectPassages, which returns a prefix of mergedResults
+export function createSourceSet(mergedResults: SearchResult[], promptSources: SourcePassages[]): SourceSet {
+  const sources = numbered(mergedResults, Math.max(MAX_SOURCES_TO_DISPLAY, promptSources.length))
+    .map(source => ({ ...source, inPrompt: source.citationNumber <= promptSources.length }));
+
+  return {
+    sources,
+    promptSources,
+    promptResults: promptSources.map(source => source.result),
+    contextTokens: promptSources.reduce((sum, source) => sum + source.tokens, 0),
+
+    withCitations(report, disagreements = []) {
+      if (!report) return sources;
+
+      const cited = new Set([
+        ...report.checks.filter(check => check.inRange).map(check => check.citation),
+        ...disagreements.flatMap(disagreement => disagreement.statements.flatMap(statement => statement.citations)),
+      ]);
+      return sources.map(source => ({
+        ...source,
+        cited: source.inPrompt ? cited.has(source.citationNumber) : false,
+      }));
+    },
+  };
+}
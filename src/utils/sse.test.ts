@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { encodeServerSentEvent, readServerSentEvents, ServerSentEvent } from './sse';
+
+// A response body delivering the chunks exactly as given
+function body(chunks: (string | Uint8Array)[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk));
+      controller.close();
+    },
+  });
+}
+
+async function read(chunks: (string | Uint8Array)[]): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  for await (const event of readServerSentEvents(body(chunks))) events.push(event);
+  return events;
+}
+
+describe('readServerSentEvents', () => {
+  it('reads back what encodeServerSentEvent writes', async () => {
+    const events = await read([
+      encodeServerSentEvent('sources', { sources: [{ citationNumber: 1 }] }),
+      encodeServerSentEvent('token', 'Hello\nworld'),
+    ]);
+
+    expect(events).toEqual([
+      { event: 'sources', data: { sources: [{ citationNumber: 1 }] } },
+      { event: 'token', data: 'Hello\nworld' },
+    ]);
+  });
+
+  it('joins events split across chunks, including inside a character', async () => {
+    const euro = new TextEncoder().encode('data: "€"\n\n');
+    const events = await read(['event: tok', 'en\ndata: {"a"', ':1}\n', '\n', euro.slice(0, 8), euro.slice(8)]);
+
+    expect(events).toEqual([{ event: 'token', data: { a: 1 } }, { event: 'message', data: '€' }]);
+  });
+
+  it('handles CRLF line endings, also when a chunk ends between \\r and \\n', async () => {
+    const events = await read(['event: a\r\ndata: 1\r', '\n\r\n', 'event: b\r', '\ndata: 2\r\n\r', '\n', 'data: 3\r\n\r\n']);
+
+    expect(events).toEqual([
+      { event: 'a', data: 1 },
+      { event: 'b', data: 2 },
+      { event: 'message', data: 3 },
+    ]);
+  });
+
+  it('treats a lone \\r as a line ending', async () => {
+    expect(await read(['data: 1\r\r', 'data: 2\r'])).toEqual([
+      { event: 'message', data: 1 },
+      { event: 'message', data: 2 },
+    ]);
+  });
+
+  it('skips comments and events without data, and joins multi-line data', async () => {
+    const events = await read([': keep-alive\n\nevent: empty\n\ndata: first\ndata: second\n\n']);
+
+    expect(events).toEqual([{ event: 'message', data: 'first\nsecond' }]);
+  });
+
+  it('reads a last event without a closing blank line', async () => {
+    expect(await read(['data: [DONE]'])).toEqual([{ event: 'message', data: '[DONE]' }]);
+  });
+});
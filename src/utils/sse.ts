@@ -0,0 +1,67 @@
+// Server-Sent Events encoding (server) and parsing (browser)
+
+export interface ServerSentEvent<T = unknown> {
+  event: string;
+  data: T;
+}
+
+export function encodeServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith(':')) continue; // Comment / keep-alive
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'event') event = value;
+    else if (field === 'data') dataLines.push(value);
+  }
+
+  if (dataLines.length === 0) return null;
+
+  const raw = dataLines.join('\n');
+  try {
+    return { event, data: JSON.parse(raw) };
+  } catch {
+    return { event, data: raw };
+  }
+}
+
+// Read events from a fetch() response body as they arrive. EventSource can't
+// be used because searches are POST requests.
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let carriageReturn = false; // A chunk ended in \r, which may start a \r\n
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      let text: string = `${carriageReturn ? '\r' : ''}${decoder.decode(value, { stream: true })}`;
+      carriageReturn = text.endsWith('\r');
+      if (carriageReturn) text = text.slice(0, -1);
+      buffer += text.replace(/\r\n?/g, '\n');
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const parsed = parseEventBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (parsed) yield parsed;
+      }
+    }
+
+    const trailing = parseEventBlock(`${buffer}${carriageReturn ? '\n' : ''}${decoder.decode()}`);
+    if (trailing) yield trailing;
+  } finally {
+    reader.releaseLock();
+  }
+}
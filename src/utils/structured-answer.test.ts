@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import config from '@/lib/config';
+import { createFakeLLMProvider } from '@/utils/llm/fake';
+import { ModelChainError, setModelChain } from '@/utils/llm/fallback';
+import { generateStructuredAnswer } from './structured-answer';
+
+const VALID_ANSWER = {
+  summary: 'Solar panels turn sunlight into electricity [1].',
+  sections: [{ heading: 'How it works', claims: [{ text: 'Photovoltaic cells absorb light.', citations: [1, 2] }] }],
+  takeaways: [{ text: 'Panels work best in direct sun.', citations: [2] }],
+  followUpQuestions: ['How long do panels last?'],
+};
+
+// Answers the model gives, one per call, and the prompts it was sent
+function scriptModel(replies: string[]) {
+  const prompts: string[] = [];
+  const provider = createFakeLLMProvider({
+    response: prompt => {
+      prompts.push(prompt);
+      return replies[prompts.length - 1] ?? replies[replies.length - 1];
+    },
+  });
+  setModelChain([{ provider, timeout: 1000 }]);
+  return prompts;
+}
+
+describe('generateStructuredAnswer', () => {
+  beforeEach(() => {
+    config.llm.retries = 0;
+    config.llm.answerRepairAttempts = 2;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setModelChain(null);
+  });
+
+  it('accepts a valid answer, even wrapped in a code fence', async () => {
+    scriptModel([`\`\`\`json\n${JSON.stringify(VALID_ANSWER)}\n\`\`\``]);
+
+    const result = await generateStructuredAnswer('question', 2);
+
+    expect(result.repairs).toBe(0);
+    expect(result.answer).toEqual({ ...VALID_ANSWER, disagreements: [] });
+  });
+
+  it('asks the model to repair JSON that does not match the format', async () => {
+    const incomplete = { ...VALID_ANSWER, takeaways: undefined };
+    const prompts = scriptModel([JSON.stringify(incomplete), JSON.stringify(VALID_ANSWER)]);
+
+    const result = await generateStructuredAnswer('question', 2);
+
+    expect(result.repairs).toBe(1);
+    expect(result.answer.takeaways).toEqual(VALID_ANSWER.takeaways);
+    expect(prompts[1]).toMatch(/could not be used because it does not match the required format: takeaways/);
+    expect(prompts[1]).toContain(JSON.stringify(incomplete));
+    expect(result.attempts).toHaveLength(2);
+  });
+
+  it('repairs citations of sources that do not exist', async () => {
+    const outOfRange = { ...VALID_ANSWER, takeaways: [{ text: 'Unsupported.', citations: [7] }] };
+    const prompts = scriptModel([JSON.stringify(outOfRange), JSON.stringify(VALID_ANSWER)]);
+
+    const result = await generateStructuredAnswer('question', 2);
+
+    expect(result.repairs).toBe(1);
+    expect(prompts[1]).toContain('Citations must be source numbers from 1 to 2; found 7');
+  });
+
+  it('regenerates from the original prompt when the output is not JSON at all', async () => {
+    const prompts = scriptModel(['{"summary": "Solar panels turn sun', JSON.stringify(VALID_ANSWER)]);
+
+    const result = await generateStructuredAnswer('original question', 2);
+
+    expect(result.repairs).toBe(1);
+    expect(prompts).toEqual(['original question', 'original question']);
+  });
+
+  it('gives up after the configured number of repairs', async () => {
+    const prompts = scriptModel(['{"summary": 42}']);
+
+    const error = await generateStructuredAnswer('question', 2).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ModelChainError);
+    expect(error.message).toMatch(/^Invalid structured answer: summary/);
+    expect(error.attempts).toHaveLength(3);
+    expect(prompts).toHaveLength(1 + config.llm.answerRepairAttempts);
+  });
+});
@@ -0,0 +1,298 @@
+import { AnswerClaim, SearchResult, SourceDisagreement, StructuredAnswer } from '@/types/search';
+import { GenerateOptions, ModelAttempt } from '@/types/llm';
+import { structuredAnswerSchema } from '@/lib/validations';
+import config from '@/lib/config';
+import { generateWithFallback, GenerationResult, ModelChainError } from '@/utils/llm/fallback';
+
+// Answers are generated as JSON (see StructuredAnswer), validated, repaired
+// when invalid, and rendered to Markdown on the server
+
+// Shape of the answer as described to the model
+export const ANSWER_JSON_FORMAT = `RESPOND WITH A SINGLE JSON OBJECT (no Markdown, no code fences) in exactly this shape:
+{
+  "summary": "A friendly, conversational summary in plain text. May cite sources inline as [1], [2].",
+  "sections": [
+    {
+      "heading": "Section heading",
+      "claims": [
+        { "text": "One fact, finding or piece of analysis, in one or two sentences.", "citations": [1, 3] }
+      ]
+    }
+  ],
+  "takeaways": [
+    { "text": "A clearly explained key takeaway.", "citations": [2] }
+  ],
+  "followUpQuestions": ["A natural next question the user might ask"]
+}
+
+- "citations" lists the numbers of the sources supporting the claim; every claim drawn from the sources must cite at least one
+- Only use source numbers that appear in the search results
+- Do not put citation markers such as [1] inside claim text; use "citations" instead
+- Do not add a sources list; it is added automatically`;
+
+// Extra field requested on research and news queries
+export const DISAGREEMENTS_JSON_FORMAT = `Where the sources disagree on a fact (a figure, a date, or whether something is true), also include a "disagreements" array in the JSON object:
+"disagreements": [
+  {
+    "topic": "The fact the sources disagree on",
+    "statements": [
+      { "text": "What one source says", "citations": [1] },
+      { "text": "What a source that disagrees says", "citations": [4] }
+    ]
+  }
+]
+
+- Each statement gives one side as its sources put it and cites only those sources
+- Only list real conflicts, not sources giving different details or describing different things
+- Use an empty array when the sources agree`;
+
+export type ParsedAnswer =
+  | { success: true; answer: StructuredAnswer }
+  | { success: false; error: string; isJson: boolean };
+
+export interface StructuredGeneration extends Omit<GenerationResult, 'text'> {
+  answer: StructuredAnswer;
+  repairs: number; // Extra generations needed to get a valid answer
+}
+
+// Models sometimes wrap JSON in code fences or add a sentence around it
+function extractJsonObject(text: string): string | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start === -1 || end < start ? null : text.slice(start, end + 1);
+}
+
+// Distinct sources cited by either side of a disagreement
+export function disagreementCitations({ statements }: SourceDisagreement): number[] {
+  return [...new Set(statements.flatMap(statement => statement.citations))];
+}
+
+function citedSourceNumbers(answer: StructuredAnswer): number[] {
+  const claims = [
+    ...answer.sections.flatMap(section => section.claims),
+    ...answer.takeaways,
+    ...answer.disagreements.flatMap(disagreement => disagreement.statements),
+  ];
+  const inline = Array.from(answer.summary.matchAll(/\[(\d+)\]/g), match => Number(match[1]));
+  return [...claims.flatMap(claim => claim.citations), ...inline];
+}
+
+export function parseStructuredAnswer(output: string, sourceCount: number): ParsedAnswer {
+  const json = extractJsonObject(output);
+  if (!json) {
+    return { success: false, error: 'The response is not a JSON object', isJson: false };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    return { success: false, error: `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`, isJson: false };
+  }
+
+  const parsed = structuredAnswerSchema.safeParse(value);
+  if (!parsed.success) {
+    const error = parsed.error.issues
+      .map(issue => `${issue.path.join('.') || 'answer'}: ${issue.message}`)
+      .join('; ');
+    return { success: false, error, isJson: true };
+  }
+
+  const outOfRange = [...new Set(citedSourceNumbers(parsed.data).filter(n => n > sourceCount))];
+  if (outOfRange.length > 0) {
+    return {
+      success: false,
+      error: `Citations must be source numbers from 1 to ${sourceCount}; found ${outOfRange.join(', ')}`,
+      isJson: true,
+    };
+  }
+
+  // A "disagreement" that only cites one source is a source contradicting itself
+  // or a misunderstanding; neither is worth showing as sources disagreeing
+  const disagreements = parsed.data.disagreements.filter(disagreement =>
+    disagreementCitations(disagreement).length > 1
+  );
+
+  return { success: true, answer: { ...parsed.data, disagreements } };
+}
+
+const buildRepairPrompt = (output: string, error: string, sourceCount: number) => `Your previous response could not be used because it does not match the required format: ${error}
+
+Rewrite it as a single JSON object that fixes this problem while keeping its content. There are ${sourceCount} sources, numbered 1 to ${sourceCount}.
+
+${ANSWER_JSON_FORMAT}
+
+PREVIOUS RESPONSE:
+${output}`;
+
+// Validate a generated answer, asking the model to fix it when it is invalid.
+// Output that isn't JSON at all (usually cut off) is regenerated from the
+// original prompt instead, since there is nothing to repair.
+export async function finishStructuredAnswer(
+  prompt: string,
+  generation: GenerationResult,
+  sourceCount: number,
+  options: GenerateOptions = {}
+): Promise<StructuredGeneration> {
+  let { text, provider, model } = generation;
+  const attempts: ModelAttempt[] = [...generation.attempts];
+  let parsed = parseStructuredAnswer(text, sourceCount);
+  let repairs = 0;
+
+  while (!parsed.success) {
+    if (repairs >= config.llm.answerRepairAttempts) {
+      throw new ModelChainError(`Invalid structured answer: ${parsed.error}`, attempts);
+    }
+    repairs++;
+    console.warn(`Answer from ${model} is invalid (${parsed.error}); ${parsed.isJson ? 'repairing' : 'regenerating'} (${repairs}/${config.llm.answerRepairAttempts})`);
+
+    const retry = await generateWithFallback(
+      parsed.isJson ? buildRepairPrompt(text, parsed.error, sourceCount) : prompt,
+      options
+    );
+    ({ text, provider, model } = retry);
+    attempts.push(...retry.attempts);
+    parsed = parseStructuredAnswer(text, sourceCount);
+  }
+
+  return { answer: parsed.answer, provider, model, attempts, repairs };
+}
+
+export async function generateStructuredAnswer(
+  prompt: string,
+  sourceCount: number,
+  options: GenerateOptions = {}
+): Promise<StructuredGeneration> {
+  const generation = await generateWithFallback(prompt, options);
+  return finishStructuredAnswer(prompt, generation, sourceCount, options);
+}
+
+const renderClaim = ({ text, citations }: AnswerClaim) =>
+  citations.length > 0 ? `${text} ${citations.map(n => `[${n}]`).join('')}` : text;
+
+// Markdown shown to the user. Without sources (while streaming) the sources
+// list is left out; everything else renders in the order it is generated so
+// the output of a growing answer only ever grows at the end.
+export function renderAnswerMarkdown(answer: StructuredAnswer, sources?: SearchResult[]): string {
+  const blocks: string[] = [];
+
+  if (answer.summary) {
+    blocks.push(`## Here's What You Need to Know`, answer.summary);
+  }
+
+  for (const section of answer.sections) {
+    if (!section.heading) continue;
+    blocks.push(`## ${section.heading}`);
+
+    const paragraph = section.claims.filter(claim => claim.text).map(renderClaim).join(' ');
+    if (paragraph) blocks.push(paragraph);
+  }
+
+  const takeaways = answer.takeaways.filter(claim => claim.text);
+  if (takeaways.length > 0) {
+    blocks.push('## Key Takeaways', takeaways.map(claim => `- ${renderClaim(claim)}`).join('\n'));
+  }
+
+  if (sources && sources.length > 0) {
+    blocks.push('## Sources', sources.map((source, i) =>
+      `- [${i + 1}] [${source.title}](${source.url})${source.publishedDate ? ` (Published: ${source.publishedDate})` : ''}`
+    ).join('\n'));
+  }
+
+  return blocks.join('\n\n');
+}
+
+// Close any open strings, arrays and objects so a truncated JSON document parses
+function closePartialJson(text: string): string {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      closers.push('}');
+    } else if (char === '[') {
+      closers.push(']');
+    } else if (char === '}' || char === ']') {
+      closers.pop();
+    }
+  }
+
+  return text + (inString ? '"' : '') + closers.reverse().join('');
+}
+
+// Best-effort parse of JSON that is still being generated. Incomplete tokens
+// at the end (a key without a value, half a number) are dropped.
+export function parsePartialJson(text: string): unknown {
+  const start = text.indexOf('{');
+  if (start === -1) return undefined;
+
+  let candidate = text.slice(start);
+  for (let i = 0; i < 4; i++) {
+    try {
+      return JSON.parse(closePartialJson(candidate));
+    } catch {
+      candidate = candidate.trimEnd().replace(/(?:,|:|"(?:[^"\\]|\\.)*"|"(?:[^"\\]|\\.)*\\?|[\w.+-]+)$/, '');
+    }
+  }
+  return undefined;
+}
+
+const asString = (value: unknown) => typeof value === 'string' ? value : '';
+
+const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+function asClaim(value: unknown): AnswerClaim {
+  const claim = (value ?? {}) as Record<string, unknown>;
+  return {
+    text: asString(claim.text),
+    citations: asArray(claim.citations).filter((n): n is number => Number.isInteger(n) && (n as number) > 0),
+  };
+}
+
+// Whatever part of the answer has been generated so far
+export function toPartialAnswer(value: unknown): StructuredAnswer {
+  const answer = (value ?? {}) as Record<string, unknown>;
+  return {
+    summary: asString(answer.summary),
+    sections: asArray(answer.sections).map(section => ({
+      heading: asString((section as Record<string, unknown>)?.heading),
+      claims: asArray((section as Record<string, unknown>)?.claims).map(asClaim),
+    })),
+    takeaways: asArray(answer.takeaways).map(asClaim),
+    disagreements: asArray(answer.disagreements).map(disagreement => ({
+      topic: asString((disagreement as Record<string, unknown>)?.topic),
+      statements: asArray((disagreement as Record<string, unknown>)?.statements).map(asClaim),
+    })),
+    followUpQuestions: asArray(answer.followUpQuestions).filter((q): q is string => typeof q === 'string'),
+  };
+}
+
+// Turns streamed JSON chunks into Markdown chunks. push() returns the text to
+// append, which is empty when the latest render no longer extends what was
+// already sent (the final answer event corrects it).
+export function createStreamingAnswerRenderer() {
+  let output = '';
+  let rendered = '';
+
+  return {
+    push(chunk: string): string {
+      output += chunk;
+      const markdown = renderAnswerMarkdown(toPartialAnswer(parsePartialJson(output)));
+      if (markdown.length <= rendered.length || !markdown.startsWith(rendered)) return '';
+
+      const text = markdown.slice(rendered.length);
+      rendered = markdown;
+      return text;
+    },
+    get output() {
+      return output;
+    },
+  };
+}